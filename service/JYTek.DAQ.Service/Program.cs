@@ -75,4 +75,54 @@ app.MapGet("/health", () => new {
 // 性能指标端点
 app.MapGet("/metrics", (PerformanceMonitorService monitor) => monitor.GetMetrics());
 
+// 板卡档案端点，前端的“从服务加载”使用；字段与 web/src/utils/cardProfiles.ts 的 CardProfile 一致
+app.MapGet("/cards", () => new[]
+{
+    new
+    {
+        Model = "PXIe-69846H",
+        Description = "4 通道高速数字化仪",
+        Capabilities = new
+        {
+            MaxChannels = 4,
+            SampleRates = new[] { 100_000, 200_000, 500_000, 1_000_000, 2_000_000, 5_000_000, 10_000_000, 20_000_000, 40_000_000 },
+            InputRanges = new[] { 0.2, 1.0, 5.0, 10.0 },
+            Couplings = new[] { "DC", "AC" },
+            BitDepth = 16,
+            BandwidthHz = 20_000_000
+        },
+        Defaults = new { Channels = 4, SampleRate = 40_000_000, BufferSize = 100_000 }
+    },
+    new
+    {
+        Model = "PXIe-5310",
+        Description = "16 通道同步采集卡",
+        Capabilities = new
+        {
+            MaxChannels = 16,
+            SampleRates = new[] { 10_000, 20_000, 50_000, 100_000, 200_000, 500_000, 1_000_000, 2_000_000, 5_000_000 },
+            InputRanges = new[] { 1.0, 2.0, 5.0, 10.0 },
+            Couplings = new[] { "DC", "AC" },
+            BitDepth = 16,
+            BandwidthHz = 2_000_000
+        },
+        Defaults = new { Channels = 16, SampleRate = 5_000_000, BufferSize = 50_000 }
+    },
+    new
+    {
+        Model = "PXIe-5500",
+        Description = "32 通道多功能采集卡",
+        Capabilities = new
+        {
+            MaxChannels = 32,
+            SampleRates = new[] { 1_000, 2_000, 5_000, 10_000, 20_000, 50_000, 100_000, 200_000, 500_000, 1_000_000 },
+            InputRanges = new[] { 0.2, 1.0, 10.0 },
+            Couplings = new[] { "DC" },
+            BitDepth = 24,
+            BandwidthHz = 400_000
+        },
+        Defaults = new { Channels = 32, SampleRate = 1_000_000, BufferSize = 25_000 }
+    }
+});
+
 app.Run();
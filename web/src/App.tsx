@@ -1,30 +1,126 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import './App.css';
-import WaveformChart from './components/WaveformChart';
+import WaveformChart, { WaveformStream } from './components/WaveformChart';
 import ControlPanel from './components/ControlPanel';
-import { 
-  HighPerformanceStreamer, 
-  MockConfig, 
-  CARD_CONFIGS 
-} from './utils/mockDataGenerator';
-import { 
-  realDataService, 
-  mockConfigToRealConfig
-} from './services/realDataService';
-
-function App() {
+import SettingsDialog from './components/SettingsDialog';
+import PerformanceDashboard from './components/PerformanceDashboard';
+import { MockConfig } from './utils/mockDataGenerator';
+import { BUILTIN_CARD_PROFILES, CardProfile, constrainConfig } from './utils/cardProfiles';
+import { ChunkMetadata, DataSource } from './services/dataSource';
+import { createDataSource } from './services/dataSources';
+import { HubConnectionEvent } from './services/signalrClient';
+import { StreamConnectionEvent, StreamConnectionState } from './services/reconnectPolicy';
+import { TimeAxisMode } from './utils/deviceTimeline';
+import { DecimationMode } from './utils/decimation';
+import { isAcquisitionActive } from './services/acquisitionState';
+import { useAcquisitionState } from './hooks/useAcquisitionState';
+import { deviceRegistry } from './services/deviceRegistry';
+import { useDeviceRegistry } from './hooks/useDeviceRegistry';
+import { cardProfileRegistry } from './services/cardProfileRegistry';
+import { useCardProfiles } from './hooks/useCardProfiles';
+import { formatRuntimeConfigIssue, getRuntimeConfig, RuntimeConfigIssue } from './services/runtimeConfig';
+
+// 多台设备同时采集时，状态和错误前面加上设备名
+function devicePrefix(deviceId?: string): string {
+  if (!deviceId || deviceRegistry.selectedIds.length < 2) return '';
+  return `${deviceRegistry.get(deviceId)?.name ?? deviceId}: `;
+}
+
+// 将数据流连接事件转换为界面显示的状态文本
+function describeConnectionEvent(event: StreamConnectionEvent, source: DataSource): string {
+  switch (event.state) {
+    case 'connecting':
+      return '连接中...';
+    case 'connected':
+      // 本地数据源没有真正的连接，直接显示数据源名称
+      return source.remote ? '已连接' : source.label;
+    case 'reconnecting':
+      return `重新连接中 (${event.attempt}/${event.maxAttempts})...`;
+    case 'resumed':
+      return '已恢复';
+    case 'gaveUp':
+      return '重连失败';
+    default:
+      return '未连接';
+  }
+}
+
+// SignalR 控制通道的状态文本，带上实际使用的传输方式
+function describeHubConnectionEvent(event: HubConnectionEvent): string {
+  const transports = event.transports ? ` (${event.fallback ? '回退 ' : ''}${event.transports.join('/')})` : '';
+  switch (event.state) {
+    case 'connecting':
+      return `连接中${transports}...`;
+    case 'connected':
+      return `已连接${transports}`;
+    case 'reconnecting':
+      return `重新连接中 (${event.attempt}/${event.maxAttempts})...`;
+    case 'resumed':
+      return `已恢复${transports}`;
+    case 'gaveUp':
+      return '连接失败';
+    default:
+      return '未连接';
+  }
+}
+
+interface AppProps {
+  configIssues?: RuntimeConfigIssue[]; // 启动时运行时配置的校验问题
+}
+
+function App({ configIssues = [] }: AppProps) {
+  const runtimeConfig = getRuntimeConfig();
+
   // State management
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
   const [currentData, setCurrentData] = useState<Float32Array[]>([]);
-  const [config, setConfig] = useState<MockConfig>(CARD_CONFIGS['PXIe-69846H']);
+  const [currentMetadata, setCurrentMetadata] = useState<ChunkMetadata | null>(null);
+  const [showGaps, setShowGaps] = useState(true);
+  const [timeMode, setTimeMode] = useState<TimeAxisMode>('relative');
+  const [decimation, setDecimation] = useState<DecimationMode>('minmax');
+  const [cardModel, setCardModel] = useState<string>(runtimeConfig.defaultCard);
+  const [config, setConfig] = useState<MockConfig>(
+    () => (cardProfileRegistry.get(runtimeConfig.defaultCard) ?? BUILTIN_CARD_PROFILES[0]).defaults
+  );
   const [dataRate, setDataRate] = useState(0);
+  const [serverDataRates, setServerDataRates] = useState<Record<string, number>>({}); // 按设备
+  const [deviceChunks, setDeviceChunks] = useState<Record<string, { data: Float32Array[]; metadata: ChunkMetadata }>>({});
   const [frameRate, setFrameRate] = useState(0);
-  const [useRealData, setUseRealData] = useState(false); // 数据源切换
+  const [dataSourceKind, setDataSourceKind] = useState<string>(runtimeConfig.defaultDataSource); // 数据源切换
   const [connectionStatus, setConnectionStatus] = useState<string>('未连接');
+  const [connectionState, setConnectionState] = useState<StreamConnectionState>('idle');
+  const [hubStatus, setHubStatus] = useState<string | undefined>(undefined);
+  const [hubState, setHubState] = useState<StreamConnectionState>('idle');
+  const [showSettings, setShowSettings] = useState(false);
+  const [showConfigIssues, setShowConfigIssues] = useState(configIssues.length > 0);
   
+  const { devices, selectedIds } = useDeviceRegistry(deviceRegistry);
+  const cardProfiles = useCardProfiles(cardProfileRegistry);
+  // 与控制面板一致：所选型号被删除时回到第一个型号
+  const cardProfile = cardProfiles.find(profile => profile.model === cardModel) ?? cardProfiles[0];
+
+  // 型号的能力变化（删除自定义档案、加载服务端档案）后把配置限制回范围内
+  useEffect(() => {
+    setConfig(previous => constrainConfig(previous, cardProfile.capabilities));
+  }, [cardProfile]);
+
+  // 当前数据源；切换类型或设备选择时创建新的实例，旧实例在 effect 清理时释放
+  const dataSource = useMemo(
+    () => createDataSource(dataSourceKind, { deviceIds: selectedIds }),
+    [dataSourceKind, selectedIds]
+  );
+  // 多设备时仪表盘按设备名区分服务端指标
+  const deviceNames = useMemo(() => {
+    const names: { [deviceId: string]: string } = {};
+    if (selectedIds.length > 1) {
+      devices.forEach(device => { names[device.id] = device.name; });
+    }
+    return names;
+  }, [devices, selectedIds]);
+  const acquisition = useAcquisitionState(dataSource.acquisition);
+  const isStreaming = isAcquisitionActive(acquisition.state);
+  const isPaused = acquisition.state === 'paused';
+
   // Refs for performance tracking
-  const streamerRef = useRef<HighPerformanceStreamer | null>(null);
   const frameCountRef = useRef(0);
   const lastFrameTimeRef = useRef(performance.now());
   const fpsIntervalRef = useRef<number | null>(null);
@@ -52,13 +148,53 @@ function App() {
     };
   }, []);
 
+  // 数据源连接状态（断线重连）和服务端性能指标；采集状态由 useAcquisitionState 订阅
+  useEffect(() => {
+    const unsubscribe = dataSource.onEvent((event) => {
+      switch (event.type) {
+        case 'connection':
+          setConnectionState(event.connection.state);
+          setConnectionStatus(devicePrefix(event.deviceId) + describeConnectionEvent(event.connection, dataSource));
+          break;
+        case 'hubConnection':
+          setHubState(event.connection.state);
+          setHubStatus(devicePrefix(event.deviceId) + describeHubConnectionEvent(event.connection));
+          break;
+        case 'serverMetrics':
+          setServerDataRates(prev => ({ ...prev, [event.deviceId ?? '']: event.metrics.global.dataRate.rateMBps }));
+          break;
+        case 'error':
+          console.error(`数据源 ${dataSource.label} ${devicePrefix(event.deviceId)}出错:`, event.error);
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      dataSource.dispose().catch(error => console.error('释放数据源失败:', error));
+      setCurrentData([]);
+      setCurrentMetadata(null);
+      setDeviceChunks({});
+      setDataRate(0);
+      setServerDataRates({});
+      setConnectionState('idle');
+      setConnectionStatus('未连接');
+      setHubState('idle');
+      setHubStatus(undefined);
+    };
+  }, [dataSource]);
+
   // 优化的数据回调 - 减少状态更新频率
-  const handleDataUpdate = useCallback((data: Float32Array[], metadata: any) => {
+  const handleDataUpdate = useCallback((data: Float32Array[], metadata: ChunkMetadata) => {
     setCurrentData(data);
+    setCurrentMetadata(metadata);
+    const deviceId = metadata.deviceId;
+    if (deviceId) {
+      setDeviceChunks(prev => ({ ...prev, [deviceId]: { data, metadata } }));
+    }
     
-    // 使用增强的元数据中的实际数据率
-    const actualRate = metadata.actualDataRate || (metadata.bytesPerSecond / (1024 * 1024));
-    setDataRate(actualRate);
+    // 使用滑动窗口实测的数据率
+    setDataRate(metadata.actualDataRate);
     
     frameCountRef.current++;
   }, []);
@@ -66,93 +202,95 @@ function App() {
   // Control handlers
   const handleStart = useCallback(async () => {
     try {
-      if (useRealData) {
-        // 使用真实数据服务
-        setConnectionStatus('连接中...');
-        const realConfig = mockConfigToRealConfig(config);
-        await realDataService.start(realConfig, handleDataUpdate);
-        setConnectionStatus('已连接');
-      } else {
-        // 使用模拟数据
-        if (!streamerRef.current) {
-          streamerRef.current = new HighPerformanceStreamer(config, 640);
-        }
-        streamerRef.current.start(handleDataUpdate);
-        setConnectionStatus('模拟模式');
-      }
-      
-      setIsStreaming(true);
-      setIsPaused(false);
+      // 采集状态和连接状态由数据源更新
+      await dataSource.start(config, handleDataUpdate);
     } catch (error) {
       console.error('启动失败:', error);
+      setConnectionState('idle');
       setConnectionStatus('连接失败');
     }
-  }, [config, handleDataUpdate, useRealData]);
+  }, [config, dataSource, handleDataUpdate]);
 
   const handleStop = useCallback(async () => {
     try {
-      if (useRealData) {
-        await realDataService.stop();
-      } else {
-        if (streamerRef.current) {
-          streamerRef.current.stop();
-        }
-      }
+      await dataSource.stop();
       
-      setIsStreaming(false);
-      setIsPaused(false);
       setCurrentData([]);
+      setCurrentMetadata(null);
+      setDeviceChunks({});
       setDataRate(0);
       frameCountRef.current = 0;
-      setConnectionStatus('未连接');
     } catch (error) {
       console.error('停止失败:', error);
     }
-  }, [useRealData]);
+  }, [dataSource]);
 
   const handlePause = useCallback(async () => {
     try {
-      if (useRealData) {
-        await realDataService.pause();
-      } else {
-        if (streamerRef.current) {
-          streamerRef.current.stop();
-        }
-      }
-      setIsPaused(true);
+      await dataSource.pause();
     } catch (error) {
       console.error('暂停失败:', error);
     }
-  }, [useRealData]);
+  }, [dataSource]);
 
   const handleResume = useCallback(async () => {
     try {
-      if (useRealData) {
-        await realDataService.resume();
-      } else {
-        if (streamerRef.current) {
-          streamerRef.current.start(handleDataUpdate);
-        }
-      }
-      setIsPaused(false);
+      await dataSource.resume();
     } catch (error) {
       console.error('恢复失败:', error);
     }
-  }, [handleDataUpdate, useRealData]);
+  }, [dataSource]);
 
   const handleConfigChange = useCallback((newConfig: Partial<MockConfig>) => {
     const updatedConfig = { ...config, ...newConfig };
     setConfig(updatedConfig);
     
-    // Update streamer config if running
-    if (streamerRef.current) {
-      streamerRef.current.updateConfig(updatedConfig);
-    }
-  }, [config]);
+    // 波形/幅值/频率在采集中在线生效，其余参数由数据源重启数据流
+    dataSource.updateConfig(newConfig)
+      .then(result => {
+        if (result.mode === 'restart' && result.message) {
+          console.warn('配置无法在线生效，已重启数据流:', result.message);
+        }
+      })
+      .catch(error => {
+        console.error('更新配置失败:', error);
+      });
+  }, [config, dataSource]);
+
+  const handleDeviceAdd = useCallback((name: string, baseUrl: string) => {
+    // 地址无效或重复时抛出异常，由设备面板显示
+    deviceRegistry.add({ name, baseUrl });
+  }, []);
+
+  const handleDeviceRemove = useCallback((id: string) => {
+    deviceRegistry.remove(id).catch(error => console.error('移除设备失败:', error));
+  }, []);
+
+  const handleDeviceSelect = useCallback((id: string, selected: boolean) => {
+    deviceRegistry.select(id, selected);
+  }, []);
+
+  // 各设备服务端上报的数据率之和
+  const serverDataRate = useMemo(() => {
+    const rates = Object.values(serverDataRates);
+    return rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) : undefined;
+  }, [serverDataRates]);
+
+  // 多台设备时每台设备一组曲线
+  const waveformStreams = useMemo((): WaveformStream[] | undefined => {
+    if (!dataSource.remote || selectedIds.length < 2) return undefined;
+    return selectedIds.map(id => ({
+      deviceId: id,
+      label: devices.find(device => device.id === id)?.name ?? id,
+      data: deviceChunks[id]?.data ?? [],
+      metadata: deviceChunks[id]?.metadata ?? null
+    }));
+  }, [dataSource, selectedIds, devices, deviceChunks]);
 
   const handleCardSelect = useCallback((cardType: string) => {
-    const cardConfig = CARD_CONFIGS[cardType];
+    const cardConfig = cardProfileRegistry.get(cardType)?.defaults;
     if (cardConfig) {
+      setCardModel(cardType);
       setConfig(cardConfig);
       
       // Restart streaming if currently active
@@ -166,15 +304,21 @@ function App() {
     }
   }, [isStreaming, isPaused, handleStop]);
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (streamerRef.current) {
-        streamerRef.current.stop();
-      }
-    };
+  const handleCardProfileSave = useCallback((profile: Omit<CardProfile, 'source'>) => {
+    // 档案无效时抛出异常，由档案面板显示
+    cardProfileRegistry.save(profile);
+  }, []);
+
+  const handleCardProfileRemove = useCallback((model: string) => {
+    cardProfileRegistry.remove(model);
   }, []);
 
+  // 从第一台选中的设备加载型号，没有设备时使用默认服务地址
+  const handleCardProfilesLoad = useCallback(() => {
+    const baseUrl = devices.find(device => device.id === selectedIds[0])?.baseUrl ?? runtimeConfig.serviceUrl;
+    return cardProfileRegistry.loadFromService(baseUrl);
+  }, [devices, selectedIds, runtimeConfig.serviceUrl]);
+
   return (
     <div className="App" style={{ 
       padding: '20px', 
@@ -182,11 +326,20 @@ function App() {
       minHeight: '100vh'
     }}>
       <header style={{ 
+        position: 'relative',
         textAlign: 'center', 
         marginBottom: '30px',
         borderBottom: '2px solid #e9ecef',
         paddingBottom: '20px'
       }}>
+        <button
+          onClick={() => setShowSettings(true)}
+          disabled={isStreaming}
+          title="运行时设置"
+          style={{ position: 'absolute', top: 0, right: 0, padding: '6px 12px' }}
+        >
+          ⚙️ Settings
+        </button>
         <h1 style={{ 
           color: '#333', 
           margin: '0 0 10px 0',
@@ -203,10 +356,33 @@ function App() {
         </p>
       </header>
 
+      {showConfigIssues && (
+        <div role="alert" style={{
+          marginBottom: '20px',
+          padding: '12px 16px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c2c7',
+          borderRadius: '5px',
+          color: '#842029',
+          textAlign: 'left'
+        }}>
+          <strong>运行时配置有误，以下字段已使用默认值或上一层的值：</strong>
+          <ul style={{ margin: '8px 0' }}>
+            {configIssues.map((issue, index) => (
+              <li key={index}>{formatRuntimeConfigIssue(issue)}</li>
+            ))}
+          </ul>
+          <button onClick={() => setShowConfigIssues(false)}>知道了</button>
+        </div>
+      )}
+      {showSettings && <SettingsDialog onClose={() => setShowSettings(false)} />}
+
       <main>
         <ControlPanel
-          isStreaming={isStreaming}
+          acquisitionState={acquisition.state}
+          acquisitionError={acquisition.error}
           currentConfig={config}
+          defaultCard={runtimeConfig.defaultCard}
           onStart={handleStart}
           onStop={handleStop}
           onPause={handlePause}
@@ -215,17 +391,54 @@ function App() {
           onCardSelect={handleCardSelect}
           dataRate={dataRate}
           frameRate={frameRate}
-          useRealData={useRealData}
+          useRealData={dataSource.remote}
           connectionStatus={connectionStatus}
-          onDataSourceChange={setUseRealData}
+          connectionState={dataSource.remote ? connectionState : undefined}
+          hubStatus={hubStatus}
+          hubState={hubState}
+          dataSourceKind={dataSourceKind}
+          onDataSourceChange={setDataSourceKind}
+          sequenceStats={currentMetadata?.sequence?.stats}
+          faultStats={currentMetadata?.faults?.stats}
+          throughput={currentMetadata?.throughput}
+          serverDataRate={dataSource.remote ? serverDataRate : undefined}
+          showGaps={showGaps}
+          onShowGapsChange={setShowGaps}
+          timeMode={timeMode}
+          onTimeModeChange={setTimeMode}
+          decimation={decimation}
+          onDecimationChange={setDecimation}
+          devices={devices}
+          selectedDeviceIds={selectedIds}
+          onDeviceAdd={handleDeviceAdd}
+          onDeviceRemove={handleDeviceRemove}
+          onDeviceSelect={handleDeviceSelect}
+          cardProfiles={cardProfiles}
+          onCardProfileSave={handleCardProfileSave}
+          onCardProfileRemove={handleCardProfileRemove}
+          onCardProfilesLoad={handleCardProfilesLoad}
         />
 
+        {dataSource.remote && (
+          <PerformanceDashboard
+            dataSource={dataSource}
+            frameRate={frameRate}
+            dataRate={dataRate}
+            deviceNames={deviceNames}
+          />
+        )}
+
         <WaveformChart
           data={currentData}
           sampleRate={config.sampleRate}
           channels={config.channels}
           isStreaming={isStreaming && !isPaused}
           maxPoints={1000000} // 1M points as per spec
+          metadata={currentMetadata}
+          showGaps={showGaps}
+          timeMode={timeMode}
+          streams={waveformStreams}
+          decimation={decimation}
         />
       </main>
 
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { MockConfig } from '../utils/mockDataGenerator';
+import { CardProfile, INPUT_COUPLINGS, InputCoupling } from '../utils/cardProfiles';
+import { CardProfileLoadResult } from '../services/cardProfileRegistry';
+
+interface CardProfilePanelProps {
+  profiles: CardProfile[];
+  selected: CardProfile; // 当前型号，作为新档案的模板
+  currentConfig: MockConfig; // 保存为新档案的默认配置
+  disabled?: boolean; // 采集中不能修改档案
+  onSave: (profile: Omit<CardProfile, 'source'>) => void; // 档案无效时抛出异常
+  onRemove: (model: string) => void;
+  onLoadFromService?: () => Promise<CardProfileLoadResult>;
+}
+
+interface ProfileForm {
+  model: string;
+  maxChannels: string;
+  sampleRates: string; // 逗号分隔 (S/s)
+  inputRanges: string; // 逗号分隔 (±V)
+  couplings: InputCoupling[];
+  bitDepth: string;
+  bandwidthHz: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px 6px',
+  borderRadius: '4px',
+  border: '1px solid #ddd',
+  boxSizing: 'border-box'
+};
+
+function toForm(profile: CardProfile): ProfileForm {
+  const { capabilities } = profile;
+  return {
+    model: profile.source === 'user' ? profile.model : `${profile.model}-custom`,
+    maxChannels: String(capabilities.maxChannels),
+    sampleRates: capabilities.sampleRates.join(', '),
+    inputRanges: capabilities.inputRanges.join(', '),
+    couplings: capabilities.couplings,
+    bitDepth: String(capabilities.bitDepth),
+    bandwidthHz: String(capabilities.bandwidthHz)
+  };
+}
+
+// 数字列表；无法解析的项保留为 NaN，由档案校验报告
+function parseList(value: string): number[] {
+  return value.split(',').map(item => item.trim()).filter(item => item !== '').map(Number);
+}
+
+/**
+ * 自定义板卡档案：以当前型号为模板填写能力，当前配置作为默认配置保存到本机；
+ * 也可以从 DAQ 服务加载服务端登记的型号
+ */
+const CardProfilePanel: React.FC<CardProfilePanelProps> = ({
+  profiles,
+  selected,
+  currentConfig,
+  disabled = false,
+  onSave,
+  onRemove,
+  onLoadFromService
+}) => {
+  const [form, setForm] = useState<ProfileForm>(() => toForm(selected));
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const userProfiles = profiles.filter(profile => profile.source === 'user');
+
+  // 切换型号时以新型号为模板
+  useEffect(() => {
+    setForm(toForm(selected));
+  }, [selected]);
+
+  const setField = <K extends keyof ProfileForm>(key: K, value: ProfileForm[K]) => {
+    setForm(previous => ({ ...previous, [key]: value }));
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      onSave({
+        model: form.model,
+        capabilities: {
+          maxChannels: Number(form.maxChannels),
+          sampleRates: parseList(form.sampleRates),
+          inputRanges: parseList(form.inputRanges),
+          couplings: form.couplings,
+          bitDepth: Number(form.bitDepth) as CardProfile['capabilities']['bitDepth'],
+          bandwidthHz: Number(form.bandwidthHz)
+        },
+        defaults: currentConfig
+      });
+      setMessage({ text: `已保存 ${form.model.trim()}`, error: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), error: true });
+    }
+  };
+
+  const handleLoad = () => {
+    if (!onLoadFromService) return;
+    setLoading(true);
+    onLoadFromService()
+      .then(({ profiles: loaded, issues }) => {
+        const text = `已从服务加载 ${loaded.length} 个型号${issues.length > 0 ? `，忽略: ${issues.join('; ')}` : ''}`;
+        setMessage({ text, error: issues.length > 0 });
+      })
+      .catch(error => setMessage({ text: error instanceof Error ? error.message : String(error), error: true }))
+      .finally(() => setLoading(false));
+  };
+
+  return (
+    <details style={{ marginTop: '15px', padding: '10px', textAlign: 'left', border: '1px solid #ddd', borderRadius: '5px' }}>
+      <summary style={{ fontWeight: 'bold', cursor: 'pointer' }}>
+        Card profiles ({userProfiles.length} custom)
+      </summary>
+
+      {userProfiles.map(profile => (
+        <div key={profile.model} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px' }}>
+          <span style={{ minWidth: '120px' }}>{profile.model}</span>
+          <span style={{ color: '#666', fontSize: '12px' }}>
+            {profile.capabilities.maxChannels} ch, {profile.capabilities.bitDepth}-bit
+          </span>
+          <button
+            onClick={() => onRemove(profile.model)}
+            disabled={disabled}
+            style={{
+              marginLeft: 'auto',
+              padding: '2px 8px',
+              border: '1px solid #dc3545',
+              borderRadius: '4px',
+              backgroundColor: 'white',
+              color: '#dc3545',
+              cursor: disabled ? 'not-allowed' : 'pointer'
+            }}
+          >
+            删除
+          </button>
+        </div>
+      ))}
+
+      <form
+        onSubmit={handleSave}
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+          gap: '8px 12px',
+          marginTop: '10px',
+          fontSize: '13px'
+        }}
+      >
+        <label>
+          Model
+          <input style={inputStyle} value={form.model} onChange={(e) => setField('model', e.target.value)} disabled={disabled} />
+        </label>
+        <label>
+          Max channels
+          <input
+            style={inputStyle}
+            type="number"
+            min="1"
+            value={form.maxChannels}
+            onChange={(e) => setField('maxChannels', e.target.value)}
+            disabled={disabled}
+          />
+        </label>
+        <label>
+          Sample rates (S/s, comma separated)
+          <input style={inputStyle} value={form.sampleRates} onChange={(e) => setField('sampleRates', e.target.value)} disabled={disabled} />
+        </label>
+        <label>
+          Input ranges (±V, comma separated)
+          <input style={inputStyle} value={form.inputRanges} onChange={(e) => setField('inputRanges', e.target.value)} disabled={disabled} />
+        </label>
+        <label>
+          Bit depth
+          <select style={inputStyle} value={form.bitDepth} onChange={(e) => setField('bitDepth', e.target.value)} disabled={disabled}>
+            {['8', '16', '24', '32'].map(bits => <option key={bits} value={bits}>{bits}-bit</option>)}
+          </select>
+        </label>
+        <label>
+          Bandwidth (Hz)
+          <input
+            style={inputStyle}
+            type="number"
+            min="1"
+            value={form.bandwidthHz}
+            onChange={(e) => setField('bandwidthHz', e.target.value)}
+            disabled={disabled}
+          />
+        </label>
+        <div>
+          Coupling
+          <div style={{ display: 'flex', gap: '12px', marginTop: '4px' }}>
+            {INPUT_COUPLINGS.map(coupling => (
+              <label key={coupling} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                <input
+                  type="checkbox"
+                  checked={form.couplings.includes(coupling)}
+                  onChange={(e) => setField(
+                    'couplings',
+                    INPUT_COUPLINGS.filter(item => item === coupling ? e.target.checked : form.couplings.includes(item))
+                  )}
+                  disabled={disabled}
+                />
+                {coupling}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'flex-end', gap: '8px' }}>
+          <button
+            type="submit"
+            disabled={disabled || form.model.trim() === ''}
+            title="当前配置作为该型号的默认配置"
+            style={{
+              padding: '4px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#2196f3',
+              color: 'white',
+              cursor: disabled ? 'not-allowed' : 'pointer'
+            }}
+          >
+            保存为自定义型号
+          </button>
+          {onLoadFromService && (
+            <button
+              type="button"
+              onClick={handleLoad}
+              disabled={disabled || loading}
+              style={{
+                padding: '4px 12px',
+                border: '1px solid #2196f3',
+                borderRadius: '4px',
+                backgroundColor: 'white',
+                color: '#2196f3',
+                cursor: disabled || loading ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {loading ? '加载中…' : '从服务加载'}
+            </button>
+          )}
+        </div>
+      </form>
+      {message && (
+        <div style={{ color: message.error ? '#dc3545' : '#28a745', fontSize: '12px', marginTop: '6px' }}>{message.text}</div>
+      )}
+    </details>
+  );
+};
+
+export default CardProfilePanel;
@@ -1,9 +1,33 @@
 import React, { useState } from 'react';
-import { CARD_CONFIGS, MockConfig } from '../utils/mockDataGenerator';
+import { MockConfig } from '../utils/mockDataGenerator';
+import { StreamConnectionState } from '../services/reconnectPolicy';
+import { SequenceStats } from '../utils/sequenceTracker';
+import { TimeAxisMode } from '../utils/deviceTimeline';
+import { ThroughputSnapshot } from '../utils/throughputMeter';
+import { AcquisitionState, canTransition } from '../services/acquisitionState';
+import { DeviceDescriptor } from '../services/deviceRegistry';
+import DevicePanel from './DevicePanel';
+import SignalPanel from './SignalPanel';
+import FaultPanel from './FaultPanel';
+import CardProfilePanel from './CardProfilePanel';
+import { WAVEFORMS } from '../utils/signalLibrary';
+import { FaultStats } from '../utils/faultInjection';
+import {
+  BUILTIN_CARD_PROFILES,
+  CardProfile,
+  formatFrequency,
+  formatSampleRate,
+  InputCoupling,
+  maxSignalFrequency
+} from '../utils/cardProfiles';
+import { CardProfileLoadResult } from '../services/cardProfileRegistry';
+import { DECIMATION_MODES, DecimationMode } from '../utils/decimation';
 
 interface ControlPanelProps {
-  isStreaming: boolean;
+  acquisitionState: AcquisitionState; // 采集状态机的当前状态
+  acquisitionError?: Error; // error 状态下的原因
   currentConfig: MockConfig;
+  defaultCard?: string; // 板卡选择框的初始值
   onStart: () => void;
   onStop: () => void;
   onPause: () => void;
@@ -14,12 +38,46 @@ interface ControlPanelProps {
   frameRate: number; // Current UI frame rate
   useRealData?: boolean; // 数据源选择
   connectionStatus?: string; // 连接状态
-  onDataSourceChange?: (useReal: boolean) => void; // 数据源切换回调
+  connectionState?: StreamConnectionState; // 真实数据流的连接状态，用于状态标签颜色
+  hubStatus?: string; // SignalR 控制通道的连接状态（真实数据模式）
+  hubState?: StreamConnectionState;
+  dataSourceKind?: string; // 当前数据源，见 DATA_SOURCE_FACTORIES
+  onDataSourceChange?: (kind: string) => void; // 数据源切换回调
+  sequenceStats?: SequenceStats; // 丢块/重复/乱序计数
+  faultStats?: FaultStats; // 模拟数据源已注入的故障计数
+  showGaps?: boolean; // 波形中是否标出丢块断点
+  onShowGapsChange?: (showGaps: boolean) => void;
+  throughput?: ThroughputSnapshot; // 实测吞吐量（滑动窗口）
+  serverDataRate?: number; // 服务端 PerformanceMetrics.global.dataRate.rateMBps，用于对照
+  timeMode?: TimeAxisMode; // X 轴时间基准
+  onTimeModeChange?: (mode: TimeAxisMode) => void;
+  decimation?: DecimationMode; // 波形降采样算法
+  onDecimationChange?: (mode: DecimationMode) => void;
+  devices?: DeviceDescriptor[]; // 已登记的设备（真实数据模式）
+  selectedDeviceIds?: string[]; // 参与采集的设备
+  onDeviceAdd?: (name: string, baseUrl: string) => void;
+  onDeviceRemove?: (id: string) => void;
+  onDeviceSelect?: (id: string, selected: boolean) => void;
+  cardProfiles?: CardProfile[]; // 可选型号，控件范围按所选型号的能力限制
+  onCardProfileSave?: (profile: Omit<CardProfile, 'source'>) => void;
+  onCardProfileRemove?: (model: string) => void;
+  onCardProfilesLoad?: () => Promise<CardProfileLoadResult>; // 从 DAQ 服务加载型号
 }
 
+const CARD_SOURCE_LABELS: Record<CardProfile['source'], string> = {
+  builtin: '',
+  service: ' (service)',
+  user: ' (custom)'
+};
+
+// 频率滑块的上限，同时受板卡带宽和奈奎斯特频率限制
+const MAX_FREQUENCY_SLIDER = 10000;
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
-  isStreaming,
+  acquisitionState,
+  acquisitionError,
   currentConfig,
+  defaultCard = 'PXIe-69846H',
   onStart,
   onStop,
   onPause,
@@ -30,30 +88,47 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   frameRate,
   useRealData = false,
   connectionStatus = '未连接',
-  onDataSourceChange
+  connectionState,
+  hubStatus,
+  hubState,
+  dataSourceKind = useRealData ? 'real' : 'mock',
+  onDataSourceChange,
+  sequenceStats,
+  faultStats,
+  throughput,
+  serverDataRate,
+  showGaps = true,
+  onShowGapsChange,
+  timeMode = 'relative',
+  onTimeModeChange,
+  decimation = 'minmax',
+  onDecimationChange,
+  devices = [],
+  selectedDeviceIds = [],
+  onDeviceAdd,
+  onDeviceRemove,
+  onDeviceSelect,
+  cardProfiles = BUILTIN_CARD_PROFILES,
+  onCardProfileSave,
+  onCardProfileRemove,
+  onCardProfilesLoad
 }) => {
-  const [selectedCard, setSelectedCard] = useState<string>('PXIe-69846H');
-  const [isPaused, setIsPaused] = useState(false);
-
-  const handleStart = () => {
-    setIsPaused(false);
-    onStart();
-  };
+  const [selectedCard, setSelectedCard] = useState<string>(defaultCard);
+  // 所选型号被删除时回到第一个型号
+  const cardProfile = cardProfiles.find(profile => profile.model === selectedCard) ?? cardProfiles[0];
+  const { capabilities } = cardProfile;
+  const sampleRateIndex = Math.max(capabilities.sampleRates.indexOf(currentConfig.sampleRate), 0);
+  const maxFrequency = Math.max(1, Math.min(MAX_FREQUENCY_SLIDER, Math.floor(maxSignalFrequency(capabilities, currentConfig.sampleRate))));
 
-  const handleStop = () => {
-    setIsPaused(false);
-    onStop();
-  };
-
-  const handlePause = () => {
-    setIsPaused(true);
-    onPause();
-  };
-
-  const handleResume = () => {
-    setIsPaused(false);
-    onResume();
-  };
+  // 按钮是否可用完全由状态机的允许转换决定
+  const canStart = canTransition(acquisitionState, 'connecting');
+  const isStreaming = !canStart; // 连接、采集、停止过程中锁定配置和数据源选择
+  const isPaused = acquisitionState === 'paused';
+  // 波形、幅值、频率可以在采集中在线修改，只在连接/停止过程中锁定
+  const liveLocked = acquisitionState === 'connecting' || acquisitionState === 'stopping';
+  const canPause = canTransition(acquisitionState, 'paused');
+  const canResume = isPaused && canTransition(acquisitionState, 'streaming');
+  const canStop = canTransition(acquisitionState, 'stopping');
 
   const handleCardChange = (cardType: string) => {
     setSelectedCard(cardType);
@@ -61,15 +136,55 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   };
 
   const getStatusColor = () => {
-    if (!isStreaming) return '#6c757d'; // Gray
-    if (isPaused) return '#ffc107'; // Yellow
-    return '#28a745'; // Green
+    switch (acquisitionState) {
+      case 'streaming':
+        return '#28a745'; // Green
+      case 'paused':
+        return '#ffc107'; // Yellow
+      case 'connecting':
+      case 'armed':
+      case 'stopping':
+        return '#17a2b8'; // Teal
+      case 'error':
+        return '#dc3545'; // Red
+      default:
+        return '#6c757d'; // Gray
+    }
+  };
+
+  const getConnectionColor = (state: StreamConnectionState | undefined) => {
+    if (!useRealData) return '#ff9800'; // Orange
+    switch (state) {
+      case 'connected':
+      case 'resumed':
+        return '#4caf50'; // Green
+      case 'connecting':
+      case 'reconnecting':
+        return '#ffc107'; // Yellow
+      case 'gaveUp':
+        return '#dc3545'; // Red
+      default:
+        return '#6c757d'; // Gray
+    }
   };
 
   const getStatusText = () => {
-    if (!isStreaming) return 'STOPPED';
-    if (isPaused) return 'PAUSED';
-    return 'STREAMING';
+    switch (acquisitionState) {
+      case 'connecting':
+        return 'CONNECTING';
+      case 'armed':
+        return 'ARMED';
+      case 'streaming':
+        return 'STREAMING';
+      case 'paused':
+        return 'PAUSED';
+      case 'stopping':
+        return 'STOPPING';
+      case 'error':
+        return 'ERROR';
+      default:
+        return 'STOPPED';
+    }
   };
 
   return (
@@ -93,7 +208,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           alignItems: 'center',
           gap: '15px'
         }}>
-          <div style={{
+          <div title={acquisitionError?.message} style={{
             padding: '8px 16px',
             backgroundColor: getStatusColor(),
             color: 'white',
@@ -116,15 +231,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         marginBottom: '20px'
       }}>
         <button
-          onClick={handleStart}
-          disabled={isStreaming && !isPaused}
+          onClick={onStart}
+          disabled={!canStart}
           style={{
             padding: '10px 20px',
-            backgroundColor: isStreaming && !isPaused ? '#6c757d' : '#28a745',
+            backgroundColor: !canStart ? '#6c757d' : '#28a745',
             color: 'white',
             border: 'none',
             borderRadius: '5px',
-            cursor: isStreaming && !isPaused ? 'not-allowed' : 'pointer',
+            cursor: !canStart ? 'not-allowed' : 'pointer',
             fontWeight: 'bold'
           }}
         >
@@ -132,15 +247,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </button>
         
         <button
-          onClick={isPaused ? handleResume : handlePause}
-          disabled={!isStreaming}
+          onClick={isPaused ? onResume : onPause}
+          disabled={isPaused ? !canResume : !canPause}
           style={{
             padding: '10px 20px',
-            backgroundColor: !isStreaming ? '#6c757d' : '#ffc107',
+            backgroundColor: (isPaused ? canResume : canPause) ? '#ffc107' : '#6c757d',
             color: 'white',
             border: 'none',
             borderRadius: '5px',
-            cursor: !isStreaming ? 'not-allowed' : 'pointer',
+            cursor: (isPaused ? canResume : canPause) ? 'pointer' : 'not-allowed',
             fontWeight: 'bold'
           }}
         >
@@ -148,15 +263,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </button>
         
         <button
-          onClick={handleStop}
-          disabled={!isStreaming}
+          onClick={onStop}
+          disabled={!canStop}
           style={{
             padding: '10px 20px',
-            backgroundColor: !isStreaming ? '#6c757d' : '#dc3545',
+            backgroundColor: !canStop ? '#6c757d' : '#dc3545',
             color: 'white',
             border: 'none',
             borderRadius: '5px',
-            cursor: !isStreaming ? 'not-allowed' : 'pointer',
+            cursor: !canStop ? 'not-allowed' : 'pointer',
             fontWeight: 'bold'
           }}
         >
@@ -178,26 +293,55 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <input
               type="radio"
               name="dataSource"
-              checked={!useRealData}
-              onChange={() => onDataSourceChange?.(false)}
+              checked={dataSourceKind === 'mock'}
+              onChange={() => onDataSourceChange?.('mock')}
               disabled={isStreaming}
             />
             <span>模拟数据 (Mock Data)</span>
           </label>
+          <label
+            style={{ display: 'flex', alignItems: 'center', gap: '8px' }}
+            title="模拟数据编码为 DataChunk 后经真实数据的解码路径处理"
+          >
+            <input
+              type="radio"
+              name="dataSource"
+              checked={dataSourceKind === 'loopback'}
+              onChange={() => onDataSourceChange?.('loopback')}
+              disabled={isStreaming}
+            />
+            <span>回环 (Loopback)</span>
+          </label>
           <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
             <input
               type="radio"
               name="dataSource"
-              checked={useRealData}
-              onChange={() => onDataSourceChange?.(true)}
+              checked={dataSourceKind === 'real'}
+              onChange={() => onDataSourceChange?.('real')}
               disabled={isStreaming}
             />
             <span>真实数据 (Real Data)</span>
           </label>
+          {useRealData && hubStatus && (
+            <div
+              title="SignalR 控制通道"
+              style={{
+                marginLeft: 'auto',
+                padding: '4px 12px',
+                backgroundColor: getConnectionColor(hubState),
+                color: 'white',
+                borderRadius: '12px',
+                fontSize: '12px',
+                fontWeight: 'bold'
+              }}
+            >
+              SignalR: {hubStatus}
+            </div>
+          )}
           <div style={{
-            marginLeft: 'auto',
+            marginLeft: useRealData && hubStatus ? undefined : 'auto',
             padding: '4px 12px',
-            backgroundColor: useRealData ? '#4caf50' : '#ff9800',
+            backgroundColor: getConnectionColor(connectionState),
             color: 'white',
             borderRadius: '12px',
             fontSize: '12px',
@@ -206,6 +350,16 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             {connectionStatus}
           </div>
         </div>
+        {useRealData && onDeviceAdd && onDeviceRemove && onDeviceSelect && (
+          <DevicePanel
+            devices={devices}
+            selectedIds={selectedDeviceIds}
+            disabled={isStreaming}
+            onAdd={onDeviceAdd}
+            onRemove={onDeviceRemove}
+            onSelect={onDeviceSelect}
+          />
+        )}
       </div>
 
       {/* Configuration Panel */}
@@ -220,7 +374,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             Card Type:
           </label>
           <select
-            value={selectedCard}
+            value={cardProfile.model}
             onChange={(e) => handleCardChange(e.target.value)}
             disabled={isStreaming}
             style={{
@@ -231,12 +385,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               backgroundColor: isStreaming ? '#f5f5f5' : 'white'
             }}
           >
-            {Object.keys(CARD_CONFIGS).map(cardType => (
-              <option key={cardType} value={cardType}>
-                {cardType}
+            {cardProfiles.map(profile => (
+              <option key={profile.model} value={profile.model}>
+                {profile.model}{CARD_SOURCE_LABELS[profile.source]}
               </option>
             ))}
           </select>
+          <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }} title={cardProfile.description}>
+            {capabilities.maxChannels} ch, {capabilities.bitDepth}-bit, {formatSampleRate(capabilities.sampleRates[capabilities.sampleRates.length - 1])}, {formatFrequency(capabilities.bandwidthHz)} BW
+          </div>
         </div>
 
         {/* Channels */}
@@ -247,7 +404,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <input
             type="range"
             min="1"
-            max="32"
+            max={capabilities.maxChannels}
             value={currentConfig.channels}
             onChange={(e) => onConfigChange({ channels: parseInt(e.target.value) })}
             disabled={isStreaming}
@@ -258,20 +415,67 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         {/* Sample Rate */}
         <div>
           <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
-            Sample Rate: {(currentConfig.sampleRate / 1_000_000).toFixed(1)} MS/s
+            Sample Rate: {formatSampleRate(currentConfig.sampleRate)}
           </label>
+          {/* 滑块在板卡支持的采样率档位之间移动 */}
           <input
             type="range"
-            min="100000"
-            max="50000000"
-            step="100000"
-            value={currentConfig.sampleRate}
-            onChange={(e) => onConfigChange({ sampleRate: parseInt(e.target.value) })}
+            min="0"
+            max={capabilities.sampleRates.length - 1}
+            step="1"
+            value={sampleRateIndex}
+            onChange={(e) => {
+              const sampleRate = capabilities.sampleRates[parseInt(e.target.value)];
+              // 降低采样率时信号频率不能超过新的奈奎斯特频率
+              const frequency = Math.min(currentConfig.frequency, Math.floor(maxSignalFrequency(capabilities, sampleRate)));
+              onConfigChange(frequency === currentConfig.frequency ? { sampleRate } : { sampleRate, frequency });
+            }}
             disabled={isStreaming}
             style={{ width: '100%' }}
           />
         </div>
 
+        {/* Input Range / Coupling */}
+        <div>
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Input Range / Coupling:
+          </label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <select
+              value={currentConfig.inputRange ?? capabilities.inputRanges[capabilities.inputRanges.length - 1]}
+              onChange={(e) => onConfigChange({ inputRange: parseFloat(e.target.value) })}
+              disabled={isStreaming}
+              style={{
+                flex: 1,
+                padding: '8px',
+                borderRadius: '4px',
+                border: '1px solid #ddd',
+                backgroundColor: isStreaming ? '#f5f5f5' : 'white'
+              }}
+            >
+              {capabilities.inputRanges.map(range => (
+                <option key={range} value={range}>±{range} V</option>
+              ))}
+            </select>
+            <select
+              value={currentConfig.coupling ?? capabilities.couplings[0]}
+              onChange={(e) => onConfigChange({ coupling: e.target.value as InputCoupling })}
+              disabled={isStreaming || capabilities.couplings.length < 2}
+              style={{
+                flex: 1,
+                padding: '8px',
+                borderRadius: '4px',
+                border: '1px solid #ddd',
+                backgroundColor: isStreaming ? '#f5f5f5' : 'white'
+              }}
+            >
+              {capabilities.couplings.map(coupling => (
+                <option key={coupling} value={coupling}>{coupling}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {/* Waveform Type */}
         <div>
           <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
@@ -282,20 +486,62 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             onChange={(e) => onConfigChange({ 
               waveformType: e.target.value as MockConfig['waveformType'] 
             })}
-            disabled={isStreaming}
+            disabled={liveLocked}
             style={{
               width: '100%',
               padding: '8px',
               borderRadius: '4px',
               border: '1px solid #ddd',
-              backgroundColor: isStreaming ? '#f5f5f5' : 'white'
+              backgroundColor: liveLocked ? '#f5f5f5' : 'white'
+            }}
+          >
+            {/* DAQ 服务只支持部分波形 */}
+            {WAVEFORMS.filter(waveform => !useRealData || waveform.remote).map(waveform => (
+              <option key={waveform.type} value={waveform.type}>{waveform.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Time Axis */}
+        <div>
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Time Axis:
+          </label>
+          <select
+            value={timeMode}
+            onChange={(e) => onTimeModeChange?.(e.target.value as TimeAxisMode)}
+            style={{
+              width: '100%',
+              padding: '8px',
+              borderRadius: '4px',
+              border: '1px solid #ddd',
+              backgroundColor: 'white'
+            }}
+          >
+            <option value="relative">Relative (since start)</option>
+            <option value="absolute">Absolute device time (tick_ns)</option>
+          </select>
+        </div>
+
+        {/* Decimation */}
+        <div>
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Decimation:
+          </label>
+          <select
+            value={decimation}
+            onChange={(e) => onDecimationChange?.(e.target.value as DecimationMode)}
+            style={{
+              width: '100%',
+              padding: '8px',
+              borderRadius: '4px',
+              border: '1px solid #ddd',
+              backgroundColor: 'white'
             }}
           >
-            <option value="sine">Sine Wave</option>
-            <option value="square">Square Wave</option>
-            <option value="triangle">Triangle Wave</option>
-            <option value="noise">Random Noise</option>
-            <option value="mixed">Mixed Harmonics</option>
+            {DECIMATION_MODES.map(({ mode, label }) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
           </select>
         </div>
 
@@ -307,10 +553,10 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <input
             type="range"
             min="1"
-            max="10000"
+            max={maxFrequency}
             value={currentConfig.frequency}
             onChange={(e) => onConfigChange({ frequency: parseInt(e.target.value) })}
-            disabled={isStreaming}
+            disabled={liveLocked}
             style={{ width: '100%' }}
           />
         </div>
@@ -327,12 +573,36 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             step="0.1"
             value={currentConfig.amplitude}
             onChange={(e) => onConfigChange({ amplitude: parseFloat(e.target.value) })}
-            disabled={isStreaming}
+            disabled={liveLocked}
             style={{ width: '100%' }}
           />
         </div>
       </div>
 
+      {onCardProfileSave && onCardProfileRemove && (
+        <CardProfilePanel
+          profiles={cardProfiles}
+          selected={cardProfile}
+          currentConfig={currentConfig}
+          disabled={isStreaming}
+          onSave={onCardProfileSave}
+          onRemove={onCardProfileRemove}
+          onLoadFromService={onCardProfilesLoad}
+        />
+      )}
+
+      {!useRealData && (
+        <>
+          <SignalPanel config={currentConfig} disabled={liveLocked} onConfigChange={onConfigChange} />
+          <FaultPanel
+            config={currentConfig}
+            disabled={liveLocked}
+            onConfigChange={onConfigChange}
+            stats={faultStats}
+          />
+        </>
+      )}
+
       {/* Performance Metrics */}
       <div style={{
         marginTop: '20px',
@@ -353,6 +623,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <div>
             <strong>Frame Rate:</strong> {frameRate.toFixed(0)} fps
           </div>
+          {throughput && (
+            <>
+              <div>
+                <strong>Throughput:</strong> {(throughput.samplesPerSecond / 1_000_000).toFixed(1)} MS/s, {throughput.chunksPerSecond.toFixed(0)} chunks/s
+              </div>
+              {Object.keys(throughput.windows).map(windowMs => {
+                const stats = throughput.windows[Number(windowMs)];
+                return (
+                  <div key={windowMs}>
+                    <strong>{Number(windowMs) / 1000}s min/avg/max:</strong> {stats.min.toFixed(1)} / {stats.avg.toFixed(1)} / {stats.max.toFixed(1)} MB/s
+                  </div>
+                );
+              })}
+            </>
+          )}
+          {serverDataRate !== undefined && (
+            <div>
+              <strong>Server Data Rate:</strong> {serverDataRate.toFixed(1)} MB/s
+            </div>
+          )}
           <div>
             <strong>Channels:</strong> {currentConfig.channels}
           </div>
@@ -368,6 +658,27 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           }}>
             <strong>Status:</strong> {frameRate >= 55 ? '✅ OPTIMAL' : '⚠️ SUBOPTIMAL'}
           </div>
+          <div style={{
+            color: sequenceStats && sequenceStats.lostChunks > 0 ? '#dc3545' : undefined
+          }}>
+            <strong>Lost:</strong> {sequenceStats?.lostChunks ?? 0} chunks / {(sequenceStats?.lostSamples ?? 0).toLocaleString()} samples
+          </div>
+          <div>
+            <strong>Dup / Reordered:</strong> {sequenceStats?.duplicates ?? 0} / {sequenceStats?.reordered ?? 0}
+          </div>
+          {sequenceStats && sequenceStats.restarts > 0 && (
+            <div style={{ color: '#dc3545' }} title="重新订阅后服务端从头编号，断线期间的数据已丢失">
+              <strong>Seq restarts:</strong> {sequenceStats.restarts}
+            </div>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="checkbox"
+              checked={showGaps}
+              onChange={(e) => onShowGapsChange?.(e.target.checked)}
+            />
+            Show gaps in waveform
+          </label>
         </div>
       </div>
     </div>
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { DeviceDescriptor } from '../services/deviceRegistry';
+
+interface DevicePanelProps {
+  devices: DeviceDescriptor[];
+  selectedIds: string[];
+  disabled?: boolean; // 采集中不能增删或切换设备
+  onAdd: (name: string, baseUrl: string) => void; // 地址无效或重复时抛出异常
+  onRemove: (id: string) => void;
+  onSelect: (id: string, selected: boolean) => void;
+}
+
+/**
+ * 真实数据模式下的设备列表：勾选参与采集的设备，按地址添加或移除设备
+ */
+const DevicePanel: React.FC<DevicePanelProps> = ({
+  devices,
+  selectedIds,
+  disabled = false,
+  onAdd,
+  onRemove,
+  onSelect
+}) => {
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      onAdd(name, baseUrl);
+      setName('');
+      setBaseUrl('');
+      setAddError(null);
+    } catch (error) {
+      setAddError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '12px' }}>
+      <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>设备 ({selectedIds.length}/{devices.length} 已选)</div>
+      {devices.map(device => (
+        <div key={device.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(device.id)}
+            onChange={(e) => onSelect(device.id, e.target.checked)}
+            disabled={disabled}
+          />
+          <span style={{ minWidth: '120px' }}>{device.name}</span>
+          <span style={{ color: '#666', fontSize: '12px' }}>{device.baseUrl}</span>
+          <button
+            onClick={() => onRemove(device.id)}
+            disabled={disabled}
+            style={{
+              marginLeft: 'auto',
+              padding: '2px 8px',
+              border: '1px solid #dc3545',
+              borderRadius: '4px',
+              backgroundColor: 'white',
+              color: '#dc3545',
+              cursor: disabled ? 'not-allowed' : 'pointer'
+            }}
+          >
+            移除
+          </button>
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd} style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <input
+          type="text"
+          placeholder="设备名称"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={disabled}
+          style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ddd' }}
+        />
+        <input
+          type="text"
+          placeholder="http://192.168.1.20:5000"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          disabled={disabled}
+          style={{ flex: 1, padding: '4px 8px', borderRadius: '4px', border: '1px solid #ddd' }}
+        />
+        <button
+          type="submit"
+          disabled={disabled || baseUrl.trim() === ''}
+          style={{
+            padding: '4px 12px',
+            border: 'none',
+            borderRadius: '4px',
+            backgroundColor: '#2196f3',
+            color: 'white',
+            cursor: disabled ? 'not-allowed' : 'pointer'
+          }}
+        >
+          添加设备
+        </button>
+      </form>
+      {addError && (
+        <div style={{ color: '#dc3545', fontSize: '12px', marginTop: '4px' }}>{addError}</div>
+      )}
+    </div>
+  );
+};
+
+export default DevicePanel;
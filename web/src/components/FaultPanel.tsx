@@ -0,0 +1,118 @@
+import React from 'react';
+import { MockConfig } from '../utils/mockDataGenerator';
+import {
+  FAULT_PRESETS,
+  FaultProfile,
+  FaultStats,
+  isFaultProfileActive,
+  normalizeFaultProfile
+} from '../utils/faultInjection';
+
+interface FaultPanelProps {
+  config: MockConfig;
+  disabled: boolean;
+  onConfigChange: (config: Partial<MockConfig>) => void;
+  stats?: FaultStats; // 本次会话已注入的故障计数
+}
+
+const FAULT_FIELDS: { key: keyof FaultProfile; label: string; step: string }[] = [
+  { key: 'dropRate', label: 'Drop rate (per chunk)', step: '0.005' },
+  { key: 'duplicateRate', label: 'Duplicate rate (per chunk)', step: '0.005' },
+  { key: 'clockJitterNs', label: 'Clock jitter (± ns)', step: '1000' },
+  { key: 'clipLevel', label: 'Clip level (× amplitude, 0 = off)', step: '0.1' },
+  { key: 'spikeRate', label: 'Spike rate (per sample)', step: '0.00001' },
+  { key: 'spikeAmplitude', label: 'Spike height (× amplitude)', step: '0.5' },
+  { key: 'stuckRate', label: 'Stuck channel rate (per chunk)', step: '0.005' },
+  { key: 'stuckChunks', label: 'Stuck duration (chunks)', step: '1' },
+  { key: 'stallRate', label: 'Stall rate (per chunk)', step: '0.005' },
+  { key: 'stallMs', label: 'Stall duration (ms)', step: '500' }
+];
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px 6px',
+  borderRadius: '4px',
+  border: '1px solid #ddd',
+  boxSizing: 'border-box'
+};
+
+function sameProfile(a: FaultProfile, b: FaultProfile): boolean {
+  return FAULT_FIELDS.every(field => a[field.key] === b[field.key]);
+}
+
+/**
+ * 模拟数据流的故障注入设置；只在模拟数据模式下显示，采集中修改在线生效
+ */
+const FaultPanel: React.FC<FaultPanelProps> = ({ config, disabled, onConfigChange, stats }) => {
+  const profile = normalizeFaultProfile(config.faults);
+  const active = isFaultProfileActive(profile);
+  const presetKey = Object.keys(FAULT_PRESETS).find(key => sameProfile(FAULT_PRESETS[key].profile, profile)) ?? 'custom';
+
+  const setField = (key: keyof FaultProfile, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    onConfigChange({ faults: { ...profile, [key]: parsed } });
+  };
+
+  return (
+    <div style={{
+      marginTop: '15px',
+      padding: '10px',
+      textAlign: 'left',
+      border: `1px solid ${active ? '#dc3545' : '#ddd'}`,
+      borderRadius: '5px'
+    }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontWeight: 'bold' }}>
+        Fault profile:
+        <select
+          value={presetKey}
+          onChange={(e) => {
+            const preset = FAULT_PRESETS[e.target.value];
+            if (preset) onConfigChange({ faults: { ...preset.profile } });
+          }}
+          disabled={disabled}
+          style={{ ...inputStyle, width: 'auto' }}
+        >
+          {Object.keys(FAULT_PRESETS).map(key => (
+            <option key={key} value={key}>{FAULT_PRESETS[key].label}</option>
+          ))}
+          {presetKey === 'custom' && <option value="custom">Custom</option>}
+        </select>
+      </label>
+
+      {active && stats && (
+        <div style={{ marginTop: '8px', fontSize: '13px', color: '#dc3545' }}>
+          <strong>Injected:</strong> {stats.dropped} dropped, {stats.duplicated} duplicated, {stats.spikes} spikes,
+          {' '}{stats.clippedSamples.toLocaleString()} clipped samples, {stats.stuckChannels} stuck, {stats.stalls} stalls
+        </div>
+      )}
+
+      <details style={{ marginTop: '8px' }}>
+        <summary style={{ cursor: 'pointer' }}>Fault parameters</summary>
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+          gap: '10px',
+          marginTop: '8px'
+        }}>
+          {FAULT_FIELDS.map(field => (
+            <label key={field.key} style={{ fontSize: '13px' }}>
+              <span style={{ display: 'block', marginBottom: '4px' }}>{field.label}</span>
+              <input
+                type="number"
+                min="0"
+                step={field.step}
+                value={profile[field.key]}
+                onChange={(e) => setField(field.key, e.target.value)}
+                disabled={disabled}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default FaultPanel;
@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Sparkline from './Sparkline';
+import { DataSource } from '../services/dataSource';
+import { MetricsSnapshot, PerformanceMetrics } from '../services/signalrClient';
+import { MetricsHistory } from '../utils/metricsHistory';
+
+interface PerformanceDashboardProps {
+  dataSource: DataSource;
+  frameRate: number; // 浏览器端渲染帧率
+  dataRate: number; // 浏览器端实测数据率 (MB/s)
+  deviceNames?: { [deviceId: string]: string }; // 多设备时显示设备名
+}
+
+interface ClientDetail {
+  metrics: MetricsSnapshot | null;
+  receivedAt: number;
+}
+
+const BROWSER_SAMPLE_INTERVAL_MS = 1000;
+
+// 服务端 PerformanceUpdate 中绘制趋势线的指标
+function serverSample(metrics: PerformanceMetrics): { [key: string]: number } {
+  const sample: { [key: string]: number } = {
+    rate: metrics.global.dataRate.rateMBps,
+    packets: metrics.global.packets.rate,
+    latency: metrics.global.latency.average,
+    clients: Object.keys(metrics.clients).length
+  };
+  if ('memory' in metrics.system) {
+    sample.memory = metrics.system.memory.workingSetMB;
+  }
+  return sample;
+}
+
+/**
+ * 服务端与浏览器端性能对照：服务端 PerformanceUpdate（约每 5 秒一次）和浏览器 fps/数据率
+ * 的滚动历史，按设备分列；可以重置服务端指标、查看单个客户端的指标
+ */
+const PerformanceDashboard: React.FC<PerformanceDashboardProps> = ({
+  dataSource,
+  frameRate,
+  dataRate,
+  deviceNames = {}
+}) => {
+  const [, setRevision] = useState(0);
+  const browserHistoryRef = useRef(new MetricsHistory());
+  const serverHistoriesRef = useRef<Map<string, MetricsHistory>>(new Map());
+  const [latestMetrics, setLatestMetrics] = useState<{ [deviceKey: string]: PerformanceMetrics }>({});
+  const [clientDetails, setClientDetails] = useState<{ [deviceKey: string]: { [clientId: string]: ClientDetail } }>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // 浏览器指标按固定间隔采样，间隔回调读取最新的 props
+  const browserRef = useRef({ frameRate, dataRate });
+  browserRef.current = { frameRate, dataRate };
+  const deviceNamesRef = useRef(deviceNames);
+  deviceNamesRef.current = deviceNames;
+
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      browserHistoryRef.current.push({ fps: browserRef.current.frameRate, rate: browserRef.current.dataRate });
+      setRevision(prev => prev + 1);
+    }, BROWSER_SAMPLE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 服务端指标来自数据源事件；切换数据源时清空
+  useEffect(() => {
+    const serverHistories = serverHistoriesRef.current;
+    const historyFor = (deviceKey: string) => {
+      let history = serverHistories.get(deviceKey);
+      if (!history) {
+        history = new MetricsHistory();
+        serverHistories.set(deviceKey, history);
+      }
+      return history;
+    };
+
+    const unsubscribe = dataSource.onEvent((event) => {
+      const deviceKey = event.deviceId ?? '';
+      switch (event.type) {
+        case 'serverMetrics':
+          historyFor(deviceKey).push(serverSample(event.metrics));
+          setLatestMetrics(prev => ({ ...prev, [deviceKey]: event.metrics }));
+          break;
+        case 'clientMetrics':
+          setClientDetails(prev => ({
+            ...prev,
+            [deviceKey]: {
+              ...prev[deviceKey],
+              [event.message.clientId]: { metrics: event.message.metrics, receivedAt: Date.now() }
+            }
+          }));
+          break;
+        case 'metricsReset':
+          historyFor(deviceKey).clear();
+          setClientDetails(prev => ({ ...prev, [deviceKey]: {} }));
+          setNotice(`${deviceNamesRef.current[deviceKey] ?? '服务端'}指标已于 ${new Date(event.message.timestamp).toLocaleTimeString()} 被 ${event.message.requestedBy} 重置`);
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      serverHistories.clear();
+      setLatestMetrics({});
+      setClientDetails({});
+      setNotice(null);
+      setActionError(null);
+    };
+  }, [dataSource]);
+
+  const runAction = (action: Promise<void>, description: string) => {
+    setActionError(null);
+    action.catch(error => {
+      console.error(`${description}失败:`, error);
+      setActionError(`${description}失败: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+
+  const browserHistory = browserHistoryRef.current;
+  const deviceKeys = Object.keys(latestMetrics);
+
+  return (
+    <div className="performance-dashboard" style={{
+      marginBottom: '20px',
+      padding: '15px',
+      backgroundColor: '#f8f9fa',
+      borderRadius: '8px',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+      textAlign: 'left'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '10px' }}>
+        <h4 style={{ margin: 0 }}>Performance Dashboard</h4>
+        {dataSource.resetServerMetrics && (
+          <button onClick={() => runAction(dataSource.resetServerMetrics!(), '重置服务端指标')}>
+            Reset server metrics
+          </button>
+        )}
+      </div>
+      {notice && <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '8px' }}>{notice}</div>}
+      {actionError && <div style={{ fontSize: '12px', color: '#dc3545', marginBottom: '8px' }}>{actionError}</div>}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '24px' }}>
+        <div>
+          <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>Browser</div>
+          <Sparkline label="Data rate" unit="MB/s" values={browserHistory.series('rate')} target={640} />
+          <Sparkline label="Frame rate" unit="fps" digits={0} color="#2ca02c" values={browserHistory.series('fps')} target={55} />
+        </div>
+
+        {deviceKeys.map(deviceKey => {
+          const history = serverHistoriesRef.current.get(deviceKey);
+          if (!history) return null;
+          return (
+            <div key={deviceKey}>
+              <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>
+                Server{deviceNames[deviceKey] ? ` — ${deviceNames[deviceKey]}` : ''} (uptime {latestMetrics[deviceKey].uptime})
+              </div>
+              <Sparkline label="Data rate" unit="MB/s" values={history.series('rate')} target={640} />
+              <Sparkline label="Packets" unit="/s" digits={0} color="#9467bd" values={history.series('packets')} />
+              <Sparkline label="Latency (avg)" unit="ms" digits={2} color="#d62728" values={history.series('latency')} />
+              <Sparkline label="Working set" unit="MB" digits={0} color="#8c564b" values={history.series('memory')} />
+            </div>
+          );
+        })}
+        {deviceKeys.length === 0 && (
+          <div style={{ fontSize: '12px', color: '#6c757d', alignSelf: 'center' }}>
+            {dataSource.remote ? '等待服务端性能指标…' : '模拟模式没有服务端指标'}
+          </div>
+        )}
+      </div>
+
+      {deviceKeys.map(deviceKey => {
+        const clients = latestMetrics[deviceKey].clients;
+        const clientIds = Object.keys(clients);
+        if (clientIds.length === 0) return null;
+        return (
+          <table key={deviceKey} style={{ marginTop: '12px', fontSize: '12px', borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', borderBottom: '1px solid #dee2e6' }}>
+                <th>Client{deviceNames[deviceKey] ? ` (${deviceNames[deviceKey]})` : ''}</th>
+                <th>Rate (MB/s)</th>
+                <th>Total (MB)</th>
+                <th>Packets/s</th>
+                <th>Latency avg / min / max (ms)</th>
+                <th>Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {clientIds.map(clientId => {
+                const detail = clientDetails[deviceKey]?.[clientId];
+                // 按需请求的详情比周期广播中的值更新
+                const snapshot = detail?.metrics ?? clients[clientId];
+                return (
+                  <tr key={clientId}>
+                    <td>{clientId}</td>
+                    <td>{snapshot.dataRate.rateMBps.toFixed(1)}</td>
+                    <td>{snapshot.dataRate.totalMB.toFixed(1)}</td>
+                    <td>{snapshot.packets.rate.toFixed(0)}</td>
+                    <td>
+                      {snapshot.latency.average.toFixed(2)} / {snapshot.latency.min.toFixed(2)} / {snapshot.latency.max.toFixed(2)}
+                    </td>
+                    <td>
+                      {dataSource.requestClientMetrics && (
+                        <button
+                          onClick={() => runAction(
+                            dataSource.requestClientMetrics!(clientId, deviceKey || undefined),
+                            '获取客户端指标'
+                          )}
+                        >
+                          Refresh
+                        </button>
+                      )}
+                      {detail && (
+                        <span style={{ marginLeft: '6px', color: detail.metrics ? '#6c757d' : '#dc3545' }}>
+                          {detail.metrics ? new Date(detail.receivedAt).toLocaleTimeString() : '服务端已无此客户端'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PerformanceDashboard;
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { CARD_CONFIGS } from '../utils/mockDataGenerator';
+import {
+  applyRuntimeSettings,
+  formatRuntimeConfigIssue,
+  getRuntimeConfig,
+  loadStoredSettings,
+  RuntimeConfig,
+  RuntimeConfigIssue,
+  RuntimeSettings,
+  saveStoredSettings,
+  SIGNALR_TRANSPORTS,
+  SignalRTransportName
+} from '../services/runtimeConfig';
+
+interface SettingsDialogProps {
+  onClose: () => void;
+}
+
+type TimeoutKey = keyof RuntimeConfig['timeouts'];
+
+const TIMEOUT_LABELS: Record<TimeoutKey, string> = {
+  connectMs: 'Connect timeout (ms)',
+  requestMs: 'Request timeout (ms)',
+  serverTimeoutMs: 'Server timeout (ms)',
+  keepAliveMs: 'Keep-alive interval (ms)'
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  borderRadius: '4px',
+  border: '1px solid #ddd',
+  boxSizing: 'border-box'
+};
+
+/**
+ * 运行时配置对话框：修改后保存到 localStorage 并重新加载页面
+ * 只保存与当前生效配置不同的字段，其余字段继续跟随 runtime-config.json
+ */
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
+  const current = getRuntimeConfig();
+  const [serviceUrl, setServiceUrl] = useState(current.serviceUrl);
+  const [hubPath, setHubPath] = useState(current.signalr.hubPath);
+  const [transports, setTransports] = useState<SignalRTransportName[]>(current.signalr.transports);
+  const [skipNegotiation, setSkipNegotiation] = useState(current.signalr.skipNegotiation);
+  const [fallbackTransports, setFallbackTransports] = useState<SignalRTransportName[]>(current.signalr.fallbackTransports);
+  const [reconnectAttempts, setReconnectAttempts] = useState(String(current.signalr.reconnectAttempts));
+  const [timeouts, setTimeouts] = useState<Record<TimeoutKey, string>>({
+    connectMs: String(current.timeouts.connectMs),
+    requestMs: String(current.timeouts.requestMs),
+    serverTimeoutMs: String(current.timeouts.serverTimeoutMs),
+    keepAliveMs: String(current.timeouts.keepAliveMs)
+  });
+  const [defaultCard, setDefaultCard] = useState(current.defaultCard);
+  const [defaultDataSource, setDefaultDataSource] = useState(current.defaultDataSource);
+  const [issues, setIssues] = useState<RuntimeConfigIssue[]>([]);
+
+  // 保持 SIGNALR_TRANSPORTS 中的先后顺序
+  const toggle = (prev: SignalRTransportName[], name: SignalRTransportName, enabled: boolean) => (enabled
+    ? SIGNALR_TRANSPORTS.filter(item => item === name || prev.includes(item))
+    : prev.filter(item => item !== name));
+
+  // 与当前配置比较，只收集修改过的字段
+  const collectChanges = (): RuntimeSettings => {
+    const changes: RuntimeSettings = {};
+    const signalr: RuntimeSettings['signalr'] = {};
+    const changedTimeouts: RuntimeSettings['timeouts'] = {};
+
+    if (serviceUrl !== current.serviceUrl) changes.serviceUrl = serviceUrl;
+    if (defaultCard !== current.defaultCard) changes.defaultCard = defaultCard;
+    if (defaultDataSource !== current.defaultDataSource) changes.defaultDataSource = defaultDataSource;
+    if (hubPath !== current.signalr.hubPath) signalr.hubPath = hubPath;
+    if (transports.join(',') !== current.signalr.transports.join(',')) signalr.transports = transports;
+    if (skipNegotiation !== current.signalr.skipNegotiation) signalr.skipNegotiation = skipNegotiation;
+    if (fallbackTransports.join(',') !== current.signalr.fallbackTransports.join(',')) {
+      signalr.fallbackTransports = fallbackTransports;
+    }
+    if (reconnectAttempts !== String(current.signalr.reconnectAttempts)) {
+      signalr.reconnectAttempts = Number(reconnectAttempts);
+    }
+    (Object.keys(timeouts) as TimeoutKey[]).forEach(key => {
+      if (timeouts[key] !== String(current.timeouts[key])) {
+        changedTimeouts[key] = Number(timeouts[key]);
+      }
+    });
+
+    if (Object.keys(signalr).length > 0) changes.signalr = signalr;
+    if (Object.keys(changedTimeouts).length > 0) changes.timeouts = changedTimeouts;
+    return changes;
+  };
+
+  const handleSave = () => {
+    const stored = loadStoredSettings();
+    const changes = collectChanges();
+    const next: RuntimeSettings = {
+      ...stored,
+      ...changes,
+      signalr: { ...stored.signalr, ...changes.signalr },
+      timeouts: { ...stored.timeouts, ...changes.timeouts }
+    };
+
+    // 保存前按启动时的规则校验，有问题时不保存
+    const { issues: found } = applyRuntimeSettings(current, next, 'settings');
+    if (found.length > 0) {
+      setIssues(found);
+      return;
+    }
+    saveStoredSettings(next);
+    window.location.reload();
+  };
+
+  const handleReset = () => {
+    saveStoredSettings(null);
+    window.location.reload();
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      backgroundColor: 'rgba(0,0,0,0.4)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div role="dialog" aria-label="Runtime settings" style={{
+        width: '520px',
+        maxHeight: '90vh',
+        overflowY: 'auto',
+        padding: '20px',
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+        textAlign: 'left'
+      }}>
+        <h3 style={{ marginTop: 0 }}>运行时设置</h3>
+        <p style={{ fontSize: '12px', color: '#666' }}>
+          保存后重新加载页面生效；地址栏查询参数的优先级高于这里的设置。
+        </p>
+
+        <div style={{ display: 'grid', gap: '10px' }}>
+          <label>
+            Service URL
+            <input style={fieldStyle} value={serviceUrl} onChange={(e) => setServiceUrl(e.target.value)} />
+          </label>
+          <label>
+            SignalR hub path
+            <input style={fieldStyle} value={hubPath} onChange={(e) => setHubPath(e.target.value)} />
+          </label>
+          <div>
+            Transports
+            <div style={{ display: 'flex', gap: '12px' }}>
+              {SIGNALR_TRANSPORTS.map(name => (
+                <label key={name} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                  <input
+                    type="checkbox"
+                    checked={transports.includes(name)}
+                    onChange={(e) => setTransports(prev => toggle(prev, name, e.target.checked))}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="checkbox"
+              checked={skipNegotiation}
+              onChange={(e) => setSkipNegotiation(e.target.checked)}
+            />
+            Skip negotiation (WebSockets only)
+          </label>
+          <div>
+            Fallback transports (negotiated)
+            <div style={{ display: 'flex', gap: '12px' }}>
+              {SIGNALR_TRANSPORTS.map(name => (
+                <label key={name} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                  <input
+                    type="checkbox"
+                    checked={fallbackTransports.includes(name)}
+                    onChange={(e) => setFallbackTransports(prev => toggle(prev, name, e.target.checked))}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label>
+            Reconnect attempts (0 = off)
+            <input
+              style={fieldStyle}
+              type="number"
+              min="0"
+              value={reconnectAttempts}
+              onChange={(e) => setReconnectAttempts(e.target.value)}
+            />
+          </label>
+          {(Object.keys(TIMEOUT_LABELS) as TimeoutKey[]).map(key => (
+            <label key={key}>
+              {TIMEOUT_LABELS[key]}
+              <input
+                style={fieldStyle}
+                type="number"
+                min="1"
+                value={timeouts[key]}
+                onChange={(e) => setTimeouts(prev => ({ ...prev, [key]: e.target.value }))}
+              />
+            </label>
+          ))}
+          <label>
+            Default card
+            <select style={fieldStyle} value={defaultCard} onChange={(e) => setDefaultCard(e.target.value)}>
+              {Object.keys(CARD_CONFIGS).map(cardType => (
+                <option key={cardType} value={cardType}>{cardType}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Default data source
+            <select
+              style={fieldStyle}
+              value={defaultDataSource}
+              onChange={(e) => setDefaultDataSource(e.target.value as RuntimeConfig['defaultDataSource'])}
+            >
+              <option value="mock">模拟数据 (Mock Data)</option>
+              <option value="real">真实数据 (Real Data)</option>
+            </select>
+          </label>
+        </div>
+
+        {issues.length > 0 && (
+          <ul style={{ color: '#dc3545', fontSize: '12px', paddingLeft: '18px' }}>
+            {issues.map((issue, index) => (
+              <li key={index}>{formatRuntimeConfigIssue(issue)}</li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end', marginTop: '16px' }}>
+          <button onClick={handleReset}>恢复默认</button>
+          <button onClick={onClose}>取消</button>
+          <button onClick={handleSave} style={{ fontWeight: 'bold' }}>保存并重新加载</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
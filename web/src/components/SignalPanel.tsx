@@ -0,0 +1,188 @@
+import React from 'react';
+import { MockConfig } from '../utils/mockDataGenerator';
+import {
+  ChannelOverride,
+  normalizeSignalParameters,
+  SignalParameters,
+  WaveformType,
+  WAVEFORMS
+} from '../utils/signalLibrary';
+
+interface SignalPanelProps {
+  config: MockConfig;
+  disabled: boolean;
+  onConfigChange: (config: Partial<MockConfig>) => void;
+}
+
+interface ParameterField {
+  key: keyof SignalParameters;
+  label: string;
+  step: string;
+  waveforms: WaveformType[]; // 使用该参数的波形
+}
+
+const PARAMETER_FIELDS: ParameterField[] = [
+  { key: 'dutyCycle', label: 'Duty cycle (0-1)', step: '0.05', waveforms: ['pulse'] },
+  { key: 'chirpEndFrequency', label: 'Chirp end frequency (Hz)', step: '100', waveforms: ['chirp'] },
+  { key: 'chirpPeriod', label: 'Chirp period (s)', step: '0.001', waveforms: ['chirp'] },
+  { key: 'modulationFrequency', label: 'Modulation frequency (Hz)', step: '10', waveforms: ['am', 'fm', 'pm'] },
+  { key: 'modulationDepth', label: 'Modulation depth / index', step: '0.1', waveforms: ['am', 'fm', 'pm'] },
+  { key: 'decayTime', label: 'Decay time constant (s)', step: '0.0001', waveforms: ['decay'] },
+  { key: 'stepCount', label: 'Step count', step: '1', waveforms: ['step'] }
+];
+
+// 覆盖表中可编辑的数值列
+const OVERRIDE_COLUMNS: { key: Exclude<keyof ChannelOverride, 'waveformType'>; label: string; step: string }[] = [
+  { key: 'frequency', label: 'Freq (Hz)', step: '1' },
+  { key: 'phase', label: 'Phase (°)', step: '15' },
+  { key: 'amplitude', label: 'Amplitude', step: '0.1' },
+  { key: 'offset', label: 'Offset', step: '0.1' }
+];
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px 6px',
+  borderRadius: '4px',
+  border: '1px solid #ddd',
+  boxSizing: 'border-box'
+};
+
+/**
+ * 模拟波形的附加参数和按通道覆盖；只在模拟数据模式下显示，采集中修改在线生效
+ */
+const SignalPanel: React.FC<SignalPanelProps> = ({ config, disabled, onConfigChange }) => {
+  const params = normalizeSignalParameters(config.signal);
+  const overrides = config.channelOverrides ?? [];
+
+  // 全局波形和各通道覆盖的波形用到的参数
+  const usedWaveforms = new Set<WaveformType>([config.waveformType]);
+  overrides.forEach(override => {
+    if (override?.waveformType) usedWaveforms.add(override.waveformType);
+  });
+  const fields = PARAMETER_FIELDS.filter(field => field.waveforms.some(type => usedWaveforms.has(type)));
+
+  const setParameter = (key: keyof SignalParameters, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    onConfigChange({ signal: { ...config.signal, [key]: parsed } });
+  };
+
+  // 空值表示该字段沿用全局配置；全部字段为空的通道不保留覆盖
+  const setOverride = (channel: number, changes: Partial<ChannelOverride>) => {
+    const next: ChannelOverride[] = [];
+    for (let ch = 0; ch < config.channels; ch++) {
+      next.push({ ...overrides[ch] });
+    }
+    const merged: ChannelOverride = { ...next[channel], ...changes };
+    (Object.keys(merged) as (keyof ChannelOverride)[]).forEach(key => {
+      if (merged[key] === undefined) delete merged[key];
+    });
+    next[channel] = merged;
+    const hasAny = next.some(override => Object.keys(override).length > 0);
+    onConfigChange({ channelOverrides: hasAny ? next : undefined });
+  };
+
+  const channelIndexes = Array.from({ length: config.channels }, (_, ch) => ch);
+  const overriddenCount = channelIndexes.filter(ch => overrides[ch] && Object.keys(overrides[ch]).length > 0).length;
+
+  return (
+    <div style={{ marginTop: '15px', textAlign: 'left' }}>
+      {fields.length > 0 && (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+          gap: '10px',
+          marginBottom: '10px'
+        }}>
+          {fields.map(field => (
+            <label key={field.key} style={{ fontSize: '13px' }}>
+              <span style={{ display: 'block', marginBottom: '4px', fontWeight: 'bold' }}>{field.label}</span>
+              <input
+                type="number"
+                step={field.step}
+                value={params[field.key]}
+                onChange={(e) => setParameter(field.key, e.target.value)}
+                disabled={disabled}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <details>
+        <summary style={{ cursor: 'pointer', fontWeight: 'bold' }}>
+          Per-channel overrides{overriddenCount > 0 ? ` (${overriddenCount})` : ''}
+        </summary>
+        <div style={{ maxHeight: '300px', overflowY: 'auto', marginTop: '8px' }}>
+          <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ textAlign: 'left' }}>
+                <th>CH</th>
+                <th>Waveform</th>
+                {OVERRIDE_COLUMNS.map(column => <th key={column.key}>{column.label}</th>)}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {channelIndexes.map(ch => {
+                const override = overrides[ch] ?? {};
+                return (
+                  <tr key={ch}>
+                    <td>{ch + 1}</td>
+                    <td>
+                      <select
+                        value={override.waveformType ?? ''}
+                        onChange={(e) => setOverride(ch, {
+                          waveformType: e.target.value ? e.target.value as WaveformType : undefined
+                        })}
+                        disabled={disabled}
+                        style={inputStyle}
+                      >
+                        <option value="">(global)</option>
+                        {WAVEFORMS.map(waveform => (
+                          <option key={waveform.type} value={waveform.type}>{waveform.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    {OVERRIDE_COLUMNS.map(column => (
+                      <td key={column.key}>
+                        <input
+                          type="number"
+                          step={column.step}
+                          placeholder="global"
+                          value={override[column.key] ?? ''}
+                          onChange={(e) => setOverride(ch, {
+                            [column.key]: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                          })}
+                          disabled={disabled}
+                          style={inputStyle}
+                        />
+                      </td>
+                    ))}
+                    <td>
+                      <button
+                        onClick={() => setOverride(ch, {
+                          waveformType: undefined,
+                          frequency: undefined,
+                          phase: undefined,
+                          amplitude: undefined,
+                          offset: undefined
+                        })}
+                        disabled={disabled || Object.keys(override).length === 0}
+                      >
+                        Clear
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default SignalPanel;
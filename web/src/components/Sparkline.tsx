@@ -0,0 +1,74 @@
+import React from 'react';
+
+interface SparklineProps {
+  label: string;
+  values: number[]; // 按时间顺序，NaN 处断开
+  unit?: string;
+  color?: string;
+  width?: number;
+  height?: number;
+  digits?: number; // 当前值的小数位数
+  target?: number; // 目标值，画一条水平虚线
+}
+
+/**
+ * 简单的 SVG 趋势线：标签 + 当前值 + 历史曲线（纵轴按历史范围自动缩放）
+ */
+const Sparkline: React.FC<SparklineProps> = ({
+  label,
+  values,
+  unit = '',
+  color = '#1f77b4',
+  width = 180,
+  height = 36,
+  digits = 1,
+  target
+}) => {
+  const finite = values.filter(value => isFinite(value));
+  const current = finite.length > 0 ? finite[finite.length - 1] : undefined;
+
+  let min = finite.length > 0 ? Math.min(...finite) : 0;
+  let max = finite.length > 0 ? Math.max(...finite) : 1;
+  if (target !== undefined) {
+    min = Math.min(min, target);
+    max = Math.max(max, target);
+  }
+  if (max === min) {
+    max = min + 1;
+  }
+
+  const x = (index: number) => (values.length > 1 ? (index / (values.length - 1)) * width : width);
+  const y = (value: number) => height - 2 - ((value - min) / (max - min)) * (height - 4);
+
+  // NaN 把曲线分成多段
+  const segments: string[] = [];
+  let points: string[] = [];
+  values.forEach((value, index) => {
+    if (isFinite(value)) {
+      points.push(`${x(index).toFixed(1)},${y(value).toFixed(1)}`);
+    } else if (points.length > 0) {
+      segments.push(points.join(' '));
+      points = [];
+    }
+  });
+  if (points.length > 0) segments.push(points.join(' '));
+
+  return (
+    <div style={{ marginBottom: '8px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', width }}>
+        <span style={{ color: '#555' }}>{label}</span>
+        <strong>{current !== undefined ? `${current.toFixed(digits)} ${unit}` : '—'}</strong>
+      </div>
+      <svg width={width} height={height} style={{ display: 'block', backgroundColor: '#fff', border: '1px solid #e0e0e0' }}>
+        {target !== undefined && (
+          <line x1={0} x2={width} y1={y(target)} y2={y(target)} stroke="#adb5bd" strokeDasharray="3 3" />
+        )}
+        {segments.map((segment, index) => (
+          <polyline key={index} points={segment} fill="none" stroke={color} strokeWidth={1.5} />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default Sparkline;
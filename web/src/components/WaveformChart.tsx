@@ -1,6 +1,15 @@
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import Plot from 'react-plotly.js';
-import { PlotData, Layout, Config } from 'plotly.js';
+import { PlotData, PlotRelayoutEvent, Layout, Config } from 'plotly.js';
+import {
+  absoluteBaseNs,
+  ChunkTimeline,
+  chunkStartSeconds,
+  formatDeviceTime,
+  TimeAxisMode
+} from '../utils/deviceTimeline';
+import { ChunkMetadata } from '../services/dataSource';
+import { decimate, DecimationMode } from '../utils/decimation';
 
 interface WaveformChartProps {
   data: Float32Array[];
@@ -8,6 +17,28 @@ interface WaveformChartProps {
   channels: number;
   isStreaming: boolean;
   maxPoints?: number;
+  metadata?: ChunkMetadata | null; // 与 data 对应的元数据，包含 sequence 连续性信息
+  showGaps?: boolean; // 丢块处插入 NaN 断开曲线，而不是直接拼接
+  timeMode?: TimeAxisMode; // X 轴显示会话相对时间或设备绝对时间
+  streams?: WaveformStream[]; // 多设备时每台设备一组数据，提供时忽略 data/metadata
+  decimation?: DecimationMode; // 按绘图区像素列降采样的算法，保留毛刺
+}
+
+/**
+ * 一台设备最新的一块数据；各设备共用同一时间轴，曲线直接按时间对齐
+ */
+export interface WaveformStream {
+  deviceId: string;
+  label: string; // 曲线名前缀，例如设备名
+  data: Float32Array[];
+  metadata: ChunkMetadata | null;
+}
+
+interface ConfigMarkerPoint {
+  time: number; // 会话相对时间
+  revision: number;
+  deviceId: string;
+  label: string;
 }
 
 interface PlotlyData extends Partial<PlotData> {
@@ -25,7 +56,7 @@ interface PlotlyData extends Partial<PlotData> {
 // 循环缓冲区类，用于高效内存管理
 class CircularBuffer {
   private buffer: Float32Array;
-  private timeBuffer: Float32Array;
+  private timeBuffer: Float64Array; // 纳秒级间隔需要双精度
   private writeIndex: number = 0;
   private size: number;
   private isFull: boolean = false;
@@ -33,7 +64,7 @@ class CircularBuffer {
   constructor(size: number) {
     this.size = size;
     this.buffer = new Float32Array(size);
-    this.timeBuffer = new Float32Array(size);
+    this.timeBuffer = new Float64Array(size);
   }
 
   push(value: number, time: number): void {
@@ -43,12 +74,18 @@ class CircularBuffer {
     if (this.writeIndex === 0) this.isFull = true;
   }
 
-  getData(): { values: Float32Array; times: Float32Array; length: number } {
+  // 缓冲区中最早样本的时间，空缓冲区返回 undefined
+  oldestTime(): number | undefined {
+    if (this.isFull) return this.timeBuffer[this.writeIndex];
+    return this.writeIndex > 0 ? this.timeBuffer[0] : undefined;
+  }
+
+  getData(): { values: Float32Array; times: Float64Array; length: number } {
     const length = this.isFull ? this.size : this.writeIndex;
     if (this.isFull) {
       // 重新排列数据，使其按时间顺序
       const values = new Float32Array(length);
-      const times = new Float32Array(length);
+      const times = new Float64Array(length);
       for (let i = 0; i < length; i++) {
         const index = (this.writeIndex + i) % this.size;
         values[i] = this.buffer[index];
@@ -70,19 +107,47 @@ class CircularBuffer {
   }
 }
 
+// 绘图区边距；降采样的像素列数等于容器宽度减去左右边距
+const PLOT_MARGIN = { l: 60, r: 60, t: 60, b: 60 };
+
+// 每台设备各自的缓冲区和块计数
+interface StreamBuffers {
+  channels: CircularBuffer[];
+  frameCount: number;
+  lastPushed: Float32Array[] | null;
+}
+
 const WaveformChart: React.FC<WaveformChartProps> = ({
   data,
   sampleRate,
   channels,
   isStreaming,
-  maxPoints = 500000 // 减少到500k以提高性能
+  maxPoints = 500000, // 减少到500k以提高性能
+  metadata,
+  showGaps = false,
+  timeMode = 'relative',
+  streams,
+  decimation = 'minmax'
 }) => {
   const [plotData, setPlotData] = useState<PlotlyData[]>([]);
   const [revision, setRevision] = useState(0);
   const frameRef = useRef<number | undefined>(undefined);
   const lastUpdateRef = useRef<number>(0);
-  const buffersRef = useRef<CircularBuffer[]>([]);
-  const frameCountRef = useRef<number>(0);
+  const streamBuffersRef = useRef<Map<string, StreamBuffers>>(new Map());
+  const [timelineOriginNs, setTimelineOriginNs] = useState<string | null>(null);
+  // 在线配置修改生效的位置（会话相对时间），超出缓冲区范围后移除
+  const configMarkersRef = useRef<ConfigMarkerPoint[]>([]);
+  const [configMarkers, setConfigMarkers] = useState<ConfigMarkerPoint[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [plotWidth, setPlotWidth] = useState(1000);
+  // 缩放后的 X 轴范围（显示坐标），null 表示自动范围
+  const [viewRange, setViewRange] = useState<[number, number] | null>(null);
+
+  // 单设备时把 data/metadata 当作一组无名数据
+  const sources: WaveformStream[] = useMemo(
+    () => streams ?? [{ deviceId: '', label: '', data, metadata: metadata ?? null }],
+    [streams, data, metadata]
+  );
   
   // Color palette for different channels (memoized to prevent re-creation)
   const channelColors = useMemo(() => [
@@ -92,66 +157,183 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
     '#98df8a', '#ff9896', '#c5b0d5', '#c49c94'
   ], []);
 
-  // 初始化循环缓冲区
+  // 通道数或缓冲区大小变化时丢弃所有缓冲区，下次收到数据时按新参数创建
   useEffect(() => {
-    buffersRef.current = Array.from({ length: channels }, () => new CircularBuffer(maxPoints));
+    streamBuffersRef.current = new Map();
   }, [channels, maxPoints]);
 
-  // 智能LOD算法 - 根据数据量动态调整采样率
-  const calculateOptimalStep = useCallback((dataLength: number, targetPoints: number): number => {
-    if (dataLength <= targetPoints) return 1;
-    
-    // 使用对数缩放来保持重要特征
-    const baseStep = Math.floor(dataLength / targetPoints);
-    return Math.max(1, baseStep);
+  const getStreamBuffers = useCallback((deviceId: string): StreamBuffers => {
+    let buffers = streamBuffersRef.current.get(deviceId);
+    if (!buffers) {
+      buffers = {
+        channels: Array.from({ length: channels }, () => new CircularBuffer(maxPoints)),
+        frameCount: 0,
+        lastPushed: null
+      };
+      streamBuffersRef.current.set(deviceId, buffers);
+    }
+    return buffers;
+  }, [channels, maxPoints]);
+
+  // 跟随容器宽度，使每个像素列对应一个降采样桶
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return undefined;
+    const measure = () => setPlotWidth(Math.max(1, element.clientWidth - PLOT_MARGIN.l - PLOT_MARGIN.r));
+    measure();
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // 切换时间基准后原来的缩放范围不再对应同一段数据
+  useEffect(() => {
+    setViewRange(null);
+  }, [timeMode]);
+
+  const handleRelayout = useCallback((event: Readonly<PlotRelayoutEvent>) => {
+    if (event['xaxis.autorange']) {
+      setViewRange(null);
+    } else if (event['xaxis.range[0]'] !== undefined && event['xaxis.range[1]'] !== undefined) {
+      setViewRange([event['xaxis.range[0]'], event['xaxis.range[1]']]);
+    }
+  }, []);
+
+  // 记录新的配置标记，并丢弃已滚出缓冲区的标记；列表变化时才触发重绘
+  const updateConfigMarkers = useCallback((added: ConfigMarkerPoint[]) => {
+    let markers = added.length > 0 ? [...configMarkersRef.current, ...added] : configMarkersRef.current;
+
+    // 每个标记按所属设备的缓冲区判断是否已滚出
+    const expired = (marker: ConfigMarkerPoint) => {
+      const oldest = streamBuffersRef.current.get(marker.deviceId)?.channels[0]?.oldestTime();
+      return oldest !== undefined && marker.time < oldest;
+    };
+    if (markers.some(expired)) {
+      markers = markers.filter(marker => !expired(marker));
+    }
+
+    if (markers !== configMarkersRef.current) {
+      configMarkersRef.current = markers;
+      setConfigMarkers(markers);
+    }
   }, []);
 
   // 高性能数据转换，使用循环缓冲区和智能采样
-  const convertDataToPlot = useCallback((rawData: Float32Array[]): PlotlyData[] => {
+  const convertDataToPlot = useCallback((rawStreams: WaveformStream[]): PlotlyData[] => {
     const result: PlotlyData[] = [];
-    
-    for (let ch = 0; ch < Math.min(channels, rawData.length); ch++) {
-      const channelData = rawData[ch];
-      if (!channelData || channelData.length === 0) continue;
-      
-      const buffer = buffersRef.current[ch];
-      if (!buffer) continue;
-
-      // 将新数据添加到循环缓冲区
-      const step = calculateOptimalStep(channelData.length, maxPoints / 4); // 每次只处理1/4的数据
-      for (let i = 0; i < channelData.length; i += step) {
-        const time = (frameCountRef.current * channelData.length + i) / sampleRate;
-        buffer.push(channelData[i], time);
+    const addedMarkers: ConfigMarkerPoint[] = [];
+    let latestOriginNs: string | null = null;
+    // 显示点数在所有设备的所有通道之间平分，M4 每列最多 4 个点
+    const pointsPerTrace = maxPoints / (channels * Math.max(1, rawStreams.length));
+    const columns = Math.max(1, Math.min(plotWidth, Math.floor(pointsPerTrace / 4)));
+    // 每块最多写入缓冲区的 1/4
+    const ingestLimit = Math.floor(maxPoints / 4);
+
+    rawStreams.forEach((stream, streamIndex) => {
+      const { data: rawData, metadata: rawMetadata } = stream;
+      const buffers = getStreamBuffers(stream.deviceId);
+      const sequenceEvent = rawMetadata?.sequence?.event;
+      // 同一块数据只写入缓冲区一次，重绘时不重复追加；
+      // 迟到的块（此前已按丢块断开曲线）早于缓冲区末尾，追加会打乱 decimate() 依赖的时间顺序，不显示
+      const isNewData = rawData !== buffers.lastPushed && rawData.length > 0 && sequenceEvent?.kind !== 'reordered';
+
+      // 缓冲区中保存会话相对时间；有设备时钟时按 tick_ns 定位，否则按块计数推算
+      const timeline: ChunkTimeline | undefined = rawMetadata?.timeline;
+
+      // 丢块时时间轴跳过缺失的块，使断点处的时间与实际一致
+      const missingChunks = isNewData && sequenceEvent?.kind === 'gap' ? sequenceEvent.missing : 0;
+      if (missingChunks > 0) {
+        buffers.frameCount += missingChunks;
       }
+      // 重订阅后服务端重新编号：丢失的块数未知，只断开曲线
+      const restarted = isNewData && sequenceEvent?.kind === 'restart';
 
-      // 从缓冲区获取数据用于显示
-      const bufferData = buffer.getData();
-      const displayStep = Math.max(1, Math.floor(bufferData.length / (maxPoints / channels)));
-      
-      const sampledData: number[] = [];
-      const timeData: number[] = [];
-      
-      for (let i = 0; i < bufferData.length; i += displayStep) {
-        sampledData.push(bufferData.values[i]);
-        timeData.push(bufferData.times[i]);
+      // 绝对时间模式下，相对时间加上会话起点到其所在整秒的偏移
+      const absoluteOffset = timeline && timeMode === 'absolute'
+        ? chunkStartSeconds({ ...timeline, tickNs: timeline.originNs }, 'absolute')
+        : 0;
+
+      const chunkLength = rawData.length > 0 ? rawData[0].length : 0;
+      const chunkStartTime = timeline
+        ? timeline.startS
+        : (buffers.frameCount * chunkLength) / sampleRate;
+
+      for (let ch = 0; ch < Math.min(channels, rawData.length); ch++) {
+        const channelData = rawData[ch];
+        if (!channelData || channelData.length === 0) continue;
+
+        const buffer = buffers.channels[ch];
+        if (!buffer) continue;
+
+        if (isNewData) {
+          if ((missingChunks > 0 || restarted) && showGaps) {
+            buffer.push(NaN, chunkStartTime);
+          }
+
+          // 将新数据添加到循环缓冲区；块太大时先按最小/最大值降采样，毛刺不会被跳过
+          if (channelData.length <= ingestLimit) {
+            for (let i = 0; i < channelData.length; i++) {
+              buffer.push(channelData[i], chunkStartTime + i / sampleRate);
+            }
+          } else {
+            const times = new Float64Array(channelData.length);
+            for (let i = 0; i < times.length; i++) {
+              times[i] = chunkStartTime + i / sampleRate;
+            }
+            const reduced = decimate(times, channelData, Math.floor(ingestLimit / 2), 'minmax');
+            reduced.x.forEach((time, i) => buffer.push(reduced.y[i], time));
+          }
+        }
+
+        // 从缓冲区取出可见范围内的数据，按绘图区像素列降采样
+        const bufferData = buffer.getData();
+        const bufferRange: [number, number] | undefined = viewRange
+          ? [viewRange[0] - absoluteOffset, viewRange[1] - absoluteOffset]
+          : undefined;
+        const visible = decimate(bufferData.times, bufferData.values, columns, decimation, bufferRange);
+
+        result.push({
+          x: absoluteOffset === 0 ? visible.x : visible.x.map(time => time + absoluteOffset),
+          y: visible.y,
+          type: 'scattergl',
+          mode: 'lines',
+          name: stream.label ? `${stream.label} CH${ch + 1}` : `Channel ${ch + 1}`,
+          line: {
+            color: channelColors[(streamIndex * channels + ch) % channelColors.length],
+            width: 1
+          }
+        });
       }
-      
-      result.push({
-        x: timeData,
-        y: sampledData,
-        type: 'scattergl',
-        mode: 'lines',
-        name: `Channel ${ch + 1}`,
-        line: {
-          color: channelColors[ch % channelColors.length],
-          width: 1
+
+      if (isNewData) {
+        const marker = rawMetadata?.configMarker;
+        if (marker) {
+          addedMarkers.push({
+            time: chunkStartTime + marker.sampleOffset / sampleRate,
+            revision: marker.revision,
+            deviceId: stream.deviceId,
+            label: stream.label
+          });
         }
-      });
+        buffers.frameCount++;
+        buffers.lastPushed = rawData;
+        if (timeline) {
+          latestOriginNs = timeline.originNs;
+        }
+      }
+    });
+
+    updateConfigMarkers(addedMarkers);
+    if (latestOriginNs !== null && latestOriginNs !== timelineOriginNs) {
+      setTimelineOriginNs(latestOriginNs);
     }
-    
-    frameCountRef.current++;
     return result;
-  }, [channels, sampleRate, maxPoints, channelColors, calculateOptimalStep]);
+  }, [channels, sampleRate, maxPoints, channelColors, showGaps, timeMode, timelineOriginNs, plotWidth, viewRange,
+    decimation, getStreamBuffers, updateConfigMarkers]);
 
   // 优化的更新循环 - 降低更新频率以提高性能
   useEffect(() => {
@@ -162,7 +344,7 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
       
       // 降低到30fps以提高性能，减少WebGL clear()调用
       if (now - lastUpdateRef.current >= 33.33) { // ~30fps
-        const newPlotData = convertDataToPlot(data);
+        const newPlotData = convertDataToPlot(sources);
         setPlotData(newPlotData);
         setRevision(prev => prev + 1);
         lastUpdateRef.current = now;
@@ -178,31 +360,48 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
         cancelAnimationFrame(frameRef.current);
       }
     };
-  }, [data, isStreaming, convertDataToPlot]);
+  }, [sources, isStreaming, convertDataToPlot]);
 
   // 清理缓冲区当停止流式传输时
   useEffect(() => {
     if (!isStreaming) {
-      buffersRef.current.forEach(buffer => buffer?.clear());
-      frameCountRef.current = 0;
-      const newPlotData = convertDataToPlot(data);
+      streamBuffersRef.current.forEach(buffers => {
+        buffers.channels.forEach(buffer => buffer.clear());
+        buffers.frameCount = 0;
+        buffers.lastPushed = null;
+      });
+      configMarkersRef.current = [];
+      setConfigMarkers([]);
+      const newPlotData = convertDataToPlot(sources);
       setPlotData(newPlotData);
       setRevision(prev => prev + 1);
     }
-  }, [data, isStreaming, convertDataToPlot]);
+  }, [sources, isStreaming, convertDataToPlot]);
+
+  // 标记按会话相对时间保存，绝对时间模式下加上与曲线相同的偏移
+  const markerOffset = timeMode === 'absolute' && timelineOriginNs
+    ? chunkStartSeconds({ tickNs: timelineOriginNs, originNs: timelineOriginNs, startS: 0 }, 'absolute')
+    : 0;
 
   const layout: Partial<Layout> = useMemo(() => ({
     title: {
-      text: `JYTEK Waveform Display - ${channels} Channels @ ${sampleRate.toLocaleString()} S/s`,
+      text: streams && streams.length > 1
+        ? `JYTEK Waveform Display - ${streams.length} Devices × ${channels} Channels @ ${sampleRate.toLocaleString()} S/s`
+        : `JYTEK Waveform Display - ${channels} Channels @ ${sampleRate.toLocaleString()} S/s`,
       font: { size: 16 }
     },
     xaxis: {
-      title: { text: 'Time (s)' },
+      title: {
+        text: timeMode === 'absolute' && timelineOriginNs
+          ? `Device time (s) since ${formatDeviceTime(absoluteBaseNs(timelineOriginNs))}`
+          : 'Time (s)'
+      },
       showgrid: false, // 减少网格渲染开销
       zeroline: false,
       type: 'linear',
       fixedrange: false, // 允许缩放
-      autorange: true
+      // 缩放后保持用户选择的范围，数据按该范围重新降采样
+      ...(viewRange ? { range: viewRange, autorange: false } : { autorange: true })
     },
     yaxis: {
       title: { text: 'Amplitude' },
@@ -220,15 +419,37 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
       bordercolor: 'rgba(0,0,0,0.1)',
       borderwidth: 1
     },
-    margin: { l: 60, r: 60, t: 60, b: 60 },
+    margin: PLOT_MARGIN,
     plot_bgcolor: '#ffffff', // 简化背景色
     paper_bgcolor: '#ffffff',
     hovermode: false, // 禁用hover以提高性能
     // 高性能优化配置
+    // 配置标记：竖虚线 + 版本号
+    shapes: configMarkers.map(marker => ({
+      type: 'line' as const,
+      xref: 'x' as const,
+      yref: 'paper' as const,
+      x0: marker.time + markerOffset,
+      x1: marker.time + markerOffset,
+      y0: 0,
+      y1: 1,
+      line: { color: '#6f42c1', width: 1, dash: 'dash' as const }
+    })),
+    annotations: configMarkers.map(marker => ({
+      x: marker.time + markerOffset,
+      y: 1,
+      xref: 'x' as const,
+      yref: 'paper' as const,
+      text: marker.label ? `${marker.label} config r${marker.revision}` : `config r${marker.revision}`,
+      showarrow: false,
+      xanchor: 'left' as const,
+      yanchor: 'bottom' as const,
+      font: { size: 10, color: '#6f42c1' }
+    })),
     uirevision: revision,
     datarevision: revision
     // 移除transition和scene配置以避免类型错误
-  }), [channels, sampleRate, revision]);
+  }), [channels, sampleRate, revision, timeMode, timelineOriginNs, configMarkers, markerOffset, streams, viewRange]);
 
   const config: Partial<Config> = useMemo(() => ({
     displayModeBar: false, // 完全隐藏工具栏以提高性能
@@ -249,7 +470,7 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
   }), []);
 
   return (
-    <div className="waveform-chart" style={{ width: '100%', height: '600px' }}>
+    <div ref={containerRef} className="waveform-chart" style={{ width: '100%', height: '600px' }}>
       <Plot
         data={plotData}
         layout={layout}
@@ -257,6 +478,7 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
         style={{ width: '100%', height: '100%' }}
         useResizeHandler={true}
         revision={revision}
+        onRelayout={handleRelayout}
       />
       
       {/* Performance indicator */}
@@ -272,6 +494,14 @@ const WaveformChart: React.FC<WaveformChartProps> = ({
       }}>
         {isStreaming ? '🔴 LIVE' : '⏸️ PAUSED'} | 
         Points: {plotData.reduce((sum, trace) => sum + (trace.y?.length || 0), 0).toLocaleString()}
+        {viewRange && (
+          <button
+            onClick={() => setViewRange(null)}
+            style={{ marginLeft: '8px', padding: '0 6px', fontSize: '12px', cursor: 'pointer' }}
+          >
+            Reset zoom
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,14 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { AcquisitionSnapshot, AcquisitionStateMachine } from '../services/acquisitionState';
+
+/**
+ * 订阅采集状态机，状态变化时重新渲染组件
+ */
+export function useAcquisitionState(machine: AcquisitionStateMachine): AcquisitionSnapshot {
+  const subscribe = useCallback(
+    (onChange: () => void) => machine.subscribe(onChange),
+    [machine]
+  );
+  const getSnapshot = useCallback(() => machine.snapshot, [machine]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
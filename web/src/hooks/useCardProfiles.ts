@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { CardProfileRegistry } from '../services/cardProfileRegistry';
+import { CardProfile } from '../utils/cardProfiles';
+
+/**
+ * 订阅板卡档案注册表，自定义档案增删或服务端档案加载后重新渲染组件
+ */
+export function useCardProfiles(registry: CardProfileRegistry): CardProfile[] {
+  const [profiles, setProfiles] = useState<CardProfile[]>(() => registry.list());
+
+  useEffect(() => {
+    // 订阅前注册表可能已经变化
+    setProfiles(registry.list());
+    return registry.on('changed', setProfiles);
+  }, [registry]);
+
+  return profiles;
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { DeviceDescriptor, DeviceRegistry } from '../services/deviceRegistry';
+
+/**
+ * 订阅设备注册表，设备增删或选择变化时重新渲染组件
+ */
+export function useDeviceRegistry(registry: DeviceRegistry): { devices: DeviceDescriptor[]; selectedIds: string[] } {
+  const [devices, setDevices] = useState<DeviceDescriptor[]>(() => registry.list());
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => registry.selectedIds);
+
+  useEffect(() => {
+    // 订阅前注册表可能已经变化
+    setDevices(registry.list());
+    setSelectedIds(registry.selectedIds);
+    const disposers = [
+      registry.on('changed', setDevices),
+      registry.on('selectionChanged', setSelectedIds)
+    ];
+    return () => disposers.forEach(dispose => dispose());
+  }, [registry]);
+
+  return { devices, selectedIds };
+}
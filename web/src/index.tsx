@@ -1,17 +1,46 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
-import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { formatRuntimeConfigIssue, loadRuntimeConfig, setRuntimeConfig } from './services/runtimeConfig';
+import { createDataWorkerPool } from './workers/createDataWorker';
+import { setDataWorkerPool } from './workers/dataWorkerPool';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// 服务客户端在模块加载时按运行时配置创建，所以先加载配置再加载应用
+loadRuntimeConfig().then(async ({ config, issues }) => {
+  setRuntimeConfig(config);
+  issues.forEach(issue => console.error('运行时配置错误:', formatRuntimeConfigIssue(issue)));
+  // 模拟数据生成和真实数据解码放到 Worker 中，主线程只负责渲染
+  setDataWorkerPool(createDataWorkerPool());
+
+  const { default: App } = await import('./App');
+  root.render(
+    <React.StrictMode>
+      <App configIssues={issues} />
+    </React.StrictMode>
+  );
+}).catch(error => {
+  // Worker 池创建或应用模块加载失败：显示错误而不是留下空白页面
+  console.error('应用启动失败:', error);
+  root.render(
+    <div role="alert" style={{
+      margin: '20px',
+      padding: '12px 16px',
+      backgroundColor: '#f8d7da',
+      border: '1px solid #f5c2c7',
+      borderRadius: '5px',
+      color: '#842029'
+    }}>
+      <strong>应用启动失败</strong>
+      <p style={{ margin: '8px 0' }}>{error instanceof Error ? error.message : String(error)}</p>
+      <button onClick={() => window.location.reload()}>重新加载</button>
+    </div>
+  );
+});
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -0,0 +1,73 @@
+import { AcquisitionStateError, AcquisitionStateMachine } from './acquisitionState';
+
+function streamingMachine(): AcquisitionStateMachine {
+  const machine = new AcquisitionStateMachine();
+  machine.transition('connecting');
+  machine.transition('armed');
+  machine.transition('streaming');
+  return machine;
+}
+
+describe('AcquisitionStateMachine', () => {
+  test('guards transitions and keeps the current state on rejection', () => {
+    const machine = new AcquisitionStateMachine();
+    expect(() => machine.transition('paused')).toThrow(AcquisitionStateError);
+    expect(machine.state).toBe('idle');
+
+    machine.transition('connecting');
+    expect(machine.can('streaming')).toBe(false);
+    expect(machine.can('armed')).toBe(true);
+  });
+
+  test('notifies subscribers with a stable snapshot until the state changes', () => {
+    const machine = new AcquisitionStateMachine();
+    const seen: string[] = [];
+    const unsubscribe = machine.subscribe(snapshot => seen.push(`${snapshot.previous}→${snapshot.state}`));
+
+    const before = machine.snapshot;
+    expect(machine.snapshot).toBe(before);
+    machine.transition('connecting');
+    expect(machine.snapshot).not.toBe(before);
+
+    unsubscribe();
+    machine.transition('armed');
+    expect(seen).toEqual(['idle→connecting']);
+  });
+
+  test('fail records the error and is ignored while idle', () => {
+    const machine = new AcquisitionStateMachine();
+    machine.fail(new Error('ignored'));
+    expect(machine.state).toBe('idle');
+
+    const running = streamingMachine();
+    running.fail(new Error('stream lost'));
+    expect(running.snapshot.state).toBe('error');
+    expect(running.snapshot.error?.message).toBe('stream lost');
+    expect(running.can('connecting')).toBe(true);
+  });
+
+  describe('reconcile', () => {
+    test('follows server pause/resume and stop', () => {
+      const machine = streamingMachine();
+      machine.reconcile({ isRunning: true, isPaused: true });
+      expect(machine.state).toBe('paused');
+      machine.reconcile({ isRunning: true, isPaused: false });
+      expect(machine.state).toBe('streaming');
+      machine.reconcile({ isRunning: false, isPaused: false });
+      expect(machine.state).toBe('idle');
+    });
+
+    test('enters error on a server error message', () => {
+      const machine = streamingMachine();
+      machine.reconcile({ isRunning: true, isPaused: false, errorMessage: 'FIFO overflow' });
+      expect(machine.snapshot.error?.message).toBe('FIFO overflow');
+    });
+
+    test('ignores status while a local connect or stop is in flight', () => {
+      const machine = new AcquisitionStateMachine();
+      machine.transition('connecting');
+      machine.reconcile({ isRunning: false, isPaused: false });
+      expect(machine.state).toBe('connecting');
+    });
+  });
+});
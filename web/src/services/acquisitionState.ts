@@ -0,0 +1,180 @@
+/**
+ * 采集状态机
+ * 界面、数据源和 RealDataService 共用同一个实例，避免各自维护 isStreaming/isPaused 而互相矛盾
+ *
+ *   idle → connecting → armed → streaming ⇄ paused
+ *                 ↘        ↘        ↘        ↙
+ *                  ────────── stopping → idle
+ *   任意活动状态出错 → error → connecting / stopping / idle
+ */
+
+export type AcquisitionState =
+  | 'idle'
+  | 'connecting' // 正在连接服务并下发配置
+  | 'armed' // 数据流已建立，等待第一块数据
+  | 'streaming'
+  | 'paused'
+  | 'stopping'
+  | 'error';
+
+const TRANSITIONS: Record<AcquisitionState, AcquisitionState[]> = {
+  idle: ['connecting'],
+  connecting: ['armed', 'stopping', 'error'],
+  armed: ['streaming', 'stopping', 'error'],
+  streaming: ['paused', 'stopping', 'error'],
+  paused: ['streaming', 'stopping', 'error'],
+  stopping: ['idle', 'error'],
+  error: ['connecting', 'stopping', 'idle']
+};
+
+export interface AcquisitionSnapshot {
+  state: AcquisitionState;
+  previous: AcquisitionState | null;
+  error?: Error; // 仅 error 状态下有值
+  changedAt: number; // Date.now()
+}
+
+/**
+ * 服务端上报的运行状态，对应 SignalR SystemStatusChanged / DAQStatus
+ */
+export interface AcquisitionServerStatus {
+  isRunning: boolean;
+  isPaused: boolean;
+  errorMessage?: string;
+}
+
+export class AcquisitionStateError extends Error {
+  readonly from: AcquisitionState;
+  readonly to: AcquisitionState;
+
+  constructor(from: AcquisitionState, to: AcquisitionState) {
+    super(`无效的采集状态转换: ${from} → ${to}`);
+    Object.setPrototypeOf(this, AcquisitionStateError.prototype);
+    this.name = 'AcquisitionStateError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function canTransition(from: AcquisitionState, to: AcquisitionState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 已开始采集（含等待首块和暂停）
+ */
+export function isAcquisitionActive(state: AcquisitionState): boolean {
+  return state === 'armed' || state === 'streaming' || state === 'paused';
+}
+
+export type AcquisitionListener = (snapshot: AcquisitionSnapshot) => void;
+
+export class AcquisitionStateMachine {
+  private current: AcquisitionSnapshot = { state: 'idle', previous: null, changedAt: Date.now() };
+  private listeners: Set<AcquisitionListener> = new Set();
+
+  get state(): AcquisitionState {
+    return this.current.state;
+  }
+
+  /**
+   * 当前快照；状态不变时返回同一个对象，可直接用于 useSyncExternalStore
+   */
+  get snapshot(): AcquisitionSnapshot {
+    return this.current;
+  }
+
+  get active(): boolean {
+    return isAcquisitionActive(this.current.state);
+  }
+
+  can(to: AcquisitionState): boolean {
+    return canTransition(this.current.state, to);
+  }
+
+  /**
+   * 在发起耗时操作（发送命令）之前检查转换是否允许
+   */
+  assertCan(to: AcquisitionState): void {
+    if (!this.can(to)) {
+      throw new AcquisitionStateError(this.current.state, to);
+    }
+  }
+
+  /**
+   * 受保护的状态转换；不允许的转换抛出 AcquisitionStateError，状态保持不变
+   */
+  transition(to: AcquisitionState, error?: Error): void {
+    this.assertCan(to);
+    this.apply(to, error);
+  }
+
+  /**
+   * 进入 error 状态；已处于 idle（未在采集）时只记录错误不改变状态
+   */
+  fail(error: Error): void {
+    if (this.current.state === 'error' || this.can('error')) {
+      this.apply('error', error);
+    }
+  }
+
+  /**
+   * 用服务端上报的状态校正本地状态
+   * connecting/stopping 期间本地操作尚未完成，服务端状态可能滞后，此时不校正
+   */
+  reconcile(status: AcquisitionServerStatus): void {
+    const state = this.current.state;
+    if (state === 'connecting' || state === 'stopping') return;
+
+    if (status.errorMessage) {
+      if (state !== 'idle') {
+        this.apply('error', new Error(status.errorMessage));
+      }
+      return;
+    }
+
+    if (!status.isRunning) {
+      // 服务端已停止（例如被其他客户端停止）
+      if (isAcquisitionActive(state)) {
+        this.apply('idle');
+      }
+      return;
+    }
+
+    if (state === 'streaming' && status.isPaused) {
+      this.apply('paused');
+    } else if (state === 'paused' && !status.isPaused) {
+      this.apply('streaming');
+    }
+  }
+
+  subscribe(listener: AcquisitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset(): void {
+    this.apply('idle');
+  }
+
+  private apply(to: AcquisitionState, error?: Error): void {
+    if (to === this.current.state && to !== 'error') return;
+
+    this.current = {
+      state: to,
+      previous: this.current.state,
+      error: to === 'error' ? error : undefined,
+      changedAt: Date.now()
+    };
+
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener(this.current);
+      } catch (listenerError) {
+        console.error('采集状态监听器出错:', listenerError);
+      }
+    });
+  }
+}
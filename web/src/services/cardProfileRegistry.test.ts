@@ -0,0 +1,138 @@
+import { CARD_PROFILES_STORAGE_KEY, CardProfileRegistry, CardProfileStorage } from './cardProfileRegistry';
+import { BUILTIN_CARD_PROFILES, CardCapabilities, constrainConfig, parseCardProfile } from '../utils/cardProfiles';
+import { CARD_CONFIGS } from '../utils/mockDataGenerator';
+
+function memoryStorage(values: { [key: string]: string } = {}): CardProfileStorage & { values: typeof values } {
+  return {
+    values,
+    getItem: (key: string) => values[key] ?? null,
+    setItem: (key: string, value: string) => { values[key] = value; },
+    removeItem: (key: string) => { delete values[key]; }
+  };
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return { ok: status >= 200 && status < 300, status, json: async () => body } as Response;
+}
+
+const capabilities: CardCapabilities = {
+  maxChannels: 8,
+  sampleRates: [10_000, 100_000, 1_000_000],
+  inputRanges: [1, 10],
+  couplings: ['AC'],
+  bitDepth: 24,
+  bandwidthHz: 20_000
+};
+
+describe('constrainConfig', () => {
+  test('limits channels, snaps sample rate and range to steps and picks a supported coupling', () => {
+    const constrained = constrainConfig(
+      { ...CARD_CONFIGS['PXIe-5500'], sampleRate: 40_000, frequency: 50_000, inputRange: 3, coupling: 'DC' },
+      capabilities
+    );
+
+    expect(constrained).toMatchObject({
+      channels: 8,
+      sampleRate: 10_000,
+      frequency: 5_000, // 奈奎斯特频率
+      inputRange: 1,
+      coupling: 'AC'
+    });
+  });
+
+  test('keeps built-in card defaults within their capabilities', () => {
+    BUILTIN_CARD_PROFILES.forEach(profile => {
+      expect(profile.defaults).toEqual({ ...CARD_CONFIGS[profile.model], inputRange: 10, coupling: 'DC' });
+    });
+    expect(BUILTIN_CARD_PROFILES.find(profile => profile.model === 'PXIe-69846H')?.capabilities.maxChannels).toBe(4);
+  });
+});
+
+describe('parseCardProfile', () => {
+  test('fills missing defaults from the capabilities', () => {
+    const { profile, errors } = parseCardProfile({ model: ' PXIe-9000 ', capabilities }, 'service');
+
+    expect(errors).toEqual([]);
+    expect(profile).toMatchObject({ model: 'PXIe-9000', source: 'service' });
+    expect(profile?.defaults).toMatchObject({ channels: 8, sampleRate: 1_000_000, frequency: 1000, coupling: 'AC' });
+  });
+
+  test('rejects invalid capabilities and reports invalid defaults', () => {
+    expect(parseCardProfile({ model: 'X', capabilities: { ...capabilities, sampleRates: [], couplings: ['GND'] } }, 'user'))
+      .toEqual({
+        errors: [
+          'X: capabilities.sampleRates 必须是非空的正数数组',
+          'X: capabilities.couplings 必须是 DC/AC 组成的非空数组'
+        ]
+      });
+
+    const { profile, errors } = parseCardProfile({ model: 'Y', capabilities, defaults: { channels: -1, waveformType: 'saw' } }, 'user');
+    expect(profile?.defaults.channels).toBe(8);
+    expect(errors).toEqual(['Y: defaults.channels 必须是正数', 'Y: defaults.waveformType 未知的波形 "saw"']);
+  });
+});
+
+describe('CardProfileRegistry', () => {
+  test('persists user profiles and restores them on the next start', () => {
+    const storage = memoryStorage();
+    const registry = new CardProfileRegistry(storage);
+    const changes: string[][] = [];
+    registry.on('changed', profiles => changes.push(profiles.map(profile => profile.model)));
+
+    registry.save({ model: 'Bench-4', capabilities, defaults: { ...CARD_CONFIGS['PXIe-5310'] } });
+    expect(() => registry.save({ model: 'Bad', capabilities: { ...capabilities, maxChannels: 0 }, defaults: CARD_CONFIGS['PXIe-5310'] }))
+      .toThrow('无效的板卡档案');
+
+    const restored = new CardProfileRegistry(storage).get('Bench-4');
+    expect(restored).toMatchObject({ source: 'user', capabilities });
+    expect(restored?.defaults).toMatchObject({ channels: 8, sampleRate: 1_000_000, coupling: 'AC' });
+    expect(changes).toEqual([['PXIe-69846H', 'PXIe-5310', 'PXIe-5500', 'Bench-4']]);
+
+    registry.remove('Bench-4');
+    expect(storage.values[CARD_PROFILES_STORAGE_KEY]).toBeUndefined();
+  });
+
+  test('ignores corrupted storage', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const registry = new CardProfileRegistry(memoryStorage({ [CARD_PROFILES_STORAGE_KEY]: '[{"model": ' }));
+
+    expect(registry.list()).toEqual(BUILTIN_CARD_PROFILES);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('loads profiles from the service, with user profiles overriding the same model', async () => {
+    const registry = new CardProfileRegistry(null);
+    registry.save({ model: 'PXIe-5310', capabilities, defaults: CARD_CONFIGS['PXIe-5310'] });
+    const requested: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      requested.push(url);
+      return jsonResponse([
+        { model: 'PXIe-5310', capabilities: { ...capabilities, maxChannels: 16 } },
+        { model: 'PXIe-9000', capabilities },
+        { model: '' }
+      ]);
+    }) as typeof fetch;
+
+    const result = await registry.loadFromService('http://10.0.0.5:5000/', fetchImpl);
+
+    expect(requested).toEqual(['http://10.0.0.5:5000/cards']);
+    expect(result.profiles.map(profile => profile.model)).toEqual(['PXIe-5310', 'PXIe-9000']);
+    expect(result.issues).toEqual(['model 必须是非空字符串']);
+    expect(registry.get('PXIe-5310')).toMatchObject({ source: 'user', capabilities: { maxChannels: 8 } });
+    expect(registry.get('PXIe-9000')?.source).toBe('service');
+
+    registry.remove('PXIe-5310');
+    expect(registry.get('PXIe-5310')).toMatchObject({ source: 'service', capabilities: { maxChannels: 16 } });
+  });
+
+  test('rejects when the service request fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const registry = new CardProfileRegistry(null);
+
+    await expect(registry.loadFromService('http://10.0.0.5:5000', async () => jsonResponse(null, 404)))
+      .rejects.toThrow('从 http://10.0.0.5:5000/cards 加载板卡档案失败: HTTP 404');
+    expect(registry.list()).toEqual(BUILTIN_CARD_PROFILES);
+    error.mockRestore();
+  });
+});
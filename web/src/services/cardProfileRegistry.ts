@@ -0,0 +1,147 @@
+/**
+ * 板卡档案注册表
+ * 合并三个来源，同一型号后者覆盖前者：内置档案 → DAQ 服务的 /cards → 用户自定义（保存在 localStorage）
+ */
+
+import { BUILTIN_CARD_PROFILES, CardProfile, parseCardProfile } from '../utils/cardProfiles';
+import { Disposer, TypedEventEmitter } from '../utils/typedEventEmitter';
+import { normalizeBaseUrl } from './runtimeConfig';
+
+export const CARD_PROFILES_STORAGE_KEY = 'jytek.cardProfiles';
+
+// DAQ 服务上列出板卡档案的端点，相对于服务地址
+export const CARD_PROFILES_PATH = '/cards';
+
+export type CardProfileStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface CardProfileRegistryEvents {
+  changed: (profiles: CardProfile[]) => void;
+}
+
+export interface CardProfileLoadResult {
+  profiles: CardProfile[]; // 本次加载的有效档案
+  issues: string[]; // 被忽略的档案或字段
+}
+
+// 用户档案的保存格式，不含来源
+type StoredCardProfile = Omit<CardProfile, 'source'>;
+
+export class CardProfileRegistry {
+  private readonly storage: CardProfileStorage | null;
+  private serviceProfiles: CardProfile[] = [];
+  private userProfiles: CardProfile[] = [];
+  private events = new TypedEventEmitter<CardProfileRegistryEvents>('CardProfileRegistry');
+
+  /**
+   * storage 为 null 时用户档案只保存在内存中
+   */
+  constructor(storage: CardProfileStorage | null = window.localStorage) {
+    this.storage = storage;
+    const { profiles, issues } = this.loadStored();
+    this.userProfiles = profiles;
+    if (issues.length > 0) {
+      console.warn('已忽略无效的自定义板卡档案:', issues);
+    }
+  }
+
+  /**
+   * 所有可选型号：内置型号在前并保持顺序，其余按加入顺序
+   */
+  list(): CardProfile[] {
+    const merged = new Map<string, CardProfile>();
+    [...BUILTIN_CARD_PROFILES, ...this.serviceProfiles, ...this.userProfiles].forEach(profile => {
+      merged.set(profile.model, profile);
+    });
+    return Array.from(merged.values());
+  }
+
+  get(model: string): CardProfile | undefined {
+    return this.list().find(profile => profile.model === model);
+  }
+
+  /**
+   * 新增或替换用户档案并保存；档案无效时抛出异常
+   */
+  save(input: Omit<CardProfile, 'source'>): CardProfile {
+    const { profile, errors } = parseCardProfile(input, 'user');
+    if (!profile || errors.length > 0) {
+      throw new Error(`无效的板卡档案: ${errors.join('; ')}`);
+    }
+    this.userProfiles = [...this.userProfiles.filter(existing => existing.model !== profile.model), profile];
+    this.persist();
+    this.events.emit('changed', this.list());
+    return profile;
+  }
+
+  /**
+   * 删除用户档案；同名的内置或服务端档案重新生效
+   */
+  remove(model: string): void {
+    if (!this.userProfiles.some(profile => profile.model === model)) return;
+    this.userProfiles = this.userProfiles.filter(profile => profile.model !== model);
+    this.persist();
+    this.events.emit('changed', this.list());
+  }
+
+  /**
+   * 从 DAQ 服务加载板卡档案，替换上一次加载的结果；无效的档案被忽略并在 issues 中返回
+   */
+  async loadFromService(baseUrl: string, fetchImpl: typeof fetch = fetch): Promise<CardProfileLoadResult> {
+    const url = `${normalizeBaseUrl(baseUrl)}${CARD_PROFILES_PATH}`;
+    let body: unknown;
+    try {
+      const response = await fetchImpl(url, { cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      console.error('加载板卡档案失败:', error);
+      throw new Error(`从 ${url} 加载板卡档案失败: ${(error as Error).message}`);
+    }
+
+    const result = this.parseList(body, 'service');
+    this.serviceProfiles = result.profiles;
+    this.events.emit('changed', this.list());
+    return result;
+  }
+
+  on<K extends keyof CardProfileRegistryEvents>(event: K, listener: CardProfileRegistryEvents[K]): Disposer {
+    return this.events.on(event, listener);
+  }
+
+  private parseList(input: unknown, source: 'service' | 'user'): CardProfileLoadResult {
+    if (!Array.isArray(input)) {
+      return { profiles: [], issues: ['板卡档案列表必须是数组'] };
+    }
+    const profiles: CardProfile[] = [];
+    const issues: string[] = [];
+    input.forEach(item => {
+      const { profile, errors } = parseCardProfile(item, source);
+      if (profile) profiles.push(profile);
+      issues.push(...errors);
+    });
+    return { profiles, issues };
+  }
+
+  private loadStored(): CardProfileLoadResult {
+    try {
+      const stored = this.storage?.getItem(CARD_PROFILES_STORAGE_KEY);
+      return stored ? this.parseList(JSON.parse(stored), 'user') : { profiles: [], issues: [] };
+    } catch (error) {
+      return { profiles: [], issues: [`保存的板卡档案已损坏: ${(error as Error).message}`] };
+    }
+  }
+
+  private persist(): void {
+    if (!this.storage) return;
+    if (this.userProfiles.length === 0) {
+      this.storage.removeItem(CARD_PROFILES_STORAGE_KEY);
+      return;
+    }
+    const stored: StoredCardProfile[] = this.userProfiles.map(({ source, ...profile }) => profile);
+    this.storage.setItem(CARD_PROFILES_STORAGE_KEY, JSON.stringify(stored));
+  }
+}
+
+export const cardProfileRegistry = new CardProfileRegistry();
@@ -0,0 +1,206 @@
+/**
+ * DataChunk 的接收处理：格式协商、序号连续性、吞吐量、配置标记、设备时间轴和解码
+ * RealDataService 对 gRPC 数据流、LoopbackDataSource 对本地编码的模拟数据使用同一实现
+ */
+
+import { DataChunk } from './daqProto';
+import { ChunkMetadata } from './dataSource';
+import { SequenceEvent, SequenceStats, SequenceTracker } from '../utils/sequenceTracker';
+import { DeviceTimeline } from '../utils/deviceTimeline';
+import { ThroughputMeter, ThroughputMeterOptions, ThroughputSnapshot } from '../utils/throughputMeter';
+import {
+  bytesPerSample,
+  decodeSamples,
+  DEFAULT_SAMPLE_FORMAT,
+  parseSampleFormat,
+  SampleFormat,
+  SAMPLE_FORMAT_TAGS
+} from '../utils/sampleFormat';
+import { ConfigMarkerTracker } from '../utils/liveConfig';
+import { DataWorkerPool, getDataWorkerPool, InOrderDelivery } from '../workers/dataWorkerPool';
+
+export interface ChunkDecoderOptions {
+  deviceId?: string; // 写入每块数据的 ChunkMetadata.deviceId
+  decodePool?: DataWorkerPool | null; // 默认使用 getDataWorkerPool()，null 表示在主线程解码
+}
+
+/**
+ * 解码需要的会话配置
+ */
+export interface ChunkDecoderConfig {
+  channels: number;
+  sampleRate: number;
+  sampleFormat?: Partial<SampleFormat>; // 请求的采样格式，DataChunk.tags 中的 format.* 覆盖它
+}
+
+export interface DecodedChunkHandlers {
+  data: (data: Float32Array[], metadata: ChunkMetadata) => void;
+  error: (error: Error) => void; // Worker 解码失败，这一块被丢弃
+  current?: () => boolean; // 解码完成时检查，返回 false 的结果不再交付（例如订阅已被替换）
+}
+
+export class ChunkDecoder {
+  private readonly deviceId: string | undefined;
+  private sequenceTracker: SequenceTracker = new SequenceTracker();
+  private timeline: DeviceTimeline = new DeviceTimeline();
+  private ownsTimeline: boolean = true; // 多设备共用时间轴时由调用方负责重置
+  private throughput: ThroughputMeter = new ThroughputMeter();
+  private chunkFormat: SampleFormat = DEFAULT_SAMPLE_FORMAT;
+  private chunkFormatKey: string | null = null;
+  private sessionStartTime: number = 0;
+  private configMarkers: ConfigMarkerTracker = new ConfigMarkerTracker();
+  private decodePool: DataWorkerPool | null;
+  // 使用 Worker 解码时按到达顺序交付；Worker 出错后改在主线程解码，仍经过同一队列保持顺序
+  private decoded: InOrderDelivery<Float32Array[]> | null;
+
+  constructor(options: ChunkDecoderOptions = {}) {
+    this.deviceId = options.deviceId;
+    this.decodePool = options.decodePool !== undefined ? options.decodePool : getDataWorkerPool();
+    this.decoded = this.decodePool ? new InOrderDelivery() : null;
+  }
+
+  /**
+   * 开始新的采集会话：序号、吞吐量、配置标记从零开始；共用的时间轴不在这里重置
+   */
+  reset(): void {
+    this.sequenceTracker.reset();
+    if (this.ownsTimeline) {
+      this.timeline.reset();
+    }
+    this.chunkFormatKey = null;
+    this.throughput.reset();
+    this.sessionStartTime = performance.now();
+    this.configMarkers.reset();
+  }
+
+  /**
+   * 同一会话内断线后重新订阅：统计和时间轴保留，服务端重新编号时序号检查以新序号为基准
+   */
+  resubscribe(): void {
+    this.sequenceTracker.resubscribe();
+  }
+
+  /**
+   * 统计并解码一块数据，返回序号检查的结果；重复块不解码也不交付
+   * 样本数由 payload 长度确定，解码（可能在 Worker 中）之前就能完成统计
+   */
+  decode(chunk: DataChunk, config: ChunkDecoderConfig, handlers: DecodedChunkHandlers): SequenceEvent {
+    const sampleFormat = this.resolveChunkFormat(chunk, config);
+    const samplesPerChannel = config.channels > 0
+      ? Math.floor(chunk.payload.length / (bytesPerSample(sampleFormat) * config.channels))
+      : 0;
+
+    // 序号连续性检查；重复块直接丢弃，避免同一段数据被显示两次
+    const sequenceEvent = this.sequenceTracker.observe(chunk.seq, samplesPerChannel);
+    if (sequenceEvent.kind === 'duplicate') {
+      console.warn(`收到重复的数据块 seq=${chunk.seq}`);
+      return sequenceEvent;
+    }
+    if (sequenceEvent.kind === 'gap') {
+      console.warn(`数据块丢失: 期望 seq=${sequenceEvent.expected}, 收到 seq=${chunk.seq}, 丢失 ${sequenceEvent.missing} 块`);
+    }
+    if (sequenceEvent.kind === 'restart') {
+      console.warn(`重新订阅后服务端从 seq=${chunk.seq} 重新编号（期望 seq=${sequenceEvent.expected}），断线期间的数据已丢失`);
+    }
+
+    // 按实际到达的字节数统计吞吐量
+    this.throughput.record(chunk.payload.length, samplesPerChannel * config.channels);
+    const throughput = this.throughput.snapshot();
+
+    const configMarker = this.configMarkers.observe(chunk.tags);
+    if (configMarker) {
+      console.log(`配置 rev ${configMarker.revision} 从 seq=${chunk.seq} 第 ${configMarker.sampleOffset} 个样本开始生效`);
+    }
+
+    const metadata: ChunkMetadata = {
+      seq: chunk.seq,
+      timestamp: performance.now() - this.sessionStartTime,
+      tickNs: chunk.tick_ns,
+      deviceId: this.deviceId,
+      timeline: this.timeline.place(chunk.tick_ns),
+      actualDataRate: throughput.megabytesPerSecond,
+      bytesPerSecond: throughput.bytesPerSecond,
+      throughput,
+      sampleRate: config.sampleRate,
+      channels: config.channels,
+      sampleFormat,
+      configMarker: configMarker ?? undefined,
+      sequence: {
+        event: sequenceEvent,
+        stats: this.sequenceTracker.stats
+      }
+    };
+
+    this.deliverDecoded(chunk.payload, config.channels, sampleFormat, metadata, handlers);
+    return sequenceEvent;
+  }
+
+  // 将接收到的数据转换为Float32Array格式后投递
+  private deliverDecoded(
+    payload: Uint8Array,
+    channels: number,
+    sampleFormat: SampleFormat,
+    metadata: ChunkMetadata,
+    handlers: DecodedChunkHandlers
+  ): void {
+    if (!this.decoded) {
+      handlers.data(decodeSamples(payload, channels, sampleFormat), metadata);
+      return;
+    }
+
+    const result = this.decodePool
+      ? this.decodePool.decode(payload, channels, sampleFormat)
+      : Promise.resolve(decodeSamples(payload, channels, sampleFormat));
+    this.decoded.push(
+      result,
+      (data) => {
+        if (handlers.current && !handlers.current()) return;
+        handlers.data(data, metadata);
+      },
+      (error) => {
+        // payload 已转移给 Worker，这一块无法再解码
+        console.error(`Worker 解码 seq=${metadata.seq} 失败，之后改在主线程解码:`, error);
+        this.decodePool = null;
+        handlers.error(error);
+      }
+    );
+  }
+
+  // 块的实际格式：tags 中的 format.* 覆盖请求的格式；tags 不变时复用上次的解析结果
+  private resolveChunkFormat(chunk: DataChunk, config: ChunkDecoderConfig): SampleFormat {
+    const key = Object.values(SAMPLE_FORMAT_TAGS).map(tag => chunk.tags[tag] ?? '').join('|');
+    if (key !== this.chunkFormatKey) {
+      this.chunkFormat = parseSampleFormat(chunk.tags, { ...DEFAULT_SAMPLE_FORMAT, ...config.sampleFormat });
+      this.chunkFormatKey = key;
+    }
+    return this.chunkFormat;
+  }
+
+  // 设置吞吐量统计窗口，已累计的统计会被清空
+  setThroughputOptions(options: Partial<ThroughputMeterOptions>): void {
+    this.throughput = new ThroughputMeter(options);
+  }
+
+  /**
+   * 与其他设备共用设备时钟时间轴；传 null 恢复独立时间轴
+   */
+  useSharedTimeline(timeline: DeviceTimeline | null): void {
+    this.timeline = timeline ?? new DeviceTimeline();
+    this.ownsTimeline = timeline === null;
+  }
+
+  // 不再与 timeline 共用；已改用其他时间轴时不做处理
+  releaseSharedTimeline(timeline: DeviceTimeline): void {
+    if (this.timeline === timeline) {
+      this.useSharedTimeline(null);
+    }
+  }
+
+  get throughputSnapshot(): ThroughputSnapshot {
+    return this.throughput.snapshot();
+  }
+
+  get sequenceStats(): SequenceStats {
+    return this.sequenceTracker.stats;
+  }
+}
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DAQ_HUB_EVENTS, DAQ_HUB_METHODS, hubEventFields, hubMethodParameters } from './daqHubContract';
+
+// 与 daqHubContract.ts 对照的服务端源码
+const HUB_SOURCE_PATH = path.resolve(__dirname, '../../../service/JYTek.DAQ.Service/Hubs/DAQHub.cs');
+const hubSource = fs.readFileSync(HUB_SOURCE_PATH, 'utf8');
+
+// DAQHub 类本身（不含同一文件中的后台服务）
+function hubClassBody(): string {
+  const start = hubSource.indexOf('public class DAQHub : Hub');
+  const end = hubSource.indexOf('\npublic class', start + 1);
+  return hubSource.slice(start, end === -1 ? undefined : end);
+}
+
+// 与 System.Text.Json 的 JsonNamingPolicy.CamelCase 相同的转换
+function camelCase(name: string): string {
+  const chars = name.split('');
+  const isUpper = (ch: string) => ch !== ch.toLowerCase();
+  for (let i = 0; i < chars.length; i++) {
+    if (i === 1 && !isUpper(chars[i])) break;
+    const hasNext = i + 1 < chars.length;
+    if (i > 0 && hasNext && !isUpper(chars[i + 1])) break;
+    chars[i] = chars[i].toLowerCase();
+  }
+  return chars.join('');
+}
+
+function sentEvents(): Set<string> {
+  return new Set(Array.from(hubSource.matchAll(/SendAsync\(\s*"(\w+)"/g), match => match[1]));
+}
+
+// 事件名 → 各处以匿名对象发送时的字段（camelCase）
+function anonymousPayloads(): Map<string, string[][]> {
+  const payloads = new Map<string, string[][]>();
+  for (const match of Array.from(hubSource.matchAll(/SendAsync\(\s*"(\w+)"\s*,\s*new\s*\{([^}]*)\}/g))) {
+    const fields = Array.from(match[2].matchAll(/(\w+)\s*=(?!=)/g), field => camelCase(field[1]));
+    payloads.set(match[1], [...(payloads.get(match[1]) ?? []), fields]);
+  }
+  return payloads;
+}
+
+// 公开的 Hub 方法 → 参数名
+function hubMethods(): Map<string, string[]> {
+  const methods = new Map<string, string[]>();
+  for (const match of Array.from(hubClassBody().matchAll(/public\s+async\s+Task\s+(\w+)\s*\(([^)]*)\)/g))) {
+    const parameters = match[2].split(',')
+      .map(parameter => parameter.split('=')[0].trim())
+      .filter(Boolean)
+      .map(parameter => parameter.split(/\s+/).pop() as string);
+    methods.set(match[1], parameters);
+  }
+  return methods;
+}
+
+describe('DAQHub contract', () => {
+  test('camelCase matches the server naming policy', () => {
+    expect(camelCase('ConnectionId')).toBe('connectionId');
+    expect(camelCase('CPU')).toBe('cpu');
+    expect(camelCase('IsServerGC')).toBe('isServerGC');
+  });
+
+  test('declares exactly the events the hub sends', () => {
+    expect(Array.from(sentEvents()).sort()).toEqual([...DAQ_HUB_EVENTS].sort());
+  });
+
+  test('declares exactly the public hub methods with matching parameters', () => {
+    const methods = hubMethods();
+    expect(Array.from(methods.keys()).sort()).toEqual([...DAQ_HUB_METHODS].sort());
+    DAQ_HUB_METHODS.forEach(method => {
+      expect({ method, parameters: methods.get(method) })
+        .toEqual({ method, parameters: hubMethodParameters(method) });
+    });
+  });
+
+  test('message fields match the anonymous objects built by the hub', () => {
+    const payloads = anonymousPayloads();
+    // 同一事件在多处以相同结构发送时只保留一份
+    const actual = DAQ_HUB_EVENTS.map(event => ({
+      event,
+      payloads: Array.from(new Set((payloads.get(event) ?? []).map(fields => [...fields].sort().join(','))))
+    }));
+    const expected = DAQ_HUB_EVENTS.map(event => {
+      const fields = hubEventFields(event);
+      return { event, payloads: fields === null ? [] : [[...fields].sort().join(',')] };
+    });
+
+    expect(actual).toEqual(expected);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * DAQHub（service/JYTek.DAQ.Service/Hubs/DAQHub.cs）的客户端契约
+ * 服务端使用 SignalR 默认的 JSON 协议，C# 的 PascalCase 属性名序列化为 camelCase，
+ * DateTime 为 ISO 8601 字符串，TimeSpan 按服务端格式化后的字符串传输。
+ * daqHubContract.test.ts 解析 DAQHub.cs，事件、方法、参数或消息字段与这里不一致时测试失败
+ */
+
+// ===== 服务端 → 客户端消息 =====
+
+export interface WelcomeMessage {
+  connectionId: string;
+  serverTime: string;
+  message: string;
+  version: string;
+}
+
+/**
+ * PerformanceMonitorService.GetMetricsSnapshot
+ */
+export interface MetricsSnapshot {
+  startTime: string;
+  lastUpdate: string;
+  dataRate: {
+    totalBytes: number;
+    totalMB: number;
+    rateMBps: number;
+    targetMBps: number;
+    efficiencyPercent: number;
+  };
+  packets: {
+    total: number;
+    rate: number; // 包/秒
+  };
+  latency: {
+    average: number; // ms
+    min: number;
+    max: number;
+    count: number;
+    distribution: {
+      under1ms: number;
+      under5ms: number;
+      under10ms: number;
+      under50ms: number;
+      under100ms: number;
+      over100ms: number;
+    };
+  };
+}
+
+/**
+ * PerformanceMonitorService.GetSystemMetrics；读取失败时只有 error
+ */
+export type SystemMetrics =
+  | {
+    memory: {
+      managedMB: number;
+      workingSetMB: number;
+      gen0Collections: number;
+      gen1Collections: number;
+      gen2Collections: number;
+    };
+    cpu: {
+      totalProcessorTime: string; // hh:mm:ss.fff
+      threadCount: number;
+    };
+    gc: {
+      isServerGC: boolean;
+      latencyMode: string;
+    };
+  }
+  | { error: string };
+
+/**
+ * PerformanceMonitorService.GetMetrics，PerformanceUpdate 的内容
+ */
+export interface PerformanceMetrics {
+  timestamp: string;
+  uptime: string; // dd.hh:mm:ss
+  global: MetricsSnapshot;
+  clients: { [clientId: string]: MetricsSnapshot };
+  system: SystemMetrics;
+}
+
+export interface ClientMetricsUpdateMessage {
+  clientId: string;
+  metrics: MetricsSnapshot | null; // 客户端没有指标记录时为 null
+}
+
+export interface MetricsResetMessage {
+  timestamp: string;
+  requestedBy: string; // 发起重置的连接 ID
+}
+
+/**
+ * SendControlCommand 支持的命令，服务端不区分大小写
+ */
+export type DAQControlCommand = 'start' | 'stop' | 'pause' | 'resume' | 'reset';
+
+/**
+ * start 命令附带的采集参数，服务端原样回传在 CommandResult.parameters 中
+ */
+export interface DAQControlParameters {
+  channels: number;
+  sampleRate: number;
+  bufferSize: number;
+  waveformType: string;
+  amplitude: number;
+  frequency: number;
+}
+
+export interface CommandResultMessage {
+  command: string;
+  success: boolean; // 未知命令返回 false
+  timestamp: string;
+  parameters: DAQControlParameters | null;
+}
+
+export interface SystemStatusChangedMessage {
+  status: string; // 成功执行的命令名，与发送时大小写一致
+  timestamp: string;
+  changedBy: string;
+}
+
+export interface CommandErrorMessage {
+  command: string;
+  error: string;
+  timestamp: string;
+}
+
+export interface HeartbeatResponseMessage {
+  serverTime: string;
+  connectionId: string;
+}
+
+/**
+ * 服务端推送的事件名 → 回调签名
+ */
+export interface DAQHubEvents {
+  Welcome: (message: WelcomeMessage) => void;
+  PerformanceUpdate: (metrics: PerformanceMetrics) => void;
+  ClientMetricsUpdate: (message: ClientMetricsUpdateMessage) => void;
+  MetricsReset: (message: MetricsResetMessage) => void;
+  CommandResult: (message: CommandResultMessage) => void;
+  SystemStatusChanged: (message: SystemStatusChangedMessage) => void;
+  CommandError: (message: CommandErrorMessage) => void;
+  HeartbeatResponse: (message: HeartbeatResponseMessage) => void;
+}
+
+// ===== 客户端 → 服务端方法 =====
+
+/**
+ * 可调用的 Hub 方法 → 参数和返回值；结果都通过事件返回，invoke 本身只返回完成
+ */
+export interface DAQHubMethods {
+  JoinPerformanceGroup: () => void;
+  LeavePerformanceGroup: () => void;
+  GetPerformanceMetrics: () => void; // 结果：PerformanceUpdate（只发给调用方）
+  GetClientMetrics: (clientId: string) => void; // 结果：ClientMetricsUpdate
+  ResetMetrics: () => void; // 通知性能监控组：MetricsReset
+  SendControlCommand: (command: DAQControlCommand, parameters?: DAQControlParameters | null) => void; // 结果：CommandResult / CommandError，成功时广播 SystemStatusChanged
+  Heartbeat: () => void; // 结果：HeartbeatResponse
+  BroadcastPerformanceUpdate: () => void; // 向性能监控组广播 PerformanceUpdate
+}
+
+// ===== 供一致性测试使用的运行时描述 =====
+
+// Record 保证每个事件/方法都登记了，新增时漏写会编译失败
+const EVENT_FIELDS: { [K in keyof DAQHubEvents]: string[] | null } = {
+  Welcome: ['connectionId', 'serverTime', 'message', 'version'] as (keyof WelcomeMessage)[],
+  PerformanceUpdate: null, // 由 PerformanceMonitorService 构造，不是 Hub 中的匿名对象
+  ClientMetricsUpdate: ['clientId', 'metrics'] as (keyof ClientMetricsUpdateMessage)[],
+  MetricsReset: ['timestamp', 'requestedBy'] as (keyof MetricsResetMessage)[],
+  CommandResult: ['command', 'success', 'timestamp', 'parameters'] as (keyof CommandResultMessage)[],
+  SystemStatusChanged: ['status', 'timestamp', 'changedBy'] as (keyof SystemStatusChangedMessage)[],
+  CommandError: ['command', 'error', 'timestamp'] as (keyof CommandErrorMessage)[],
+  HeartbeatResponse: ['serverTime', 'connectionId'] as (keyof HeartbeatResponseMessage)[]
+};
+
+const METHOD_PARAMETERS: { [K in keyof DAQHubMethods]: string[] } = {
+  JoinPerformanceGroup: [],
+  LeavePerformanceGroup: [],
+  GetPerformanceMetrics: [],
+  GetClientMetrics: ['clientId'],
+  ResetMetrics: [],
+  SendControlCommand: ['command', 'parameters'],
+  Heartbeat: [],
+  BroadcastPerformanceUpdate: []
+};
+
+export const DAQ_HUB_EVENTS = Object.keys(EVENT_FIELDS) as (keyof DAQHubEvents)[];
+export const DAQ_HUB_METHODS = Object.keys(METHOD_PARAMETERS) as (keyof DAQHubMethods)[];
+
+/**
+ * 事件消息的字段名；null 表示消息不是在 Hub 中以匿名对象构造的
+ */
+export function hubEventFields(event: keyof DAQHubEvents): string[] | null {
+  return EVENT_FIELDS[event];
+}
+
+export function hubMethodParameters(method: keyof DAQHubMethods): string[] {
+  return METHOD_PARAMETERS[method];
+}
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ControlCommand,
+  decodeAck,
+  decodeControlCmd,
+  decodeDataChunk,
+  decodeDataRequest,
+  encodeAck,
+  encodeControlCmd,
+  encodeDataChunk,
+  encodeDataRequest
+} from './daqProto';
+
+describe('daq.proto wire encoding', () => {
+  test('encodes DataRequest with config map', () => {
+    const bytes = encodeDataRequest({
+      channels: 4,
+      sample_rate: 40_000_000,
+      buffer_size: 100_000,
+      config: { a: 'b' }
+    });
+
+    expect(Array.from(bytes)).toEqual([
+      0x08, 0x04,
+      0x10, 0x80, 0xb4, 0x89, 0x13,
+      0x18, 0xa0, 0x8d, 0x06,
+      0x22, 0x06, 0x0a, 0x01, 0x61, 0x12, 0x01, 0x62
+    ]);
+    expect(decodeDataRequest(bytes)).toEqual({
+      channels: 4,
+      sample_rate: 40_000_000,
+      buffer_size: 100_000,
+      config: { a: 'b' }
+    });
+  });
+
+  test('decodes DataChunk with 64-bit tick_ns and tags', () => {
+    const bytes = new Uint8Array([
+      0x0a, 0x02, 0x01, 0x02,
+      0x10, 0xac, 0x02,
+      0x18, 0x95, 0x9a, 0x97, 0xec, 0xe3, 0x9f, 0xe7, 0xcb, 0x17,
+      0x22, 0x06, 0x0a, 0x01, 0x6b, 0x12, 0x01, 0x76
+    ]);
+
+    const chunk = decodeDataChunk(bytes);
+    expect(Array.from(chunk.payload)).toEqual([1, 2]);
+    expect(chunk.seq).toBe(300);
+    expect(chunk.tick_ns).toBe('1700000000123456789');
+    expect(chunk.tags).toEqual({ k: 'v' });
+    expect(Array.from(encodeDataChunk(chunk))).toEqual(Array.from(bytes));
+  });
+
+  test('skips unknown fields', () => {
+    const bytes = new Uint8Array([0x10, 0x05, 0x2a, 0x02, 0xff, 0xff, 0x38, 0x01]);
+    expect(decodeDataChunk(bytes).seq).toBe(5);
+  });
+
+  test('round-trips ControlCmd and Ack', () => {
+    const cmd = { cmd: ControlCommand.PAUSE, params: { reason: 'user' } };
+    expect(decodeControlCmd(encodeControlCmd(cmd))).toEqual(cmd);
+    expect(Array.from(encodeControlCmd({ cmd: ControlCommand.START, params: {} }))).toEqual([]);
+
+    const ack = { success: true, message: '命令 Pause 执行成功', timestamp: '1752652800000' };
+    expect(decodeAck(encodeAck(ack))).toEqual(ack);
+  });
+
+  test('rejects truncated length-delimited fields', () => {
+    expect(() => decodeDataChunk(new Uint8Array([0x0a, 0x05, 0x01]))).toThrow(/越界/);
+  });
+});
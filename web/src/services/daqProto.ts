@@ -0,0 +1,383 @@
+/**
+ * daq.proto 的 protobuf 编解码
+ * 手写的最小 wire-format 实现，覆盖 DataChunk / DataRequest / ControlCmd / Ack 四个消息，
+ * 避免为四个小消息引入 protoc 代码生成流程
+ */
+
+export interface DataChunk {
+  payload: Uint8Array;
+  seq: number;
+  tick_ns: string; // 使用string因为JavaScript的number精度限制
+  tags: { [key: string]: string };
+}
+
+export interface DataRequest {
+  channels: number;
+  sample_rate: number;
+  buffer_size: number;
+  config: { [key: string]: string };
+}
+
+export interface ControlCmd {
+  cmd: ControlCommand;
+  params: { [key: string]: string };
+}
+
+export enum ControlCommand {
+  START = 0,
+  STOP = 1,
+  PAUSE = 2,
+  RESUME = 3,
+  RESET = 4,
+  CONFIGURE = 5 // 运行中修改 params 中的配置；不支持的服务端返回 success=false
+}
+
+export interface Ack {
+  success: boolean;
+  message: string;
+  timestamp: string;
+}
+
+// protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ProtoWriter {
+  private buffer: Uint8Array;
+  private position: number = 0;
+
+  constructor(initialSize: number = 64) {
+    this.buffer = new Uint8Array(initialSize);
+  }
+
+  private ensureCapacity(extra: number): void {
+    const required = this.position + extra;
+    if (required <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < required) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.position));
+    this.buffer = grown;
+  }
+
+  tag(field: number, wireType: number): void {
+    this.varint(field * 8 + wireType);
+  }
+
+  // 仅用于不超过 2^53 的非负整数
+  varint(value: number): void {
+    this.ensureCapacity(10);
+    while (value > 0x7f) {
+      this.buffer[this.position++] = (value % 128) | 0x80;
+      value = Math.floor(value / 128);
+    }
+    this.buffer[this.position++] = value;
+  }
+
+  // uint64 以十进制字符串传入，经 BigInt 编码以保留完整精度
+  varint64(value: string): void {
+    let big = BigInt(value);
+    const mask = BigInt(0x7f);
+    const shift = BigInt(7);
+    this.ensureCapacity(10);
+    while (big > mask) {
+      this.buffer[this.position++] = Number(big & mask) | 0x80;
+      big >>= shift;
+    }
+    this.buffer[this.position++] = Number(big);
+  }
+
+  bytes(value: Uint8Array): void {
+    this.varint(value.length);
+    this.ensureCapacity(value.length);
+    this.buffer.set(value, this.position);
+    this.position += value.length;
+  }
+
+  string(value: string): void {
+    this.bytes(textEncoder.encode(value));
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.position);
+  }
+}
+
+class ProtoReader {
+  private readonly buffer: Uint8Array;
+  position: number;
+  readonly end: number;
+
+  constructor(buffer: Uint8Array, start: number = 0, end: number = buffer.length) {
+    this.buffer = buffer;
+    this.position = start;
+    this.end = end;
+  }
+
+  get done(): boolean {
+    return this.position >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 10; i++) {
+      if (this.position >= this.end) {
+        throw new Error(`protobuf varint 越界 (offset ${this.position})`);
+      }
+      const byte = this.buffer[this.position++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+    throw new Error(`protobuf varint 过长 (offset ${this.position})`);
+  }
+
+  varint64(): string {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    const seven = BigInt(7);
+    for (let i = 0; i < 10; i++) {
+      if (this.position >= this.end) {
+        throw new Error(`protobuf varint 越界 (offset ${this.position})`);
+      }
+      const byte = this.buffer[this.position++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result.toString();
+      shift += seven;
+    }
+    throw new Error(`protobuf varint 过长 (offset ${this.position})`);
+  }
+
+  // 返回底层缓冲区的视图，不复制数据
+  bytes(): Uint8Array {
+    const length = this.varint();
+    const start = this.position;
+    if (start + length > this.end) {
+      throw new Error(`protobuf 长度字段越界 (offset ${start}, length ${length})`);
+    }
+    this.position += length;
+    return this.buffer.subarray(start, start + length);
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytes());
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.position += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.bytes();
+        break;
+      case WIRE_FIXED32:
+        this.position += 4;
+        break;
+      default:
+        throw new Error(`不支持的 protobuf wire type ${wireType} (offset ${this.position})`);
+    }
+    if (this.position > this.end) {
+      throw new Error(`protobuf 字段越界 (offset ${this.position})`);
+    }
+  }
+}
+
+function writeStringMap(writer: ProtoWriter, field: number, map: { [key: string]: string }): void {
+  Object.keys(map).forEach(key => {
+    const entry = new ProtoWriter(key.length + map[key].length + 8);
+    entry.tag(1, WIRE_LENGTH_DELIMITED);
+    entry.string(key);
+    entry.tag(2, WIRE_LENGTH_DELIMITED);
+    entry.string(map[key]);
+    writer.tag(field, WIRE_LENGTH_DELIMITED);
+    writer.bytes(entry.finish());
+  });
+}
+
+function readStringMapEntry(reader: ProtoReader, map: { [key: string]: string }): void {
+  const entry = reader.bytes();
+  const entryReader = new ProtoReader(entry);
+  let key = '';
+  let value = '';
+  while (!entryReader.done) {
+    const tag = entryReader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      key = entryReader.string();
+    } else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) {
+      value = entryReader.string();
+    } else {
+      entryReader.skip(wireType);
+    }
+  }
+  map[key] = value;
+}
+
+function isZeroUint64(value: string): boolean {
+  return value === '' || value === '0';
+}
+
+export function encodeDataChunk(chunk: DataChunk): Uint8Array {
+  const writer = new ProtoWriter(chunk.payload.length + 64);
+  if (chunk.payload.length > 0) {
+    writer.tag(1, WIRE_LENGTH_DELIMITED);
+    writer.bytes(chunk.payload);
+  }
+  if (chunk.seq !== 0) {
+    writer.tag(2, WIRE_VARINT);
+    writer.varint(chunk.seq);
+  }
+  if (!isZeroUint64(chunk.tick_ns)) {
+    writer.tag(3, WIRE_VARINT);
+    writer.varint64(chunk.tick_ns);
+  }
+  writeStringMap(writer, 4, chunk.tags);
+  return writer.finish();
+}
+
+export function decodeDataChunk(data: Uint8Array): DataChunk {
+  const reader = new ProtoReader(data);
+  const chunk: DataChunk = { payload: new Uint8Array(0), seq: 0, tick_ns: '0', tags: {} };
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      chunk.payload = reader.bytes();
+    } else if (field === 2 && wireType === WIRE_VARINT) {
+      chunk.seq = reader.varint() >>> 0;
+    } else if (field === 3 && wireType === WIRE_VARINT) {
+      chunk.tick_ns = reader.varint64();
+    } else if (field === 4 && wireType === WIRE_LENGTH_DELIMITED) {
+      readStringMapEntry(reader, chunk.tags);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return chunk;
+}
+
+export function encodeDataRequest(request: DataRequest): Uint8Array {
+  const writer = new ProtoWriter();
+  if (request.channels !== 0) {
+    writer.tag(1, WIRE_VARINT);
+    writer.varint(request.channels);
+  }
+  if (request.sample_rate !== 0) {
+    writer.tag(2, WIRE_VARINT);
+    writer.varint(request.sample_rate);
+  }
+  if (request.buffer_size !== 0) {
+    writer.tag(3, WIRE_VARINT);
+    writer.varint(request.buffer_size);
+  }
+  writeStringMap(writer, 4, request.config);
+  return writer.finish();
+}
+
+export function decodeDataRequest(data: Uint8Array): DataRequest {
+  const reader = new ProtoReader(data);
+  const request: DataRequest = { channels: 0, sample_rate: 0, buffer_size: 0, config: {} };
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (field === 1 && wireType === WIRE_VARINT) {
+      request.channels = reader.varint() >>> 0;
+    } else if (field === 2 && wireType === WIRE_VARINT) {
+      request.sample_rate = reader.varint() >>> 0;
+    } else if (field === 3 && wireType === WIRE_VARINT) {
+      request.buffer_size = reader.varint() >>> 0;
+    } else if (field === 4 && wireType === WIRE_LENGTH_DELIMITED) {
+      readStringMapEntry(reader, request.config);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return request;
+}
+
+export function encodeControlCmd(cmd: ControlCmd): Uint8Array {
+  const writer = new ProtoWriter();
+  if (cmd.cmd !== ControlCommand.START) {
+    writer.tag(1, WIRE_VARINT);
+    writer.varint(cmd.cmd);
+  }
+  writeStringMap(writer, 2, cmd.params);
+  return writer.finish();
+}
+
+export function decodeControlCmd(data: Uint8Array): ControlCmd {
+  const reader = new ProtoReader(data);
+  const cmd: ControlCmd = { cmd: ControlCommand.START, params: {} };
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (field === 1 && wireType === WIRE_VARINT) {
+      cmd.cmd = reader.varint() as ControlCommand;
+    } else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) {
+      readStringMapEntry(reader, cmd.params);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return cmd;
+}
+
+export function encodeAck(ack: Ack): Uint8Array {
+  const writer = new ProtoWriter();
+  if (ack.success) {
+    writer.tag(1, WIRE_VARINT);
+    writer.varint(1);
+  }
+  if (ack.message !== '') {
+    writer.tag(2, WIRE_LENGTH_DELIMITED);
+    writer.string(ack.message);
+  }
+  if (!isZeroUint64(ack.timestamp)) {
+    writer.tag(3, WIRE_VARINT);
+    writer.varint64(ack.timestamp);
+  }
+  return writer.finish();
+}
+
+export function decodeAck(data: Uint8Array): Ack {
+  const reader = new ProtoReader(data);
+  const ack: Ack = { success: false, message: '', timestamp: '0' };
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (field === 1 && wireType === WIRE_VARINT) {
+      ack.success = reader.varint() !== 0;
+    } else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) {
+      ack.message = reader.string();
+    } else if (field === 3 && wireType === WIRE_VARINT) {
+      ack.timestamp = reader.varint64();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return ack;
+}
@@ -0,0 +1,134 @@
+/**
+ * 数据源抽象
+ * 模拟数据、真实设备以及后续的文件回放等数据源都实现同一个接口，
+ * 界面只通过 DataSource 控制采集，不关心数据从哪里来
+ */
+
+import { MockConfig } from '../utils/mockDataGenerator';
+import { ChunkTimeline } from '../utils/deviceTimeline';
+import { SequenceMetadata } from '../utils/sequenceTracker';
+import { ThroughputSnapshot } from '../utils/throughputMeter';
+import { SampleFormat } from '../utils/sampleFormat';
+import { ConfigMarker } from '../utils/liveConfig';
+import { FaultMetadata } from '../utils/faultInjection';
+import { ClientMetricsUpdateMessage, HubConnectionEvent, MetricsResetMessage, PerformanceMetrics } from './signalrClient';
+import { StreamConnectionEvent } from './reconnectPolicy';
+import { AcquisitionState, AcquisitionStateMachine } from './acquisitionState';
+import { TypedEventEmitter } from '../utils/typedEventEmitter';
+
+/**
+ * 每个数据块附带的元数据，所有数据源输出相同的结构
+ */
+export interface ChunkMetadata {
+  deviceId?: string; // 多设备会话中产生本块的设备
+  seq: number;
+  timestamp: number; // 收到（或生成）本块时距会话开始的毫秒数
+  tickNs: string; // 本块第一个样本的设备时间 (ns)
+  timeline: ChunkTimeline;
+  actualDataRate: number; // 实测 MB/s
+  bytesPerSecond: number;
+  throughput: ThroughputSnapshot;
+  sequence: SequenceMetadata;
+  sampleRate?: number;
+  channels?: number;
+  sampleFormat?: SampleFormat; // 真实数据源：本块实际使用的采样格式
+  generationTime?: number; // 模拟数据源：生成本块耗时 (ms)
+  frameCount?: number;
+  configMarker?: ConfigMarker; // 在线修改的配置从本块的这个样本开始生效
+  faults?: FaultMetadata; // 模拟数据源：启用故障注入时本块注入的故障和累计统计
+}
+
+export type ConfigUpdateMode =
+  | 'live' // 未中断数据流，新配置从数据流中的 configMarker 处生效
+  | 'restart' // 需要重启数据流（结构性参数，或服务端不支持在线修改）
+  | 'deferred'; // 当前未在采集，下次 start 时生效
+
+export interface ConfigUpdateResult {
+  mode: ConfigUpdateMode;
+  revision?: number; // live: 本次修改的配置版本号
+  message?: string; // 服务端 Ack.message 或回退到重启的原因
+}
+
+export type DataCallback = (data: Float32Array[], metadata: ChunkMetadata) => void;
+
+export type DataSourceEvent =
+  | { type: 'connection'; connection: StreamConnectionEvent; deviceId?: string }
+  | { type: 'hubConnection'; connection: HubConnectionEvent; deviceId?: string }
+  | { type: 'serverMetrics'; metrics: PerformanceMetrics; deviceId?: string }
+  | { type: 'clientMetrics'; message: ClientMetricsUpdateMessage; deviceId?: string }
+  | { type: 'metricsReset'; message: MetricsResetMessage; deviceId?: string }
+  | { type: 'error'; error: Error; deviceId?: string };
+
+export type DataSourceListener = (event: DataSourceEvent) => void;
+
+export interface DataSource {
+  readonly kind: string;
+  readonly label: string; // 界面上显示的数据源名称
+  readonly remote: boolean; // 是否经网络连接设备；本地数据源没有连接/重连状态
+  readonly acquisition: AcquisitionStateMachine; // 采集状态，界面通过 useAcquisitionState 订阅
+  readonly state: AcquisitionState;
+
+  start(config: MockConfig, onData: DataCallback): Promise<void>;
+  stop(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  /**
+   * 修改配置；能在线生效的参数不中断数据流
+   */
+  updateConfig(config: Partial<MockConfig>): Promise<ConfigUpdateResult>;
+  dispose(): Promise<void>;
+  /**
+   * 重置服务端性能指标；只有连接服务端的数据源提供，未指定设备时重置所有设备
+   */
+  resetServerMetrics?(deviceId?: string): Promise<void>;
+  /**
+   * 请求服务端某个客户端的指标，结果通过 clientMetrics 事件返回
+   */
+  requestClientMetrics?(clientId: string, deviceId?: string): Promise<void>;
+
+  /**
+   * 订阅连接、服务端指标和错误事件，返回取消订阅的函数
+   */
+  onEvent(listener: DataSourceListener): () => void;
+}
+
+/**
+ * 数据源公共部分：采集状态机和事件分发
+ */
+export abstract class BaseDataSource implements DataSource {
+  abstract readonly kind: string;
+  abstract readonly label: string;
+  abstract readonly remote: boolean;
+
+  readonly acquisition: AcquisitionStateMachine;
+  private events = new TypedEventEmitter<{ event: DataSourceListener }>('DataSource');
+
+  constructor(acquisition: AcquisitionStateMachine = new AcquisitionStateMachine()) {
+    this.acquisition = acquisition;
+  }
+
+  abstract start(config: MockConfig, onData: DataCallback): Promise<void>;
+  abstract stop(): Promise<void>;
+  abstract pause(): Promise<void>;
+  abstract resume(): Promise<void>;
+  abstract updateConfig(config: Partial<MockConfig>): Promise<ConfigUpdateResult>;
+
+  async dispose(): Promise<void> {
+    if (this.acquisition.state !== 'idle') {
+      await this.stop();
+    }
+    this.events.removeAllListeners();
+  }
+
+  get state(): AcquisitionState {
+    return this.acquisition.state;
+  }
+
+  onEvent(listener: DataSourceListener): () => void {
+    return this.events.on('event', listener);
+  }
+
+  protected emit(event: DataSourceEvent): void {
+    this.events.emit('event', event);
+  }
+}
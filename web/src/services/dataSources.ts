@@ -0,0 +1,32 @@
+import { DataSource } from './dataSource';
+import { MockDataSource } from './mockDataSource';
+import { LoopbackDataSource } from './loopbackDataSource';
+import { RealDataSource } from './realDataSource';
+import { DeviceEntry, deviceRegistry } from './deviceRegistry';
+
+export interface DataSourceOptions {
+  deviceIds?: string[]; // 参与采集的设备，默认为注册表中当前选中的设备
+}
+
+/**
+ * 可选数据源的注册表；新增数据源只需在这里登记工厂函数
+ */
+export const DATA_SOURCE_FACTORIES: Record<string, (options: DataSourceOptions) => DataSource> = {
+  mock: () => new MockDataSource(640),
+  loopback: () => new LoopbackDataSource(640),
+  real: ({ deviceIds }) => new RealDataSource(
+    deviceIds
+      ? deviceIds
+        .map(id => deviceRegistry.get(id))
+        .filter((entry): entry is DeviceEntry => entry !== undefined)
+      : deviceRegistry.selectedDevices()
+  )
+};
+
+export function createDataSource(kind: string, options: DataSourceOptions = {}): DataSource {
+  const factory = DATA_SOURCE_FACTORIES[kind];
+  if (!factory) {
+    throw new Error(`未知的数据源类型: ${kind}`);
+  }
+  return factory(options);
+}
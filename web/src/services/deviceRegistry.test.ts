@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+import { DeviceRegistry, normalizeBaseUrl } from './deviceRegistry';
+
+describe('normalizeBaseUrl', () => {
+  it('trims whitespace and trailing slashes', () => {
+    expect(normalizeBaseUrl(' http://192.168.1.20:5000/ ')).toBe('http://192.168.1.20:5000');
+  });
+
+  it('rejects invalid and non-http addresses', () => {
+    expect(() => normalizeBaseUrl('not a url')).toThrow('无效的设备地址');
+    expect(() => normalizeBaseUrl('ftp://192.168.1.20')).toThrow('http 或 https');
+  });
+});
+
+describe('DeviceRegistry', () => {
+  it('creates a service per device and selects new devices', () => {
+    const registry = new DeviceRegistry();
+    const first = registry.add({ name: 'Chassis A', baseUrl: 'http://10.0.0.1:5000' });
+    const second = registry.add({ name: 'Chassis A', baseUrl: 'http://10.0.0.2:5000' });
+
+    expect(first.id).toBe('chassis-a');
+    expect(second.id).toBe('chassis-a-2');
+    expect(first.service).not.toBe(second.service);
+    expect(first.service.deviceId).toBe('chassis-a');
+    expect(registry.selectedIds).toEqual(['chassis-a', 'chassis-a-2']);
+  });
+
+  it('rejects duplicate ids and addresses', () => {
+    const registry = new DeviceRegistry();
+    registry.add({ id: 'a', name: 'A', baseUrl: 'http://10.0.0.1:5000' });
+
+    expect(() => registry.add({ id: 'a', name: 'B', baseUrl: 'http://10.0.0.2:5000' })).toThrow('已存在');
+    expect(() => registry.add({ name: 'C', baseUrl: 'http://10.0.0.1:5000/' })).toThrow('已被其他设备使用');
+    expect(registry.list()).toHaveLength(1);
+  });
+
+  it('keeps the selection in registration order and notifies only on change', () => {
+    const registry = new DeviceRegistry();
+    registry.add({ id: 'a', name: 'A', baseUrl: 'http://10.0.0.1:5000' });
+    registry.add({ id: 'b', name: 'B', baseUrl: 'http://10.0.0.2:5000' });
+    const changes: string[][] = [];
+    registry.on('selectionChanged', ids => changes.push(ids));
+
+    registry.select('a', false);
+    registry.select('a', true);
+    registry.select('b', true);
+    registry.select('missing', true);
+
+    expect(changes).toEqual([['b'], ['a', 'b']]);
+    expect(registry.selectedDevices().map(device => device.id)).toEqual(['a', 'b']);
+  });
+
+  it('removes a device from the list and the selection', async () => {
+    const registry = new DeviceRegistry();
+    const entry = registry.add({ id: 'a', name: 'A', baseUrl: 'http://10.0.0.1:5000' });
+    const dispose = jest.spyOn(entry.service, 'dispose');
+
+    await registry.remove('a');
+
+    expect(registry.get('a')).toBeUndefined();
+    expect(registry.selectedIds).toEqual([]);
+    expect(dispose).toHaveBeenCalled();
+  });
+});
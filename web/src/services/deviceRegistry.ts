@@ -0,0 +1,140 @@
+/**
+ * 设备（机箱）注册表
+ * 每台设备有自己的服务地址、gRPC/SignalR 客户端和 RealDataService 实例，
+ * 可以同时观察多台机箱
+ */
+
+import { DAQGrpcClient, grpcClient } from './grpcClient';
+import { DAQSignalRClient, signalrClient } from './signalrClient';
+import { RealDataService, realDataService } from './realDataService';
+import { Disposer, TypedEventEmitter } from '../utils/typedEventEmitter';
+import { DEFAULT_RUNTIME_CONFIG, getRuntimeConfig, normalizeBaseUrl } from './runtimeConfig';
+
+export { normalizeBaseUrl } from './runtimeConfig';
+
+export interface DeviceDescriptor {
+  id: string;
+  name: string;
+  baseUrl: string; // DAQ 服务地址，例如 http://192.168.1.20:5000
+}
+
+export interface DeviceEntry extends DeviceDescriptor {
+  grpc: DAQGrpcClient;
+  signalr: DAQSignalRClient;
+  service: RealDataService;
+}
+
+export interface DeviceRegistryEvents {
+  changed: (devices: DeviceDescriptor[]) => void; // 设备增删
+  selectionChanged: (selectedIds: string[]) => void; // 参与采集的设备变化
+}
+
+export const DEFAULT_DEVICE: DeviceDescriptor = {
+  id: 'local',
+  name: 'Local DAQ',
+  baseUrl: DEFAULT_RUNTIME_CONFIG.serviceUrl
+};
+
+export class DeviceRegistry {
+  private devices: Map<string, DeviceEntry> = new Map();
+  private selected: string[] = [];
+  private events = new TypedEventEmitter<DeviceRegistryEvents>('DeviceRegistry');
+
+  /**
+   * 登记一台设备；未提供客户端时按 baseUrl 新建，并默认选中
+   */
+  add(
+    device: Omit<DeviceDescriptor, 'id'> & { id?: string },
+    clients?: Pick<DeviceEntry, 'grpc' | 'signalr' | 'service'>
+  ): DeviceEntry {
+    const baseUrl = normalizeBaseUrl(device.baseUrl);
+    const name = device.name.trim() || baseUrl;
+    const id = device.id ?? this.uniqueId(name);
+    if (this.devices.has(id)) {
+      throw new Error(`设备 ${id} 已存在`);
+    }
+    if (this.list().some(existing => existing.baseUrl === baseUrl)) {
+      throw new Error(`地址 ${baseUrl} 已被其他设备使用`);
+    }
+
+    const grpc = clients?.grpc ?? new DAQGrpcClient(baseUrl);
+    const signalr = clients?.signalr ?? new DAQSignalRClient(baseUrl);
+    const service = clients?.service ?? new RealDataService({ deviceId: id, grpc, signalr });
+    const entry: DeviceEntry = { id, name, baseUrl, grpc, signalr, service };
+
+    this.devices.set(id, entry);
+    this.events.emit('changed', this.list());
+    this.setSelected([...this.selected, id]);
+    return entry;
+  }
+
+  /**
+   * 移除设备并释放它的连接
+   */
+  async remove(id: string): Promise<void> {
+    const entry = this.devices.get(id);
+    if (!entry) return;
+
+    this.devices.delete(id);
+    this.events.emit('changed', this.list());
+    this.setSelected(this.selected.filter(selectedId => selectedId !== id));
+    await entry.service.dispose();
+  }
+
+  get(id: string): DeviceEntry | undefined {
+    return this.devices.get(id);
+  }
+
+  list(): DeviceDescriptor[] {
+    return Array.from(this.devices.values()).map(({ id, name, baseUrl }) => ({ id, name, baseUrl }));
+  }
+
+  get selectedIds(): string[] {
+    return this.selected;
+  }
+
+  // 当前选中的设备，按登记顺序
+  selectedDevices(): DeviceEntry[] {
+    return Array.from(this.devices.values()).filter(entry => this.selected.includes(entry.id));
+  }
+
+  select(id: string, selected: boolean): void {
+    if (!this.devices.has(id)) return;
+    const others = this.selected.filter(selectedId => selectedId !== id);
+    this.setSelected(selected ? [...others, id] : others);
+  }
+
+  on<K extends keyof DeviceRegistryEvents>(event: K, listener: DeviceRegistryEvents[K]): Disposer {
+    return this.events.on(event, listener);
+  }
+
+  private setSelected(ids: string[]): void {
+    const next = Array.from(this.devices.keys()).filter(id => ids.includes(id));
+    if (next.length === this.selected.length && next.every((id, i) => id === this.selected[i])) return;
+    this.selected = next;
+    this.events.emit('selectionChanged', this.selected);
+  }
+
+  private uniqueId(name: string): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'device';
+    let id = base;
+    for (let i = 2; this.devices.has(id); i++) {
+      id = `${base}-${i}`;
+    }
+    return id;
+  }
+}
+
+// 单例实例；默认设备沿用原有的单例客户端，地址和额外设备来自运行时配置
+export const deviceRegistry = new DeviceRegistry();
+deviceRegistry.add(
+  { ...DEFAULT_DEVICE, baseUrl: getRuntimeConfig().serviceUrl },
+  { grpc: grpcClient, signalr: signalrClient, service: realDataService }
+);
+getRuntimeConfig().devices.forEach(device => {
+  try {
+    deviceRegistry.select(deviceRegistry.add(device).id, false);
+  } catch (error) {
+    console.error('登记运行时配置中的设备失败:', error);
+  }
+});
@@ -0,0 +1,218 @@
+/**
+ * @jest-environment node
+ */
+
+import { DAQGrpcClient, DataChunk, DataRequest, GrpcStatusCode, GrpcWebError, SubscriptionState } from './grpcClient';
+import { encodeDataChunk } from './daqProto';
+import { encodeGrpcWebFrame, encodeGrpcWebTrailers } from './grpcWeb';
+
+const request: DataRequest = { channels: 1, sample_rate: 1000, buffer_size: 4, config: {} };
+
+function chunkFrame(seq: number): Uint8Array {
+  return encodeGrpcWebFrame(encodeDataChunk({ payload: new Uint8Array(8), seq, tick_ns: '0', tags: {} }));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 可控的 fetch：测试逐段推送响应体，请求被中止时挂起的 fetch/read 以 AbortError 失败
+ */
+class FakeStream {
+  readonly fetch = jest.fn((url: string, init: RequestInit) => {
+    this.signal = init.signal as AbortSignal;
+    this.signal.addEventListener('abort', () => this.fail(abortError()));
+    return new Promise<Response>((resolve, reject) => {
+      this.respond = () => resolve({
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        body: { getReader: () => this.reader }
+      } as unknown as Response);
+      this.rejectFetch = reject;
+    });
+  });
+
+  readonly reader = {
+    read: () => new Promise<ReadableStreamReadResult<Uint8Array>>((resolve, reject) => {
+      if (this.signal?.aborted) {
+        reject(abortError());
+      } else if (this.queued.length > 0) {
+        resolve(this.queued.shift() as ReadableStreamReadResult<Uint8Array>);
+      } else {
+        this.pendingRead = { resolve, reject };
+      }
+    }),
+    cancel: jest.fn(async () => undefined)
+  };
+
+  signal: AbortSignal | null = null;
+  respond: () => void = () => undefined;
+  private rejectFetch: (error: Error) => void = () => undefined;
+  private queued: ReadableStreamReadResult<Uint8Array>[] = [];
+  private pendingRead: { resolve: (result: ReadableStreamReadResult<Uint8Array>) => void; reject: (error: Error) => void } | null = null;
+
+  push(bytes: Uint8Array): void {
+    this.deliver({ done: false, value: bytes });
+  }
+
+  end(): void {
+    this.deliver({ done: true, value: undefined });
+  }
+
+  private deliver(result: ReadableStreamReadResult<Uint8Array>): void {
+    const pending = this.pendingRead;
+    this.pendingRead = null;
+    if (pending) pending.resolve(result);
+    else this.queued.push(result);
+  }
+
+  private fail(error: Error): void {
+    this.rejectFetch(error);
+    const pending = this.pendingRead;
+    this.pendingRead = null;
+    pending?.reject(error);
+  }
+}
+
+// 等待挂起的 Promise 回调执行完
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+let stream: FakeStream;
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  stream = new FakeStream();
+  globalThis.fetch = stream.fetch as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('DAQGrpcClient.subscribeToDataStream', () => {
+  test('moves from connecting to streaming to ended and resolves closed', async () => {
+    const client = new DAQGrpcClient('http://daq:5000', { connectTimeoutMs: 5000 });
+    const seqs: number[] = [];
+    const onError = jest.fn();
+    const onEnd = jest.fn();
+    const subscription = client.subscribeToDataStream(request, chunk => seqs.push(chunk.seq), onError, onEnd);
+    const states: SubscriptionState[] = [subscription.state];
+
+    stream.respond();
+    stream.push(concat(chunkFrame(0), chunkFrame(1)));
+    await flush();
+    states.push(subscription.state);
+
+    stream.push(encodeGrpcWebTrailers({ 'grpc-status': '0' }));
+    stream.end();
+    await subscription.closed;
+    states.push(subscription.state);
+
+    expect(stream.fetch).toHaveBeenCalledWith('http://daq:5000/daq.DAQStream/Subscribe', expect.objectContaining({ method: 'POST' }));
+    expect(states).toEqual(['connecting', 'streaming', 'ended']);
+    expect(seqs).toEqual([0, 1]);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  test('cancel() aborts the fetch and no callback fires afterwards', async () => {
+    const client = new DAQGrpcClient('http://daq:5000');
+    const onData = jest.fn();
+    const onError = jest.fn();
+    const onEnd = jest.fn();
+    const subscription = client.subscribeToDataStream(request, onData, onError, onEnd);
+
+    stream.respond();
+    stream.push(chunkFrame(0));
+    await flush();
+    subscription.cancel();
+    expect(subscription.state).toBe('cancelled');
+    expect(stream.signal?.aborted).toBe(true);
+
+    // 中止后到达的数据和流结束都不再投递
+    stream.push(chunkFrame(1));
+    stream.end();
+    await expect(subscription.closed).resolves.toBeUndefined();
+
+    expect(onData).toHaveBeenCalledTimes(1);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onEnd).not.toHaveBeenCalled();
+    expect(subscription.state).toBe('cancelled');
+  });
+
+  test('stops delivering the rest of a read when cancelled from inside onData', async () => {
+    const client = new DAQGrpcClient('http://daq:5000');
+    const seqs: number[] = [];
+    const subscription = client.subscribeToDataStream(request, (chunk: DataChunk) => {
+      seqs.push(chunk.seq);
+      subscription.cancel();
+    });
+
+    stream.respond();
+    stream.push(concat(chunkFrame(0), chunkFrame(1), chunkFrame(2)));
+    await subscription.closed;
+
+    expect(seqs).toEqual([0]);
+    expect(subscription.state).toBe('cancelled');
+  });
+
+  test('cancelling while connecting aborts the pending fetch without an error', async () => {
+    const client = new DAQGrpcClient('http://daq:5000');
+    const onError = jest.fn();
+    const subscription = client.subscribeToDataStream(request, () => undefined, onError);
+
+    subscription.cancel();
+    await subscription.closed;
+
+    expect(stream.signal?.aborted).toBe(true);
+    expect(subscription.state).toBe('cancelled');
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  test('fails on an error trailer and still resolves closed', async () => {
+    const client = new DAQGrpcClient('http://daq:5000');
+    const onError = jest.fn();
+    const subscription = client.subscribeToDataStream(request, () => undefined, onError);
+
+    stream.respond();
+    stream.push(encodeGrpcWebTrailers({ 'grpc-status': String(GrpcStatusCode.UNAVAILABLE), 'grpc-message': 'down' }));
+    await expect(subscription.closed).resolves.toBeUndefined();
+
+    expect(subscription.state).toBe('failed');
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(GrpcWebError);
+    expect((onError.mock.calls[0][0] as GrpcWebError).code).toBe(GrpcStatusCode.UNAVAILABLE);
+
+    // 已经结束的订阅再 cancel 不改变状态
+    subscription.cancel();
+    expect(subscription.state).toBe('failed');
+  });
+
+  test('reports DEADLINE_EXCEEDED when the response headers do not arrive in time', async () => {
+    const client = new DAQGrpcClient('http://daq:5000', { connectTimeoutMs: 10 });
+    const onError = jest.fn();
+    const subscription = client.subscribeToDataStream(request, () => undefined, onError);
+
+    await subscription.closed;
+
+    expect(stream.signal?.aborted).toBe(true);
+    expect(subscription.state).toBe('failed');
+    expect((onError.mock.calls[0][0] as GrpcWebError).code).toBe(GrpcStatusCode.DEADLINE_EXCEEDED);
+  });
+});
@@ -1,154 +1,274 @@
-// 手动定义protobuf消息类型，因为我们没有生成的代码
-export interface DataChunk {
-  payload: Uint8Array;
-  seq: number;
-  tick_ns: string; // 使用string因为JavaScript的number精度限制
-  tags: { [key: string]: string };
-}
+import {
+  DataChunk,
+  DataRequest,
+  ControlCmd,
+  Ack,
+  encodeDataRequest,
+  encodeControlCmd,
+  decodeDataChunk,
+  decodeAck
+} from './daqProto';
+import {
+  GRPC_WEB_CONTENT_TYPE,
+  GrpcStatusCode,
+  GrpcWebError,
+  GrpcWebFrameParser,
+  decodeGrpcWebFrames,
+  encodeGrpcWebFrame,
+  grpcErrorFromHeaders,
+  grpcErrorFromTrailers,
+  parseGrpcWebTrailers
+} from './grpcWeb';
+import { getRuntimeConfig } from './runtimeConfig';
 
-export interface DataRequest {
-  channels: number;
-  sample_rate: number;
-  buffer_size: number;
-  config: { [key: string]: string };
-}
+export type { DataChunk, DataRequest, ControlCmd, Ack } from './daqProto';
+export { ControlCommand } from './daqProto';
+export { GrpcWebError, GrpcWebFrameError, GrpcStatusCode } from './grpcWeb';
 
-export interface ControlCmd {
-  cmd: ControlCommand;
-  params: { [key: string]: string };
+export interface GrpcClientOptions {
+  connectTimeoutMs?: number; // Subscribe 等待响应头的时间
+  requestTimeoutMs?: number; // Control 一元调用的截止时间
 }
 
-export enum ControlCommand {
-  START = 0,
-  STOP = 1,
-  PAUSE = 2,
-  RESUME = 3,
-  RESET = 4
+export type SubscriptionState = 'connecting' | 'streaming' | 'cancelled' | 'ended' | 'failed';
+
+/**
+ * Subscribe 数据流的句柄
+ * cancel() 之后不会再有任何 onData/onError/onEnd 回调；closed 在底层 fetch 和读取循环
+ * 全部结束后 resolve（从不 reject）
+ */
+export interface DataStreamSubscription {
+  readonly state: SubscriptionState;
+  readonly closed: Promise<void>;
+  cancel(): void;
 }
 
-export interface Ack {
-  success: boolean;
-  message: string;
-  timestamp: string;
+class StreamSubscription implements DataStreamSubscription {
+  private readonly controller = new AbortController();
+  private currentState: SubscriptionState = 'connecting';
+  private closedPromise: Promise<void> = Promise.resolve();
+
+  attach(run: Promise<void>): void {
+    this.closedPromise = run.then(() => undefined, () => undefined);
+  }
+
+  markStreaming(): void {
+    if (this.currentState === 'connecting') {
+      this.currentState = 'streaming';
+    }
+  }
+
+  settle(state: 'ended' | 'failed'): void {
+    if (!this.isCancelled) {
+      this.currentState = state;
+    }
+  }
+
+  // 建立连接超时：中止请求但不算主动取消，调用方会收到 onError
+  abortConnect(): void {
+    if (this.currentState === 'connecting') {
+      this.controller.abort();
+    }
+  }
+
+  cancel(): void {
+    if (this.currentState === 'connecting' || this.currentState === 'streaming') {
+      this.currentState = 'cancelled';
+      this.controller.abort();
+    }
+  }
+
+  get isCancelled(): boolean {
+    return this.currentState === 'cancelled';
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get state(): SubscriptionState {
+    return this.currentState;
+  }
+
+  get closed(): Promise<void> {
+    return this.closedPromise;
+  }
 }
 
 // gRPC-Web客户端类
 export class DAQGrpcClient {
   private baseUrl: string;
+  private connectTimeoutMs: number;
+  private requestTimeoutMs: number;
 
-  constructor(baseUrl: string = 'http://localhost:5000') {
+  constructor(baseUrl: string = getRuntimeConfig().serviceUrl, options: GrpcClientOptions = {}) {
+    const { timeouts } = getRuntimeConfig();
     this.baseUrl = baseUrl;
+    this.connectTimeoutMs = options.connectTimeoutMs ?? timeouts.connectMs;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? timeouts.requestMs;
   }
 
-  // 订阅数据流
-  async subscribeToDataStream(
+  // 订阅数据流，立即返回可取消的订阅句柄
+  subscribeToDataStream(
     request: DataRequest,
     onData: (chunk: DataChunk) => void,
     onError?: (error: Error) => void,
     onEnd?: () => void
+  ): DataStreamSubscription {
+    const subscription = new StreamSubscription();
+    subscription.attach(this.runDataStream(request, subscription, onData, onError, onEnd));
+    return subscription;
+  }
+
+  private async runDataStream(
+    request: DataRequest,
+    subscription: StreamSubscription,
+    onData: (chunk: DataChunk) => void,
+    onError?: (error: Error) => void,
+    onEnd?: () => void
   ): Promise<void> {
+    // 数据流没有截止时间，只限制等待响应头的时间
+    let connectTimedOut = false;
+    const connectTimer = setTimeout(() => {
+      connectTimedOut = true;
+      subscription.abortConnect();
+    }, this.connectTimeoutMs);
+
     try {
       // 使用fetch API实现流式数据接收
       const response = await fetch(`${this.baseUrl}/daq.DAQStream/Subscribe`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/grpc-web+proto',
-          'Accept': 'application/grpc-web+proto',
-        },
-        body: this.encodeDataRequest(request)
+        headers: this.createHeaders(),
+        body: encodeGrpcWebFrame(encodeDataRequest(request)),
+        signal: subscription.signal
       });
+      clearTimeout(connectTimer);
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
+      const headerError = grpcErrorFromHeaders(response.headers);
+      if (headerError) {
+        throw headerError;
+      }
+
       const reader = response.body?.getReader();
       if (!reader) {
         throw new Error('No response body reader available');
       }
 
-      // 读取流式数据
+      subscription.markStreaming();
+
+      // 读取流式数据，按gRPC-Web帧重组，每个消息帧对应一个DataChunk
+      const parser = new GrpcWebFrameParser();
       while (true) {
         const { done, value } = await reader.read();
+        if (subscription.isCancelled) {
+          await reader.cancel().catch(() => undefined);
+          return;
+        }
         if (done) {
+          parser.finish();
+          subscription.settle('ended');
           onEnd?.();
           break;
         }
 
-        try {
-          const chunk = this.decodeDataChunk(value);
-          onData(chunk);
-        } catch (error) {
-          console.warn('Failed to decode chunk:', error);
+        for (const frame of parser.push(value)) {
+          if (frame.isTrailer) {
+            const trailerError = grpcErrorFromTrailers(parseGrpcWebTrailers(frame.data));
+            if (trailerError) {
+              throw trailerError;
+            }
+            continue;
+          }
+
+          // cancel() 可能在上一个回调中被调用，同一次读取中剩余的帧不再投递
+          if (subscription.isCancelled) break;
+
+          try {
+            onData(decodeDataChunk(frame.data));
+          } catch (error) {
+            console.warn('Failed to decode chunk:', error);
+          }
         }
       }
     } catch (error) {
-      onError?.(error as Error);
+      clearTimeout(connectTimer);
+      // 主动取消导致的 AbortError 不是错误
+      if (subscription.isCancelled) return;
+      subscription.settle('failed');
+      onError?.(connectTimedOut
+        ? new GrpcWebError(GrpcStatusCode.DEADLINE_EXCEEDED, `连接数据流超时 (${this.connectTimeoutMs} ms)`)
+        : error as Error);
     }
   }
 
   // 发送控制命令
   async sendControlCommand(cmd: ControlCmd): Promise<Ack> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.requestTimeoutMs);
     try {
       const response = await fetch(`${this.baseUrl}/daq.DAQStream/Control`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/grpc-web+proto',
-          'Accept': 'application/grpc-web+proto',
-        },
-        body: this.encodeControlCmd(cmd)
+        headers: { ...this.createHeaders(), 'grpc-timeout': `${this.requestTimeoutMs}m` },
+        body: encodeGrpcWebFrame(encodeControlCmd(cmd)),
+        signal: controller.signal
       });
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const data = await response.arrayBuffer();
-      return this.decodeAck(new Uint8Array(data));
+      const headerError = grpcErrorFromHeaders(response.headers);
+      if (headerError) {
+        throw headerError;
+      }
+
+      return this.readUnaryResponse(new Uint8Array(await response.arrayBuffer()));
     } catch (error) {
-      console.error('Control command failed:', error);
+      const failure = controller.signal.aborted
+        ? new GrpcWebError(GrpcStatusCode.DEADLINE_EXCEEDED, `Control 调用超时 (${this.requestTimeoutMs} ms)`)
+        : error;
+      console.error('Control command failed:', failure);
       return {
         success: false,
-        message: `Error: ${error}`,
+        message: `Error: ${failure instanceof Error ? failure.message : failure}`,
         timestamp: Date.now().toString()
       };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  // 简化的编码方法 - 实际项目中应该使用protobuf库
-  private encodeDataRequest(request: DataRequest): Uint8Array {
-    // 这里应该使用protobuf编码，暂时使用JSON作为替代
-    const json = JSON.stringify(request);
-    return new TextEncoder().encode(json);
-  }
-
-  private encodeControlCmd(cmd: ControlCmd): Uint8Array {
-    const json = JSON.stringify(cmd);
-    return new TextEncoder().encode(json);
-  }
-
-  // 简化的解码方法
-  private decodeDataChunk(data: Uint8Array): DataChunk {
-    // 模拟解码过程，实际应该使用protobuf解码
+  private createHeaders(): Record<string, string> {
     return {
-      payload: data,
-      seq: Math.floor(Math.random() * 1000000),
-      tick_ns: Date.now().toString(),
-      tags: {}
+      'Content-Type': GRPC_WEB_CONTENT_TYPE,
+      'Accept': GRPC_WEB_CONTENT_TYPE,
+      'X-Grpc-Web': '1'
     };
   }
 
-  private decodeAck(data: Uint8Array): Ack {
-    try {
-      const json = new TextDecoder().decode(data);
-      return JSON.parse(json);
-    } catch {
-      return {
-        success: true,
-        message: 'Command executed',
-        timestamp: Date.now().toString()
-      };
+  // 一元调用的响应体：一个消息帧 + 一个 trailer 帧
+  private readUnaryResponse(body: Uint8Array): Ack {
+    let ack: Ack | null = null;
+
+    for (const frame of decodeGrpcWebFrames(body)) {
+      if (frame.isTrailer) {
+        const trailerError = grpcErrorFromTrailers(parseGrpcWebTrailers(frame.data));
+        if (trailerError) {
+          throw trailerError;
+        }
+      } else if (ack === null) {
+        ack = decodeAck(frame.data);
+      }
+    }
+
+    if (ack === null) {
+      throw new GrpcWebError(GrpcStatusCode.INTERNAL, 'Control 响应中没有 Ack 消息');
     }
+    return ack;
   }
 }
 
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  GrpcStatusCode,
+  GrpcWebError,
+  GrpcWebFrameError,
+  GrpcWebFrameParser,
+  decodeGrpcWebFrames,
+  encodeGrpcWebFrame,
+  encodeGrpcWebTrailers,
+  grpcErrorFromTrailers,
+  parseGrpcWebTrailers
+} from './grpcWeb';
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function splitEvery(data: Uint8Array, size: number): Uint8Array[] {
+  const slices: Uint8Array[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    slices.push(data.slice(i, i + size));
+  }
+  return slices;
+}
+
+describe('gRPC-Web framing', () => {
+  test('frames messages with a 5-byte big-endian prefix', () => {
+    const frame = encodeGrpcWebFrame(new Uint8Array([0xaa, 0xbb]));
+    expect(Array.from(frame)).toEqual([0x00, 0x00, 0x00, 0x00, 0x02, 0xaa, 0xbb]);
+  });
+
+  test('splits data and trailer frames', () => {
+    const body = new Uint8Array([
+      ...Array.from(encodeGrpcWebFrame(new Uint8Array([1]))),
+      ...Array.from(encodeGrpcWebTrailers({ 'grpc-status': '0' }))
+    ]);
+
+    const frames = decodeGrpcWebFrames(body);
+    expect(frames).toHaveLength(2);
+    expect(frames[0].isTrailer).toBe(false);
+    expect(frames[1].isTrailer).toBe(true);
+    expect(parseGrpcWebTrailers(frames[1].data)).toEqual({ 'grpc-status': '0' });
+  });
+
+  test('surfaces non-OK trailers as GrpcWebError', () => {
+    const error = grpcErrorFromTrailers({
+      'grpc-status': '3',
+      'grpc-message': '%E6%97%A0%E6%95%88%E7%9A%84%E8%AF%B7%E6%B1%82%E5%8F%82%E6%95%B0'
+    });
+
+    expect(error).toBeInstanceOf(GrpcWebError);
+    expect(error?.code).toBe(GrpcStatusCode.INVALID_ARGUMENT);
+    expect(error?.grpcMessage).toBe('无效的请求参数');
+    expect(grpcErrorFromTrailers({ 'grpc-status': '0' })).toBeNull();
+  });
+});
+
+describe('GrpcWebFrameParser', () => {
+  const large = new Uint8Array(10_000 * 4 * 2).map((_, i) => i & 0xff);
+  const body = concat([
+    encodeGrpcWebFrame(new Uint8Array([1, 2, 3])),
+    encodeGrpcWebFrame(large),
+    encodeGrpcWebFrame(new Uint8Array(0)),
+    encodeGrpcWebTrailers({ 'grpc-status': '0' })
+  ]);
+
+  test.each([1, 3, 5, 7, 4096, body.length])('reassembles frames from %i-byte reads', size => {
+    const parser = new GrpcWebFrameParser();
+    const frames = splitEvery(body, size).flatMap(slice => parser.push(slice));
+    parser.finish();
+
+    expect(frames.map(frame => frame.data.length)).toEqual([3, large.length, 0, 16]);
+    expect(frames.map(frame => frame.isTrailer)).toEqual([false, false, false, true]);
+    expect(frames[1].data).toEqual(large);
+  });
+
+  test('emits several frames merged into one read', () => {
+    const parser = new GrpcWebFrameParser();
+    const frames = parser.push(concat([
+      encodeGrpcWebFrame(new Uint8Array([1])),
+      encodeGrpcWebFrame(new Uint8Array([2])),
+      encodeGrpcWebFrame(new Uint8Array([3]))
+    ]));
+    expect(frames.map(frame => frame.data[0])).toEqual([1, 2, 3]);
+  });
+
+  test('reports truncated frames with their start offset', () => {
+    const parser = new GrpcWebFrameParser();
+    parser.push(encodeGrpcWebFrame(new Uint8Array([1, 2])));
+    parser.push(encodeGrpcWebFrame(new Uint8Array(10)).subarray(0, 8));
+
+    expect(() => parser.finish()).toThrow(GrpcWebFrameError);
+    expect(() => parser.finish()).toThrow(/offset 7\)/);
+  });
+
+  test('rejects invalid flags and oversized frames', () => {
+    const badFlags = encodeGrpcWebFrame(new Uint8Array([1]), 0x42);
+    expect(() => new GrpcWebFrameParser().push(badFlags)).toThrow(/0x42/);
+
+    const oversized = encodeGrpcWebFrame(new Uint8Array(16));
+    expect(() => new GrpcWebFrameParser(8).push(oversized)).toThrow(/超过上限/);
+  });
+});
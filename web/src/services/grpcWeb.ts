@@ -0,0 +1,264 @@
+/**
+ * gRPC-Web 传输层
+ * 5字节长度前缀帧 (1字节标志 + 4字节大端长度) 的编解码与 trailer 状态解析
+ */
+
+export const GRPC_WEB_CONTENT_TYPE = 'application/grpc-web+proto';
+export const GRPC_WEB_FRAME_HEADER_SIZE = 5;
+export const GRPC_WEB_TRAILER_FLAG = 0x80;
+
+export enum GrpcStatusCode {
+  OK = 0,
+  CANCELLED = 1,
+  UNKNOWN = 2,
+  INVALID_ARGUMENT = 3,
+  DEADLINE_EXCEEDED = 4,
+  NOT_FOUND = 5,
+  ALREADY_EXISTS = 6,
+  PERMISSION_DENIED = 7,
+  RESOURCE_EXHAUSTED = 8,
+  FAILED_PRECONDITION = 9,
+  ABORTED = 10,
+  OUT_OF_RANGE = 11,
+  UNIMPLEMENTED = 12,
+  INTERNAL = 13,
+  UNAVAILABLE = 14,
+  DATA_LOSS = 15,
+  UNAUTHENTICATED = 16
+}
+
+/**
+ * 服务端通过 grpc-status / grpc-message 返回的非 OK 状态
+ */
+export class GrpcWebError extends Error {
+  readonly code: GrpcStatusCode;
+  readonly grpcMessage: string;
+
+  constructor(code: GrpcStatusCode, grpcMessage: string) {
+    super(`gRPC ${GrpcStatusCode[code] ?? code}: ${grpcMessage || '(no message)'}`);
+    Object.setPrototypeOf(this, GrpcWebError.prototype);
+    this.name = 'GrpcWebError';
+    this.code = code;
+    this.grpcMessage = grpcMessage;
+  }
+}
+
+/**
+ * 响应流中的帧结构损坏，offset 为该帧在整个响应体中的起始字节位置
+ */
+export class GrpcWebFrameError extends Error {
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} (offset ${offset})`);
+    Object.setPrototypeOf(this, GrpcWebFrameError.prototype);
+    this.name = 'GrpcWebFrameError';
+    this.offset = offset;
+  }
+}
+
+export interface GrpcWebFrame {
+  isTrailer: boolean;
+  data: Uint8Array;
+}
+
+export type GrpcTrailers = { [key: string]: string };
+
+export function encodeGrpcWebFrame(message: Uint8Array, flags: number = 0): Uint8Array {
+  const frame = new Uint8Array(GRPC_WEB_FRAME_HEADER_SIZE + message.length);
+  frame[0] = flags;
+  new DataView(frame.buffer).setUint32(1, message.length, false);
+  frame.set(message, GRPC_WEB_FRAME_HEADER_SIZE);
+  return frame;
+}
+
+export function encodeGrpcWebTrailers(trailers: GrpcTrailers): Uint8Array {
+  const text = Object.keys(trailers)
+    .map(key => `${key}: ${trailers[key]}\r\n`)
+    .join('');
+  return encodeGrpcWebFrame(new TextEncoder().encode(text), GRPC_WEB_TRAILER_FLAG);
+}
+
+/**
+ * 解码一段完整的 gRPC-Web 响应体
+ */
+export function decodeGrpcWebFrames(body: Uint8Array): GrpcWebFrame[] {
+  const frames: GrpcWebFrame[] = [];
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  let offset = 0;
+
+  while (offset < body.length) {
+    if (offset + GRPC_WEB_FRAME_HEADER_SIZE > body.length) {
+      throw new GrpcWebFrameError('gRPC-Web 帧头不完整', offset);
+    }
+    const flags = body[offset];
+    const length = view.getUint32(offset + 1, false);
+    const start = offset + GRPC_WEB_FRAME_HEADER_SIZE;
+    if (start + length > body.length) {
+      throw new GrpcWebFrameError(`gRPC-Web 帧体不完整: 声明长度 ${length}`, offset);
+    }
+    frames.push({
+      isTrailer: (flags & GRPC_WEB_TRAILER_FLAG) !== 0,
+      data: body.subarray(start, start + length)
+    });
+    offset = start + length;
+  }
+
+  return frames;
+}
+
+const GRPC_WEB_COMPRESSED_FLAG = 0x01;
+const DEFAULT_MAX_MESSAGE_SIZE = 64 * 1024 * 1024; // 与服务端 MaxSendMessageSize 一致
+
+/**
+ * 流式帧重组器
+ * HTTP 按任意字节边界分片投递响应体，push() 接收每次 reader.read() 的结果，
+ * 返回其中已完整的帧。完全落在单次读取内的帧直接返回子视图；跨多次读取的帧
+ * 按帧头长度一次性分配缓冲区，之后每个字节只复制一次
+ */
+export class GrpcWebFrameParser {
+  private readonly maxMessageSize: number;
+  private readonly header = new Uint8Array(GRPC_WEB_FRAME_HEADER_SIZE);
+  private headerFilled: number = 0;
+  private body: Uint8Array | null = null;
+  private bodyFilled: number = 0;
+  private flags: number = 0;
+  private frameOffset: number = 0;
+  private streamOffset: number = 0;
+
+  constructor(maxMessageSize: number = DEFAULT_MAX_MESSAGE_SIZE) {
+    this.maxMessageSize = maxMessageSize;
+  }
+
+  push(data: Uint8Array): GrpcWebFrame[] {
+    const frames: GrpcWebFrame[] = [];
+    let position = 0;
+
+    while (position < data.length) {
+      if (this.body === null) {
+        // 读取帧头
+        if (this.headerFilled === 0) {
+          this.frameOffset = this.streamOffset + position;
+        }
+        const headerBytes = Math.min(GRPC_WEB_FRAME_HEADER_SIZE - this.headerFilled, data.length - position);
+        this.header.set(data.subarray(position, position + headerBytes), this.headerFilled);
+        this.headerFilled += headerBytes;
+        position += headerBytes;
+
+        if (this.headerFilled < GRPC_WEB_FRAME_HEADER_SIZE) break;
+
+        const length = this.readHeader();
+        this.headerFilled = 0;
+
+        if (data.length - position >= length) {
+          // 整帧都在本次读取中，零拷贝
+          frames.push(this.createFrame(data.subarray(position, position + length)));
+          position += length;
+        } else {
+          this.body = new Uint8Array(length);
+          this.bodyFilled = 0;
+        }
+      } else {
+        const bodyBytes = Math.min(this.body.length - this.bodyFilled, data.length - position);
+        this.body.set(data.subarray(position, position + bodyBytes), this.bodyFilled);
+        this.bodyFilled += bodyBytes;
+        position += bodyBytes;
+
+        if (this.bodyFilled === this.body.length) {
+          frames.push(this.createFrame(this.body));
+          this.body = null;
+        }
+      }
+    }
+
+    this.streamOffset += data.length;
+    return frames;
+  }
+
+  /**
+   * 响应体结束时调用，存在未完成的帧则抛出
+   */
+  finish(): void {
+    if (this.headerFilled > 0) {
+      throw new GrpcWebFrameError(
+        `gRPC-Web 帧头不完整: 仅收到 ${this.headerFilled}/${GRPC_WEB_FRAME_HEADER_SIZE} 字节`,
+        this.frameOffset
+      );
+    }
+    if (this.body !== null) {
+      throw new GrpcWebFrameError(
+        `gRPC-Web 帧体不完整: 仅收到 ${this.bodyFilled}/${this.body.length} 字节`,
+        this.frameOffset
+      );
+    }
+  }
+
+  private readHeader(): number {
+    const flags = this.header[0];
+    if (flags & GRPC_WEB_COMPRESSED_FLAG) {
+      throw new GrpcWebFrameError('不支持压缩的 gRPC-Web 帧', this.frameOffset);
+    }
+    if ((flags & ~GRPC_WEB_TRAILER_FLAG) !== 0) {
+      throw new GrpcWebFrameError(`无效的 gRPC-Web 帧标志 0x${flags.toString(16)}`, this.frameOffset);
+    }
+
+    const length = new DataView(this.header.buffer).getUint32(1, false);
+    if (length > this.maxMessageSize) {
+      throw new GrpcWebFrameError(
+        `gRPC-Web 帧长度 ${length} 超过上限 ${this.maxMessageSize}`,
+        this.frameOffset
+      );
+    }
+
+    this.flags = flags;
+    return length;
+  }
+
+  private createFrame(data: Uint8Array): GrpcWebFrame {
+    return {
+      isTrailer: (this.flags & GRPC_WEB_TRAILER_FLAG) !== 0,
+      data
+    };
+  }
+}
+
+export function parseGrpcWebTrailers(data: Uint8Array): GrpcTrailers {
+  const trailers: GrpcTrailers = {};
+  new TextDecoder().decode(data).split('\r\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    trailers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  });
+  return trailers;
+}
+
+/**
+ * 将 trailer 中的非 OK 状态转换为 GrpcWebError；状态为 OK 或缺失时返回 null
+ */
+export function grpcErrorFromTrailers(trailers: GrpcTrailers): GrpcWebError | null {
+  const status = trailers['grpc-status'];
+  if (status === undefined) return null;
+
+  const code = parseInt(status, 10);
+  if (code === GrpcStatusCode.OK) return null;
+
+  let message = trailers['grpc-message'] || '';
+  try {
+    message = decodeURIComponent(message);
+  } catch {
+    // 非百分号编码的消息原样保留
+  }
+  return new GrpcWebError(isNaN(code) ? GrpcStatusCode.UNKNOWN : code, message);
+}
+
+/**
+ * Trailers-Only 响应把状态放在 HTTP 头里而不是 trailer 帧
+ */
+export function grpcErrorFromHeaders(headers: Headers): GrpcWebError | null {
+  const status = headers.get('grpc-status');
+  if (status === null) return null;
+  return grpcErrorFromTrailers({
+    'grpc-status': status,
+    'grpc-message': headers.get('grpc-message') || ''
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+import { ChunkMetadata } from './dataSource';
+import { LoopbackDataSource } from './loopbackDataSource';
+import { generateChannelData, MockConfig } from '../utils/mockDataGenerator';
+import { VirtualClock } from '../utils/mockClock';
+
+// node 环境没有 requestAnimationFrame
+beforeAll(() => {
+  globalThis.requestAnimationFrame = (callback: FrameRequestCallback) =>
+    setTimeout(() => callback(performance.now()), 16) as unknown as number;
+  globalThis.cancelAnimationFrame = (id: number) => clearTimeout(id);
+});
+
+const config: MockConfig = {
+  channels: 3,
+  sampleRate: 100_000,
+  bufferSize: 500,
+  waveformType: 'mixed',
+  amplitude: 1.5,
+  frequency: 1000,
+  noiseLevel: 0.1
+};
+
+interface Received {
+  data: Float32Array[];
+  metadata: ChunkMetadata;
+}
+
+function collect(source: LoopbackDataSource, count: number): Promise<Received[]> {
+  const received: Received[] = [];
+  return new Promise(resolve => {
+    source.start(config, (data, metadata) => {
+      received.push({ data, metadata });
+      if (received.length === count) resolve(received);
+    });
+  });
+}
+
+describe('LoopbackDataSource', () => {
+  test('round-trips mock chunks through the wire encoding and the real decode path', async () => {
+    const source = new LoopbackDataSource(640, {
+      seed: 11,
+      clock: new VirtualClock(1_700_000_000_000),
+      pool: null,
+      decodePool: null
+    });
+
+    const received = await collect(source, 5);
+    await source.stop();
+
+    // 16 位、±10 V 量程的量化误差
+    const step = 10 / 32768;
+    received.forEach(({ data, metadata }, index) => {
+      expect(metadata.seq).toBe(index);
+      expect(metadata.sequence.event.kind).toBe(index === 0 ? 'first' : 'ok');
+      expect(metadata.sampleFormat?.gain).toEqual([10]);
+      expect(metadata.tickNs).toBe((BigInt(1_700_000_000_000) * BigInt(1_000_000) + BigInt(index * 5_000_000)).toString());
+
+      const expected = generateChannelData(config, index * config.bufferSize, 11);
+      expect(data).toHaveLength(config.channels);
+      data.forEach((channel, ch) => {
+        expect(channel).toHaveLength(config.bufferSize);
+        channel.forEach((value, i) => expect(Math.abs(value - expected[ch][i])).toBeLessThanOrEqual(step));
+      });
+    });
+  });
+
+  test('carries live configuration changes as config tags on the wire', async () => {
+    const source = new LoopbackDataSource(640, { seed: 1, pool: null, decodePool: null });
+    const markers: (ChunkMetadata['configMarker'])[] = [];
+    let onChunk: (metadata: ChunkMetadata) => void = () => {};
+    await new Promise<void>(resolve => {
+      onChunk = () => resolve();
+      source.start(config, (data, metadata) => onChunk(metadata));
+    });
+
+    const result = await source.updateConfig({ frequency: 250 });
+    await new Promise<void>(resolve => {
+      onChunk = (metadata) => {
+        markers.push(metadata.configMarker);
+        if (markers.length === 3) resolve();
+      };
+    });
+    await source.stop();
+
+    expect(result).toEqual({ mode: 'live', revision: 1 });
+    // 每块都带 config.rev，解码端只在版本变化的那一块报告标记
+    expect(markers).toEqual([{ revision: 1, sampleOffset: 0 }, undefined, undefined]);
+  });
+});
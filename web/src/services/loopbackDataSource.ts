@@ -0,0 +1,71 @@
+import { ChunkMetadata, DataCallback } from './dataSource';
+import { MockDataSource } from './mockDataSource';
+import { ChunkDecoder, ChunkDecoderConfig } from './chunkDecoder';
+import { decodeDataChunk, encodeDataChunk } from './daqProto';
+import { encodeMockChunk, HighPerformanceStreamerOptions, MockConfig } from '../utils/mockDataGenerator';
+import { DEFAULT_SAMPLE_FORMAT, SampleFormat } from '../utils/sampleFormat';
+import { CONFIG_MARKER_TAGS } from '../utils/liveConfig';
+import { DataWorkerPool } from '../workers/dataWorkerPool';
+
+// ±10 V 满量程的 16 位交错整数，与常见 DAQ 板卡的默认量程一致
+export const LOOPBACK_SAMPLE_FORMAT: SampleFormat = { ...DEFAULT_SAMPLE_FORMAT, gain: [10] };
+
+export interface LoopbackDataSourceOptions extends HighPerformanceStreamerOptions {
+  sampleFormat?: Partial<SampleFormat>; // 编码使用的格式，通过 format.* 标签告知解码端
+  decodePool?: DataWorkerPool | null; // 解码用的 Worker 池，默认与真实数据源相同
+}
+
+/**
+ * 回环数据源：模拟数据编码成 DataChunk 的 protobuf 字节，再经过 RealDataService 使用的
+ * ChunkDecoder 解码后交付，不需要服务端就能覆盖真实数据路径的解码性能和正确性
+ */
+export class LoopbackDataSource extends MockDataSource {
+  readonly kind: string = 'loopback';
+  readonly label: string = '回环模式';
+
+  private readonly format: SampleFormat;
+  private readonly decoder: ChunkDecoder;
+  private decoderConfig: ChunkDecoderConfig | null = null;
+  private configTags: { [key: string]: string } = {}; // 与服务端一样，在线修改后的每一块都带 config.*
+  private session: number = 0; // start() 后递增，丢弃上一会话仍在解码的块
+
+  constructor(targetDataRateMBps: number = 640, options: LoopbackDataSourceOptions = {}) {
+    super(targetDataRateMBps, options);
+    this.format = { ...LOOPBACK_SAMPLE_FORMAT, ...options.sampleFormat };
+    this.decoder = new ChunkDecoder({ decodePool: options.decodePool });
+  }
+
+  async start(config: MockConfig, onData: DataCallback): Promise<void> {
+    this.session++;
+    this.decoderConfig = { channels: config.channels, sampleRate: config.sampleRate, sampleFormat: this.format };
+    this.configTags = {};
+    this.decoder.reset();
+    await super.start(config, onData);
+  }
+
+  protected emitChunk(data: Float32Array[], metadata: ChunkMetadata): void {
+    const config = this.decoderConfig;
+    if (!config) return;
+
+    if (metadata.configMarker) {
+      this.configTags = {
+        [CONFIG_MARKER_TAGS.revision]: metadata.configMarker.revision.toString(),
+        [CONFIG_MARKER_TAGS.sampleOffset]: metadata.configMarker.sampleOffset.toString()
+      };
+    }
+
+    // 经过 protobuf 编解码，payload 与真实数据流一样是整条消息缓冲区中的一段
+    const wire = encodeDataChunk(encodeMockChunk(data, metadata, this.format, this.configTags));
+    const session = this.session;
+    this.decoder.decode(decodeDataChunk(wire), config, {
+      // 序号、吞吐量等统计来自解码端；生成耗时和故障注入统计只有模拟端知道
+      data: (decoded, decodedMetadata) => super.emitChunk(decoded, {
+        ...decodedMetadata,
+        generationTime: metadata.generationTime,
+        faults: metadata.faults
+      }),
+      error: (error) => this.emit({ type: 'error', error }),
+      current: () => session === this.session
+    });
+  }
+}
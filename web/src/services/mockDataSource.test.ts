@@ -0,0 +1,73 @@
+import { ChunkMetadata, DataSourceEvent } from './dataSource';
+import { MockDataSource } from './mockDataSource';
+import { AcquisitionState } from './acquisitionState';
+import { CARD_CONFIGS } from '../utils/mockDataGenerator';
+
+describe('MockDataSource', () => {
+  test('moves through the acquisition states and reports connection events', async () => {
+    const source = new MockDataSource();
+    const states: AcquisitionState[] = [];
+    const events: DataSourceEvent[] = [];
+    source.acquisition.subscribe(snapshot => states.push(snapshot.state));
+    source.onEvent(event => events.push(event));
+
+    // 第一块数据到达后进入 streaming
+    await new Promise<void>(resolve => {
+      source.start(CARD_CONFIGS['PXIe-5500'], () => resolve());
+    });
+    await source.pause();
+    await source.resume();
+    await source.stop();
+
+    expect(states).toEqual(['connecting', 'armed', 'streaming', 'paused', 'streaming', 'stopping', 'idle']);
+    expect(events).toEqual([
+      { type: 'connection', connection: { state: 'connected' } },
+      { type: 'connection', connection: { state: 'idle' } }
+    ]);
+  });
+
+  test('applies live parameters without restarting and marks the next chunk', async () => {
+    const source = new MockDataSource();
+    const states: AcquisitionState[] = [];
+    let onChunk: (metadata: ChunkMetadata) => void = () => {};
+    await new Promise<void>(resolve => {
+      onChunk = () => resolve();
+      source.start(CARD_CONFIGS['PXIe-5500'], (data, metadata) => onChunk(metadata));
+    });
+    source.acquisition.subscribe(snapshot => states.push(snapshot.state));
+
+    const result = await source.updateConfig({ frequency: 250 });
+    const marked = await new Promise<ChunkMetadata>(resolve => {
+      onChunk = resolve;
+    });
+    await source.stop();
+
+    expect(result).toEqual({ mode: 'live', revision: 1 });
+    expect(marked.configMarker).toEqual({ revision: 1, sampleOffset: 0 });
+    expect(states).toEqual(['stopping', 'idle']);
+  });
+
+  test('defers configuration while idle', async () => {
+    const source = new MockDataSource();
+    await expect(source.updateConfig({ channels: 2 })).resolves.toEqual({ mode: 'deferred' });
+  });
+
+  test('rejects resume when not paused', async () => {
+    const source = new MockDataSource();
+    await expect(source.resume()).rejects.toThrow(/idle → streaming/);
+    expect(source.state).toBe('idle');
+  });
+
+  test('stops delivering events to disposed listeners', async () => {
+    const source = new MockDataSource();
+    const listener = jest.fn();
+    const unsubscribe = source.onEvent(listener);
+    unsubscribe();
+
+    await source.start(CARD_CONFIGS['PXIe-5500'], () => {});
+    await source.dispose();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(source.state).toBe('idle');
+  });
+});
@@ -0,0 +1,114 @@
+import { BaseDataSource, ChunkMetadata, ConfigUpdateResult, DataCallback } from './dataSource';
+import { HighPerformanceStreamer, HighPerformanceStreamerOptions, MockConfig } from '../utils/mockDataGenerator';
+import { MOCK_LIVE_CONFIG_KEYS, splitConfigChange } from '../utils/liveConfig';
+
+/**
+ * 本地生成模拟波形的数据源
+ */
+export class MockDataSource extends BaseDataSource {
+  readonly kind: string = 'mock';
+  readonly label: string = '模拟模式';
+  readonly remote: boolean = false;
+
+  private streamer: HighPerformanceStreamer | null = null;
+  private dataCallback: DataCallback | null = null;
+  private config: MockConfig | null = null;
+  private readonly targetDataRateMBps: number;
+  private readonly streamerOptions: HighPerformanceStreamerOptions;
+
+  // 第一块数据到达时从 armed 进入 streaming
+  private deliver: DataCallback = (data, metadata) => {
+    if (this.acquisition.state === 'armed') {
+      this.acquisition.transition('streaming');
+    }
+    this.emitChunk(data, metadata);
+  };
+
+  /**
+   * options 中的 seed/clock 使输出可复现，供下游处理的测试使用
+   */
+  constructor(targetDataRateMBps: number = 640, options: HighPerformanceStreamerOptions = {}) {
+    super();
+    this.targetDataRateMBps = targetDataRateMBps;
+    this.streamerOptions = options;
+  }
+
+  // 把生成的块交给 start() 的回调；子类可以在中间加入编码/解码等处理
+  protected emitChunk(data: Float32Array[], metadata: ChunkMetadata): void {
+    if (this.dataCallback) {
+      this.dataCallback(data, metadata);
+    }
+  }
+
+  async start(config: MockConfig, onData: DataCallback): Promise<void> {
+    this.acquisition.transition('connecting');
+    if (!this.streamer) {
+      this.streamer = new HighPerformanceStreamer(config, this.targetDataRateMBps, this.streamerOptions);
+    } else {
+      this.streamer.stop();
+      this.streamer.updateConfig(config);
+    }
+
+    this.dataCallback = onData;
+    this.config = config;
+    this.acquisition.transition('armed');
+    this.streamer.start(this.deliver);
+    this.emit({ type: 'connection', connection: { state: 'connected' } });
+  }
+
+  async stop(): Promise<void> {
+    if (this.acquisition.state === 'idle') return;
+
+    this.acquisition.transition('stopping');
+    if (this.streamer) {
+      this.streamer.stop();
+      this.streamer.reset();
+    }
+    this.dataCallback = null;
+    this.acquisition.transition('idle');
+    this.emit({ type: 'connection', connection: { state: 'idle' } });
+  }
+
+  async pause(): Promise<void> {
+    this.acquisition.transition('paused');
+    if (this.streamer) {
+      this.streamer.stop();
+    }
+  }
+
+  async resume(): Promise<void> {
+    this.acquisition.transition('streaming');
+    if (this.streamer) {
+      this.streamer.start(this.deliver);
+    }
+  }
+
+  async updateConfig(config: Partial<MockConfig>): Promise<ConfigUpdateResult> {
+    const previous = this.config;
+    if (!previous || !this.streamer || !this.dataCallback || !this.acquisition.active) {
+      return { mode: 'deferred' };
+    }
+
+    this.config = { ...previous, ...config };
+    const { live, restart } = splitConfigChange(previous, config, MOCK_LIVE_CONFIG_KEYS);
+
+    // 通道数、采样率、块大小改变了数据结构，与真实数据源一样重新开始会话
+    if (Object.keys(restart).length > 0) {
+      const callback = this.dataCallback;
+      await this.stop();
+      await this.start(this.config, callback);
+      return { mode: 'restart' };
+    }
+
+    if (Object.keys(live).length === 0) return { mode: 'live' };
+    this.streamer.updateConfig(live);
+    // 故障注入不改变信号配置，不打配置标记
+    if (Object.keys(live).every(key => key === 'faults')) return { mode: 'live' };
+    return { mode: 'live', revision: this.streamer.markConfigChange() };
+  }
+
+  async dispose(): Promise<void> {
+    await super.dispose();
+    this.streamer = null;
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * @jest-environment ./src/testing/fetchEnvironment.js
+ */
+
+import { ControlCommand, DAQGrpcClient, DataChunk, DataRequest, GrpcStatusCode, GrpcWebError } from './grpcClient';
+import {
+  DAQControlCommand,
+  DAQControlParameters,
+  DAQSignalRClient,
+  DAQStatus,
+  PerformanceMetrics,
+  WelcomeMessage
+} from './signalrClient';
+import { RealDataService, RealDataServiceConfig } from './realDataService';
+import { ChunkMetadata } from './dataSource';
+import { StreamConnectionEvent } from './reconnectPolicy';
+import { StandInDaqServer } from '../testing/standInDaqServer';
+import { generateChannelData, MockConfig } from '../utils/mockDataGenerator';
+import { decodeSamples, DEFAULT_SAMPLE_FORMAT } from '../utils/sampleFormat';
+
+const SEED = 5;
+
+const config: RealDataServiceConfig = {
+  channels: 2,
+  sampleRate: 10_000,
+  bufferSize: 100,
+  waveformType: 'sine',
+  amplitude: 0.5,
+  frequency: 200
+};
+
+// 替身服务按 DataRequest 生成的数据
+const generated: MockConfig = {
+  channels: config.channels,
+  sampleRate: config.sampleRate,
+  bufferSize: config.bufferSize,
+  waveformType: 'sine',
+  amplitude: 0.5,
+  frequency: 200,
+  noiseLevel: 0
+};
+
+// 16 位、±1 量程的量化误差
+const STEP = 1 / 32768;
+
+function expectGenerated(data: Float32Array[], seq: number, mockConfig: MockConfig = generated): void {
+  const expected = generateChannelData(mockConfig, seq * mockConfig.bufferSize, SEED);
+  expect(data).toHaveLength(mockConfig.channels);
+  data.forEach((channel, ch) => {
+    channel.forEach((value, i) => expect(Math.abs(value - expected[ch][i])).toBeLessThanOrEqual(STEP));
+  });
+}
+
+function createSignalR(baseUrl: string): DAQSignalRClient {
+  return new DAQSignalRClient(baseUrl, {
+    transports: ['longPolling'],
+    skipNegotiation: false,
+    fallbackTransports: [],
+    connectTimeoutMs: 5000,
+    requestTimeoutMs: 5000
+  });
+}
+
+let server: StandInDaqServer;
+let baseUrl: string;
+
+beforeEach(async () => {
+  server = new StandInDaqServer({ seed: SEED, performanceIntervalMs: 200 });
+  baseUrl = await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('DAQGrpcClient against the stand-in server', () => {
+  const request: DataRequest = {
+    channels: config.channels,
+    sample_rate: config.sampleRate,
+    buffer_size: config.bufferSize,
+    config: { waveformType: 'sine', amplitude: '0.5', frequency: '200' }
+  };
+
+  test('streams generated chunks after a global START and stops when cancelled', async () => {
+    const grpc = new DAQGrpcClient(baseUrl);
+    const ack = await grpc.sendControlCommand({ cmd: ControlCommand.START, params: {} });
+    expect(ack).toMatchObject({ success: true, message: '命令 START 执行成功' });
+
+    const chunks: DataChunk[] = [];
+    const subscription = await new Promise<ReturnType<DAQGrpcClient['subscribeToDataStream']>>((resolve, reject) => {
+      const handle = grpc.subscribeToDataStream(request, (chunk) => {
+        chunks.push(chunk);
+        if (chunks.length === 3) resolve(handle);
+      }, reject);
+    });
+    subscription.cancel();
+    await subscription.closed;
+
+    expect(chunks.map(chunk => chunk.seq)).toEqual([0, 1, 2]);
+    chunks.forEach(chunk => {
+      expect(chunk.tags).toMatchObject({ channels: '2', sampleRate: '10000', bufferSize: '100' });
+      expectGenerated(decodeSamples(chunk.payload, config.channels, DEFAULT_SAMPLE_FORMAT), chunk.seq);
+    });
+    expect(server.subscribeRequests).toEqual([request]);
+  });
+
+  test('rejects an invalid request with a trailers-only INVALID_ARGUMENT status', async () => {
+    const grpc = new DAQGrpcClient(baseUrl);
+    const error = await new Promise<Error>(resolve => {
+      grpc.subscribeToDataStream({ ...request, channels: 0 }, () => undefined, resolve);
+    });
+
+    expect(error).toBeInstanceOf(GrpcWebError);
+    expect((error as GrpcWebError).code).toBe(GrpcStatusCode.INVALID_ARGUMENT);
+    expect((error as GrpcWebError).grpcMessage).toBe('无效的请求参数');
+  });
+});
+
+describe('DAQSignalRClient against the stand-in server', () => {
+  test('connects over long polling, runs commands and derives the DAQ status', async () => {
+    const signalr = createSignalR(baseUrl);
+    const welcome = new Promise<WelcomeMessage>(resolve => signalr.on('Welcome', resolve));
+    const statuses: DAQStatus[] = [];
+    const errors: string[] = [];
+    signalr.onStatusUpdate(status => statuses.push(status));
+    signalr.onError(error => errors.push(error));
+
+    await signalr.connect();
+    expect((await welcome).version).toBe('1.0.0');
+    expect(signalr.lastConnectionEvent).toMatchObject({ state: 'connected', transports: ['longPolling'] });
+
+    const parameters: DAQControlParameters = {
+      channels: 2,
+      sampleRate: 10_000,
+      bufferSize: 100,
+      waveformType: 'sine',
+      amplitude: 0.5,
+      frequency: 200
+    };
+    await signalr.sendControlCommand('start', parameters);
+    await signalr.sendControlCommand('pause');
+    // 服务端不认识的命令：CommandResult.success 为 false
+    await signalr.sendControlCommand('calibrate' as DAQControlCommand);
+    await signalr.disconnect();
+
+    // CommandResult 先于广播的 SystemStatusChanged 到达
+    expect(statuses).toEqual([
+      { isRunning: false, isPaused: false, currentConfig: parameters },
+      { isRunning: true, isPaused: false, currentConfig: parameters },
+      { isRunning: true, isPaused: true, currentConfig: parameters }
+    ]);
+    expect(errors).toEqual(['命令 calibrate 未被执行']);
+    expect(server.commands).toEqual([
+      { via: 'hub', command: 'start', success: true },
+      { via: 'hub', command: 'pause', success: true },
+      { via: 'hub', command: 'calibrate', success: false }
+    ]);
+    expect(server.isGenerating).toBe(false);
+    expect(server.hubConnectionCount).toBe(0);
+  });
+});
+
+describe('RealDataService against the stand-in server', () => {
+  let service: RealDataService;
+
+  beforeEach(() => {
+    service = new RealDataService({
+      grpc: new DAQGrpcClient(baseUrl),
+      signalr: createSignalR(baseUrl),
+      decodePool: null
+    });
+    service.setReconnectPolicy({ initialDelayMs: 20, jitter: 0 });
+  });
+
+  afterEach(async () => {
+    await service.dispose();
+  });
+
+  interface Received {
+    data: Float32Array[];
+    metadata: ChunkMetadata;
+  }
+
+  // 收集数据直到 done 返回 true
+  function receive(done: (received: Received[]) => boolean): Promise<Received[]> {
+    const received: Received[] = [];
+    return new Promise(resolve => {
+      const dispose = service.on('data', (data, metadata) => {
+        received.push({ data, metadata });
+        if (done(received)) {
+          dispose();
+          resolve(received);
+        }
+      });
+    });
+  }
+
+  test('starts over SignalR, streams decoded chunks over gRPC-Web and stops both', async () => {
+    const performance = new Promise<PerformanceMetrics>(resolve => service.on('performance', resolve));
+    const streaming = receive(received => received.length === 5);
+
+    await service.start(config);
+    const received = await streaming;
+    expect((await performance).global.dataRate.targetMBps).toBe(640);
+    await service.stop();
+
+    received.forEach(({ data, metadata }, index) => {
+      expect(metadata.seq).toBe(index);
+      expectGenerated(data, metadata.seq);
+    });
+    expect(service.sequenceStats).toMatchObject({ lostChunks: 0, duplicates: 0 });
+    expect(service.acquisition.state).toBe('idle');
+    expect(server.commands).toEqual([
+      { via: 'hub', command: 'start', success: true },
+      { via: 'hub', command: 'stop', success: true },
+      { via: 'grpc', command: 'STOP', success: true }
+    ]);
+    expect(server.streamCount).toBe(0);
+  });
+
+  test('resumes after a dropped stream without losing or repeating chunks', async () => {
+    const connection: StreamConnectionEvent[] = [];
+    service.on('connection', event => connection.push(event));
+    const received = receive(chunks => {
+      // 第三块之后模拟网络中断
+      if (chunks.length === 3) server.dropStreams();
+      return chunks.length === 8;
+    });
+
+    await service.start(config);
+    const chunks = await received;
+    await service.stop();
+
+    chunks.forEach(({ data, metadata }, index) => {
+      expect(metadata.seq).toBe(index);
+      expectGenerated(data, metadata.seq);
+    });
+    expect(service.sequenceStats).toMatchObject({ lostChunks: 0, duplicates: 0 });
+    expect(server.subscribeRequests).toHaveLength(2);
+    expect(server.subscribeRequests[1].config.resumeAfterSeq).toBeDefined();
+    expect(connection.map(event => event.state)).toEqual(['connected', 'reconnecting', 'resumed', 'idle']);
+  });
+
+  test('keeps streaming when the server restarts numbering after a dropped stream', async () => {
+    // 与 .NET 服务一样，新订阅从 seq 0 开始
+    server.honorResumeAfterSeq = false;
+    const received = receive(chunks => {
+      if (chunks.length === 3) server.dropStreams();
+      return chunks.length === 6;
+    });
+
+    await service.start(config);
+    const chunks = await received;
+    await service.stop();
+
+    expect(chunks.map(({ metadata }) => metadata.seq)).toEqual([0, 1, 2, 0, 1, 2]);
+    expect(chunks[3].metadata.sequence?.event.kind).toBe('restart');
+    chunks.forEach(({ data, metadata }) => expectGenerated(data, metadata.seq));
+    expect(service.sequenceStats).toMatchObject({ restarts: 1, duplicates: 0, lostChunks: 0 });
+    expect(server.subscribeRequests[1].config.resumeAfterSeq).toBe('2');
+  });
+
+  test('applies live configuration changes through CONFIGURE and reports the marker', async () => {
+    const first = receive(received => received.length === 1);
+    await service.start(config);
+    await first;
+
+    const changed = receive(received => received[received.length - 1].metadata.configMarker !== undefined);
+    const result = await service.updateConfig({ frequency: 400 });
+    const received = await changed;
+    await service.stop();
+
+    expect(result).toEqual({ mode: 'live', revision: 1, message: '命令 CONFIGURE 执行成功' });
+    const { data, metadata } = received[received.length - 1];
+    expect(metadata.configMarker).toEqual({ revision: 1, sampleOffset: 0 });
+    expectGenerated(data, metadata.seq, { ...generated, frequency: 400 });
+  });
+});
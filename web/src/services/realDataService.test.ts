@@ -0,0 +1,210 @@
+/**
+ * @jest-environment node
+ */
+
+import { RealDataService, RealDataServiceConfig } from './realDataService';
+import { Ack, ControlCmd, ControlCommand, DAQGrpcClient, DataChunk, DataRequest, DataStreamSubscription } from './grpcClient';
+import { DAQSignalRClient } from './signalrClient';
+import { StreamConnectionEvent } from './reconnectPolicy';
+
+const config: RealDataServiceConfig = { channels: 1, sampleRate: 1000, bufferSize: 4 };
+
+interface FakeStream {
+  request: DataRequest;
+  onData: (chunk: DataChunk) => void;
+  onError?: (error: Error) => void;
+  onEnd?: () => void;
+}
+
+/**
+ * 记录每次 Subscribe 的请求，测试通过回调模拟数据、断线和流结束
+ */
+class FakeGrpc {
+  readonly streams: FakeStream[] = [];
+  readonly commands: ControlCommand[] = [];
+  configureSupported = true; // false 时与 .NET 服务一样拒绝 CONFIGURE
+
+  subscribeToDataStream(
+    request: DataRequest,
+    onData: (chunk: DataChunk) => void,
+    onError?: (error: Error) => void,
+    onEnd?: () => void
+  ): DataStreamSubscription {
+    this.streams.push({ request, onData, onError, onEnd });
+    return { state: 'streaming', closed: Promise.resolve(), cancel: () => undefined };
+  }
+
+  async sendControlCommand(cmd: ControlCmd): Promise<Ack> {
+    this.commands.push(cmd.cmd);
+    const success = cmd.cmd !== ControlCommand.CONFIGURE || this.configureSupported;
+    return { success, message: '', timestamp: '0' };
+  }
+
+  get last(): FakeStream {
+    return this.streams[this.streams.length - 1];
+  }
+}
+
+// 已连接的控制通道，只需要 RealDataService 用到的方法
+function fakeSignalR(): DAQSignalRClient {
+  const subscribe = () => () => undefined;
+  return {
+    connected: true,
+    onPerformanceUpdate: subscribe,
+    onStatusUpdate: subscribe,
+    onError: subscribe,
+    on: subscribe,
+    onConnectionChange: subscribe,
+    onSessionRestore: subscribe,
+    sendControlCommand: async () => undefined
+  } as unknown as DAQSignalRClient;
+}
+
+function chunk(seq: number): DataChunk {
+  return { payload: new Uint8Array(8), seq, tick_ns: '0', tags: {} };
+}
+
+describe('RealDataService reconnect', () => {
+  let grpc: FakeGrpc;
+  let service: RealDataService;
+  let events: StreamConnectionEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    grpc = new FakeGrpc();
+    service = new RealDataService({
+      grpc: grpc as unknown as DAQGrpcClient,
+      signalr: fakeSignalR(),
+      decodePool: null
+    });
+    service.setReconnectPolicy({ initialDelayMs: 100, maxDelayMs: 300, multiplier: 2, maxAttempts: 3, jitter: 0 });
+    events = [];
+    service.on('connection', event => events.push(event));
+    service.on('error', () => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('resubscribes after the backoff delay with resumeAfterSeq set to the last received chunk', async () => {
+    await service.start(config);
+    expect(grpc.streams[0].request.config.resumeAfterSeq).toBeUndefined();
+
+    [0, 1, 2].forEach(seq => grpc.last.onData(chunk(seq)));
+    grpc.last.onError?.(new Error('network down'));
+
+    expect(events[events.length - 1]).toMatchObject({
+      state: 'reconnecting',
+      attempt: 1,
+      maxAttempts: 3,
+      delayMs: 100,
+      resumeAfterSeq: 2
+    });
+    jest.advanceTimersByTime(99);
+    expect(grpc.streams).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(grpc.streams).toHaveLength(2);
+    expect(grpc.last.request.config.resumeAfterSeq).toBe('2');
+
+    grpc.last.onData(chunk(3));
+    expect(events[events.length - 1]).toEqual({ state: 'resumed', resumeAfterSeq: 2 });
+    expect(service.acquisition.state).toBe('streaming');
+  });
+
+  test('backs off up to maxDelayMs and gives up after maxAttempts', async () => {
+    await service.start(config);
+    grpc.last.onData(chunk(0));
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      // 服务端关闭流和出错都算断线
+      if (attempt === 2) grpc.last.onEnd?.();
+      else grpc.last.onError?.(new Error(`failure ${attempt}`));
+      const event = events[events.length - 1];
+      delays.push(event.delayMs as number);
+      jest.advanceTimersByTime(event.delayMs as number);
+    }
+    expect(delays).toEqual([100, 200, 300]);
+    expect(grpc.streams).toHaveLength(4);
+
+    const failure = new Error('failure 4');
+    grpc.last.onError?.(failure);
+
+    expect(events[events.length - 1]).toEqual({ state: 'gaveUp', error: failure });
+    expect(service.acquisition.state).toBe('error');
+    jest.advanceTimersByTime(1000);
+    expect(grpc.streams).toHaveLength(4);
+  });
+
+  test('resets the attempt counter once data flows again', async () => {
+    await service.start(config);
+    grpc.last.onError?.(new Error('first drop'));
+    jest.advanceTimersByTime(100);
+    grpc.last.onData(chunk(0));
+
+    grpc.last.onError?.(new Error('second drop'));
+    expect(events[events.length - 1]).toMatchObject({ state: 'reconnecting', attempt: 1, delayMs: 100 });
+  });
+
+  test('keeps delivering data when the resubscribed stream restarts at seq 0', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const seqs: number[] = [];
+    service.on('data', (data, metadata) => seqs.push(metadata.seq));
+    await service.start(config);
+
+    [0, 1, 2].forEach(seq => grpc.last.onData(chunk(seq)));
+    grpc.last.onError?.(new Error('network down'));
+    jest.advanceTimersByTime(100);
+    // .NET 服务忽略 resumeAfterSeq，新订阅从 0 重新编号
+    [0, 1, 2, 3].forEach(seq => grpc.last.onData(chunk(seq)));
+
+    expect(seqs).toEqual([0, 1, 2, 0, 1, 2, 3]);
+    expect(service.sequenceStats).toMatchObject({ restarts: 1, duplicates: 0, lostChunks: 0 });
+
+    // 之后的重连按新的编号请求续传
+    grpc.last.onError?.(new Error('network down'));
+    jest.advanceTimersByTime(100);
+    expect(grpc.last.request.config.resumeAfterSeq).toBe('3');
+  });
+});
+
+describe('RealDataService live configuration', () => {
+  let grpc: FakeGrpc;
+  let service: RealDataService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    grpc = new FakeGrpc();
+    service = new RealDataService({ grpc: grpc as unknown as DAQGrpcClient, signalr: fakeSignalR(), decodePool: null });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('applies waveform changes through CONFIGURE while streaming', async () => {
+    await service.start(config);
+
+    await expect(service.updateConfig({ frequency: 250 })).resolves.toMatchObject({ mode: 'live', revision: 1 });
+    expect(grpc.commands).toEqual([ControlCommand.CONFIGURE]);
+    expect(grpc.streams).toHaveLength(1);
+  });
+
+  test('stops sending CONFIGURE once the server rejects it', async () => {
+    grpc.configureSupported = false;
+    await service.start(config);
+
+    await expect(service.updateConfig({ frequency: 250 })).resolves.toMatchObject({ mode: 'restart' });
+    await expect(service.updateConfig({ amplitude: 0.5 })).resolves.toMatchObject({ mode: 'restart' });
+
+    // 只有第一次修改尝试了 CONFIGURE，之后直接重启数据流
+    expect(grpc.commands.filter(cmd => cmd === ControlCommand.CONFIGURE)).toHaveLength(1);
+    expect(grpc.streams).toHaveLength(3);
+    expect(grpc.last.request.config).toMatchObject({ frequency: '250', amplitude: '0.5' });
+  });
+});
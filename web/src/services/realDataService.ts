@@ -1,6 +1,31 @@
-import { grpcClient, DataRequest, ControlCommand } from './grpcClient';
-import { signalrClient, PerformanceMetrics, DAQStatus } from './signalrClient';
+import { grpcClient, DAQGrpcClient, DataRequest, ControlCommand, DataStreamSubscription } from './grpcClient';
+import {
+  signalrClient,
+  ClientMetricsUpdateMessage,
+  DAQSignalRClient,
+  DAQStatus,
+  HubConnectionEvent,
+  MetricsResetMessage,
+  PerformanceMetrics
+} from './signalrClient';
+import {
+  computeReconnectDelay,
+  DEFAULT_RECONNECT_POLICY,
+  ReconnectPolicy,
+  StreamConnectionEvent,
+  StreamConnectionState
+} from './reconnectPolicy';
 import { MockConfig } from '../utils/mockDataGenerator';
+import { ChunkMetadata, ConfigUpdateResult, DataCallback } from './dataSource';
+import { AcquisitionStateMachine } from './acquisitionState';
+import { Disposer, TypedEventEmitter } from '../utils/typedEventEmitter';
+import { SequenceStats } from '../utils/sequenceTracker';
+import { DeviceTimeline } from '../utils/deviceTimeline';
+import { ThroughputMeterOptions, ThroughputSnapshot } from '../utils/throughputMeter';
+import { DEFAULT_SAMPLE_FORMAT, SampleFormat, sampleFormatToTags } from '../utils/sampleFormat';
+import { liveConfigToParams, splitConfigChange } from '../utils/liveConfig';
+import { DataWorkerPool } from '../workers/dataWorkerPool';
+import { ChunkDecoder } from './chunkDecoder';
 
 export interface RealDataServiceConfig {
   channels: number;
@@ -9,50 +34,139 @@ export interface RealDataServiceConfig {
   waveformType?: string;
   amplitude?: number;
   frequency?: number;
+  sampleFormat?: Partial<SampleFormat>; // 期望的采样格式，服务端可在 DataChunk.tags 中覆盖
+}
+
+/**
+ * 一台设备（机箱）的连接；不传时使用默认地址的单例客户端
+ */
+export interface RealDataServiceOptions {
+  deviceId?: string; // 写入每块数据的 ChunkMetadata.deviceId
+  grpc?: DAQGrpcClient;
+  signalr?: DAQSignalRClient;
+  decodePool?: DataWorkerPool | null; // 默认使用 getDataWorkerPool()，null 表示在主线程解码
+}
+
+/**
+ * RealDataService 对外的事件；通过 on() 订阅，可以有任意多个订阅者
+ */
+export interface RealDataServiceEvents {
+  data: (data: Float32Array[], metadata: ChunkMetadata) => void; // 解码后的每通道样本
+  metadata: (metadata: ChunkMetadata) => void; // 只关心统计信息的订阅者不必持有样本
+  performance: (metrics: PerformanceMetrics) => void; // 服务端性能指标
+  clientMetrics: (message: ClientMetricsUpdateMessage) => void; // requestClientMetrics 的结果
+  metricsReset: (message: MetricsResetMessage) => void; // 服务端指标已被（任一客户端）重置
+  status: (status: DAQStatus) => void; // 服务端 DAQ 状态
+  error: (error: Error) => void;
+  connection: (event: StreamConnectionEvent) => void; // 数据流连接/重连状态
+  hubConnection: (event: HubConnectionEvent) => void; // SignalR 控制通道的连接状态
 }
 
 export class RealDataService {
-  private isStreaming: boolean = false;
-  private isPaused: boolean = false;
+  readonly acquisition: AcquisitionStateMachine = new AcquisitionStateMachine();
+  private readonly events = new TypedEventEmitter<RealDataServiceEvents>('RealDataService');
+  private signalRDisposers: Disposer[] = [];
   private currentConfig: RealDataServiceConfig | null = null;
-  private dataCallback: ((data: Float32Array[], metadata: any) => void) | null = null;
-  private performanceCallback: ((metrics: PerformanceMetrics) => void) | null = null;
-  private statusCallback: ((status: DAQStatus) => void) | null = null;
-
-  constructor() {
+  private dataCallback: DataCallback | null = null; // start() 传入的回调，只在本次会话内有效
+  private dataCallbackDisposer: Disposer | null = null;
+  private subscription: DataStreamSubscription | null = null;
+  private connectionState: StreamConnectionState = 'idle';
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt: number = 0;
+  private lastSeq: number | null = null;
+  private configRevision: number = 0; // 最近一次被服务端接受的在线配置版本
+  private liveConfigSupported: boolean = true; // 服务端拒绝过 CONFIGURE 后不再发送
+
+  readonly deviceId: string | undefined;
+  private readonly grpc: DAQGrpcClient;
+  private readonly signalr: DAQSignalRClient;
+  private readonly decoder: ChunkDecoder; // 序号、吞吐量、配置标记、时间轴和解码
+
+  constructor(options: RealDataServiceOptions = {}) {
+    this.deviceId = options.deviceId;
+    this.grpc = options.grpc ?? grpcClient;
+    this.signalr = options.signalr ?? signalrClient;
+    this.decoder = new ChunkDecoder({ deviceId: options.deviceId, decodePool: options.decodePool });
     this.setupSignalRHandlers();
   }
 
   private setupSignalRHandlers(): void {
     // 监听性能指标更新
-    signalrClient.onPerformanceUpdate((metrics: PerformanceMetrics) => {
-      if (this.performanceCallback) {
-        this.performanceCallback(metrics);
-      }
+    const disposePerformance = this.signalr.onPerformanceUpdate((metrics: PerformanceMetrics) => {
+      this.events.emit('performance', metrics);
     });
 
     // 监听状态更新
-    signalrClient.onStatusUpdate((status: DAQStatus) => {
-      this.isStreaming = status.isRunning;
-      this.isPaused = status.isPaused;
-      
-      if (this.statusCallback) {
-        this.statusCallback(status);
+    const disposeStatus = this.signalr.onStatusUpdate((status: DAQStatus) => {
+      // 以服务端状态校正本地采集状态；服务端已停止或出错时关闭本地数据流
+      const wasActive = this.acquisition.active;
+      this.acquisition.reconcile(status);
+      if (wasActive && !this.acquisition.active) {
+        this.setSessionCallback(null);
+        this.cancelReconnect();
+        this.closeSubscription().catch(error => console.error('关闭数据流失败:', error));
       }
+      
+      this.events.emit('status', status);
     });
 
     // 监听错误
-    signalrClient.onError((error: string) => {
+    const disposeError = this.signalr.onError((error: string) => {
       console.error('DAQ服务错误:', error);
+      this.events.emit('error', new Error(error));
+    });
+
+    const disposeClientMetrics = this.signalr.on('ClientMetricsUpdate', (message) => {
+      this.events.emit('clientMetrics', message);
     });
+    const disposeMetricsReset = this.signalr.on('MetricsReset', (message) => {
+      this.events.emit('metricsReset', message);
+    });
+
+    const disposeHubConnection = this.signalr.onConnectionChange((event) => {
+      this.events.emit('hubConnection', event);
+    });
+
+    // 重连期间错过的性能指标广播：重新加入组后立即请求一次
+    const disposeSessionRestore = this.signalr.onSessionRestore(() => this.signalr.getPerformanceMetrics());
+
+    this.signalRDisposers = [
+      disposePerformance,
+      disposeStatus,
+      disposeError,
+      disposeClientMetrics,
+      disposeMetricsReset,
+      disposeHubConnection,
+      disposeSessionRestore
+    ];
+  }
+
+  /**
+   * 订阅事件，返回取消订阅的函数
+   */
+  on<K extends keyof RealDataServiceEvents>(event: K, listener: RealDataServiceEvents[K]): Disposer {
+    return this.events.on(event, listener);
+  }
+
+  // start() 的 dataCallback 作为本次会话的 data 订阅者，stop() 时自动移除
+  private setSessionCallback(callback: DataCallback | null): void {
+    if (this.dataCallbackDisposer) {
+      this.dataCallbackDisposer();
+      this.dataCallbackDisposer = null;
+    }
+    this.dataCallback = callback;
+    if (callback) {
+      this.dataCallbackDisposer = this.events.on('data', callback);
+    }
   }
 
   async initialize(): Promise<void> {
     try {
       // 连接SignalR
-      if (!signalrClient.connected) {
-        await signalrClient.connect();
-        await signalrClient.joinPerformanceGroup();
+      if (!this.signalr.connected) {
+        await this.signalr.connect();
+        await this.signalr.joinPerformanceGroup();
       }
       console.log('实时数据服务初始化成功');
     } catch (error) {
@@ -61,18 +175,31 @@ export class RealDataService {
     }
   }
 
+  // 重置服务端性能指标；未连接时先连接
+  async resetMetrics(): Promise<void> {
+    await this.initialize();
+    await this.signalr.resetMetrics();
+  }
+
+  // 请求某个客户端（服务端的客户端 ID）的指标，结果通过 clientMetrics 事件返回
+  async requestClientMetrics(clientId: string): Promise<void> {
+    await this.initialize();
+    await this.signalr.getClientMetrics(clientId);
+  }
+
   async start(
     config: RealDataServiceConfig,
-    dataCallback: (data: Float32Array[], metadata: any) => void
+    dataCallback?: DataCallback
   ): Promise<void> {
+    this.acquisition.transition('connecting');
     try {
       await this.initialize();
       
       this.currentConfig = config;
-      this.dataCallback = dataCallback;
+      this.setSessionCallback(dataCallback ?? null);
 
       // 发送启动命令通过SignalR
-      await signalrClient.sendCommand('START', {
+      await this.signalr.sendControlCommand('start', {
         channels: config.channels,
         sampleRate: config.sampleRate,
         bufferSize: config.bufferSize,
@@ -81,90 +208,78 @@ export class RealDataService {
         frequency: config.frequency || 1000
       });
 
-      // 订阅gRPC数据流
-      const dataRequest: DataRequest = {
-        channels: config.channels,
-        sample_rate: config.sampleRate,
-        buffer_size: config.bufferSize,
-        config: {
-          waveformType: config.waveformType || 'sine',
-          amplitude: (config.amplitude || 1.0).toString(),
-          frequency: (config.frequency || 1000).toString()
-        }
-      };
-
-      // 启动数据流订阅
-      grpcClient.subscribeToDataStream(
-        dataRequest,
-        (chunk) => {
-          // 将接收到的数据转换为Float32Array格式
-          const convertedData = this.convertDataChunkToFloat32Arrays(chunk, config.channels);
-          
-          const metadata = {
-            seq: chunk.seq,
-            timestamp: chunk.tick_ns,
-            actualDataRate: this.calculateDataRate(chunk.payload.length),
-            bytesPerSecond: chunk.payload.length * 60 // 假设60fps
-          };
-
-          if (this.dataCallback) {
-            this.dataCallback(convertedData, metadata);
-          }
-        },
-        (error) => {
-          console.error('gRPC数据流错误:', error);
-        },
-        () => {
-          console.log('gRPC数据流结束');
-        }
-      );
-
-      this.isStreaming = true;
-      this.isPaused = false;
+      // 新的采集会话，不沿用上次的序号
+      this.lastSeq = null;
+      this.decoder.reset();
+      this.configRevision = 0;
+      this.cancelReconnect();
+
+      // 启动数据流订阅；旧的订阅必须先完全关闭，避免两个流同时回调
+      await this.closeSubscription();
+      this.openSubscription(config);
+      this.emitConnectionState({ state: 'connected' });
+      this.acquisition.transition('armed');
       
       console.log('实时数据流启动成功');
     } catch (error) {
       console.error('启动实时数据流失败:', error);
+      const normalized = error instanceof Error ? error : new Error(String(error));
+      this.acquisition.fail(normalized);
+      this.events.emit('error', normalized);
       throw error;
     }
   }
 
   async stop(): Promise<void> {
+    if (this.acquisition.state === 'idle') return;
+
+    this.acquisition.transition('stopping');
     try {
+      // 先关闭本地数据流，保证停止后不再有数据回调
+      this.setSessionCallback(null);
+      this.cancelReconnect();
+      await this.closeSubscription();
+
       // 发送停止命令
-      if (signalrClient.connected) {
-        await signalrClient.sendCommand('STOP');
+      if (this.signalr.connected) {
+        await this.signalr.sendControlCommand('stop');
       }
 
       // 发送gRPC控制命令
-      await grpcClient.sendControlCommand({
+      await this.grpc.sendControlCommand({
         cmd: ControlCommand.STOP,
         params: {}
       });
 
-      this.isStreaming = false;
-      this.isPaused = false;
-      this.dataCallback = null;
+      this.acquisition.transition('idle');
+      this.emitConnectionState({ state: 'idle' });
       
       console.log('实时数据流已停止');
     } catch (error) {
       console.error('停止实时数据流失败:', error);
+      const normalized = error instanceof Error ? error : new Error(String(error));
+      this.acquisition.fail(normalized);
+      this.events.emit('error', normalized);
       throw error;
     }
   }
 
+  // 暂停/恢复失败时保持原状态，界面不会出现"未暂停却可以恢复"的情况
   async pause(): Promise<void> {
+    this.acquisition.assertCan('paused');
     try {
-      if (signalrClient.connected) {
-        await signalrClient.sendCommand('PAUSE');
+      if (this.signalr.connected) {
+        await this.signalr.sendControlCommand('pause');
       }
 
-      await grpcClient.sendControlCommand({
+      await this.grpc.sendControlCommand({
         cmd: ControlCommand.PAUSE,
         params: {}
       });
 
-      this.isPaused = true;
+      if (this.acquisition.can('paused')) {
+        this.acquisition.transition('paused');
+      }
       console.log('实时数据流已暂停');
     } catch (error) {
       console.error('暂停实时数据流失败:', error);
@@ -173,17 +288,20 @@ export class RealDataService {
   }
 
   async resume(): Promise<void> {
+    this.acquisition.assertCan('streaming');
     try {
-      if (signalrClient.connected) {
-        await signalrClient.sendCommand('RESUME');
+      if (this.signalr.connected) {
+        await this.signalr.sendControlCommand('resume');
       }
 
-      await grpcClient.sendControlCommand({
+      await this.grpc.sendControlCommand({
         cmd: ControlCommand.RESUME,
         params: {}
       });
 
-      this.isPaused = false;
+      if (this.acquisition.state === 'paused') {
+        this.acquisition.transition('streaming');
+      }
       console.log('实时数据流已恢复');
     } catch (error) {
       console.error('恢复实时数据流失败:', error);
@@ -191,69 +309,202 @@ export class RealDataService {
     }
   }
 
-  async updateConfig(newConfig: Partial<RealDataServiceConfig>): Promise<void> {
-    if (this.currentConfig) {
-      this.currentConfig = { ...this.currentConfig, ...newConfig };
-      
-      // 如果正在运行，重新启动以应用新配置
-      if (this.isStreaming && this.dataCallback) {
-        await this.stop();
-        await this.start(this.currentConfig, this.dataCallback);
+  /**
+   * 修改配置。采集中只改了波形/幅值/频率时通过 CONFIGURE 命令在线生效；
+   * 其余参数，或服务端不接受在线修改时，重启数据流
+   * .NET 服务的 DAQStreamService.Control 尚未实现 CONFIGURE（返回失败），也不发送 config.* 标记：
+   * 第一次被拒绝后本实例不再发送 CONFIGURE，之后的修改直接重启数据流
+   */
+  async updateConfig(newConfig: Partial<RealDataServiceConfig>): Promise<ConfigUpdateResult> {
+    const previous = this.currentConfig;
+    if (!previous) return { mode: 'deferred' };
+
+    // 先更新配置，断线重连时按新配置重新订阅
+    this.currentConfig = { ...previous, ...newConfig };
+    if (!this.acquisition.active) return { mode: 'deferred' };
+
+    const { live, restart } = splitConfigChange(previous, newConfig);
+    let reason: string | undefined;
+    if (Object.keys(restart).length === 0) {
+      if (Object.keys(live).length === 0) return { mode: 'live', revision: this.configRevision };
+
+      if (this.liveConfigSupported) {
+        const revision = this.configRevision + 1;
+        const ack = await this.grpc.sendControlCommand({
+          cmd: ControlCommand.CONFIGURE,
+          params: liveConfigToParams(live, revision)
+        });
+        if (ack.success) {
+          this.configRevision = revision;
+          console.log(`配置已在线修改 (rev ${revision})`);
+          return { mode: 'live', revision, message: ack.message };
+        }
+        // 客户端发送的参数总是有效的，失败说明服务端不支持 CONFIGURE
+        this.liveConfigSupported = false;
+        console.warn('服务端未接受在线修改配置，改为重启数据流:', ack.message);
       }
+      reason = '服务端不支持在线修改配置，已重启数据流';
     }
-  }
 
-  // 设置性能指标回调
-  setPerformanceCallback(callback: (metrics: PerformanceMetrics) => void): void {
-    this.performanceCallback = callback;
+    // stop() 会清空回调，需要先保存
+    const callback = this.dataCallback;
+    await this.stop();
+    await this.start(this.currentConfig, callback ?? undefined);
+    return { mode: 'restart', message: reason };
   }
 
-  // 设置状态回调
-  setStatusCallback(callback: (status: DAQStatus) => void): void {
-    this.statusCallback = callback;
-  }
+  // 订阅gRPC数据流；重连时通过 resumeAfterSeq 请求服务端从上次收到的序号之后继续。
+  // 注意 .NET 服务的 DAQStreamService.Subscribe 目前忽略 resumeAfterSeq，每次订阅都从 seq 0 开始
+  private openSubscription(config: RealDataServiceConfig): void {
+    const dataRequest: DataRequest = {
+      channels: config.channels,
+      sample_rate: config.sampleRate,
+      buffer_size: config.bufferSize,
+      config: {
+        waveformType: config.waveformType || 'sine',
+        amplitude: (config.amplitude || 1.0).toString(),
+        frequency: (config.frequency || 1000).toString(),
+        ...sampleFormatToTags(this.requestedFormat(config))
+      }
+    };
+    if (this.lastSeq !== null) {
+      dataRequest.config.resumeAfterSeq = this.lastSeq.toString();
+      this.decoder.resubscribe();
+    }
 
-  // 将DataChunk转换为Float32Array数组
-  private convertDataChunkToFloat32Arrays(chunk: any, channels: number): Float32Array[] {
-    const result: Float32Array[] = [];
-    
-    // 假设payload是交错的16位整数数据
-    const samples = chunk.payload.length / 2; // 16位 = 2字节
-    const samplesPerChannel = Math.floor(samples / channels);
-    
-    // 为每个通道创建Float32Array
-    for (let ch = 0; ch < channels; ch++) {
-      const channelData = new Float32Array(samplesPerChannel);
-      
-      // 从交错数据中提取通道数据
-      for (let i = 0; i < samplesPerChannel; i++) {
-        const byteIndex = (i * channels + ch) * 2;
-        if (byteIndex + 1 < chunk.payload.length) {
-          // 将16位整数转换为浮点数 (-1.0 到 1.0)
-          const value = (chunk.payload[byteIndex] | (chunk.payload[byteIndex + 1] << 8));
-          channelData[i] = value / 32768.0; // 归一化到 -1.0 到 1.0
+    const subscription = this.grpc.subscribeToDataStream(
+      dataRequest,
+      (chunk) => {
+        // 已被替换或取消的订阅不再向外投递数据
+        if (subscription !== this.subscription) return;
+
+        if (this.acquisition.state === 'armed') {
+          this.acquisition.transition('streaming');
+        }
+        if (this.reconnectAttempt > 0) {
+          this.emitConnectionState({ state: 'resumed', resumeAfterSeq: this.lastSeq ?? undefined });
+          this.reconnectAttempt = 0;
         }
+
+        const sequenceEvent = this.decoder.decode(chunk, config, {
+          data: (data, metadata) => {
+            this.events.emit('data', data, metadata);
+            this.events.emit('metadata', metadata);
+          },
+          error: (error) => this.events.emit('error', error),
+          // 解码期间订阅已被替换或取消
+          current: () => subscription === this.subscription
+        });
+        if (sequenceEvent.kind !== 'reordered' && sequenceEvent.kind !== 'duplicate') {
+          this.lastSeq = chunk.seq;
+        }
+      },
+      (error) => {
+        if (subscription !== this.subscription) return;
+        console.error('gRPC数据流错误:', error);
+        this.events.emit('error', error);
+        this.scheduleReconnect(error);
+      },
+      () => {
+        if (subscription !== this.subscription) return;
+        console.log('gRPC数据流结束');
+        // 采集仍在进行时服务端关闭流视为断线
+        this.scheduleReconnect(new Error('数据流被服务端关闭'));
       }
-      
-      result.push(channelData);
+    );
+    this.subscription = subscription;
+  }
+
+  private scheduleReconnect(error: Error): void {
+    if (!this.acquisition.active || !this.currentConfig || this.reconnectTimer !== null) return;
+
+    this.subscription = null;
+    this.reconnectAttempt++;
+
+    if (this.reconnectAttempt > this.reconnectPolicy.maxAttempts) {
+      console.error(`gRPC数据流重连失败，已尝试 ${this.reconnectPolicy.maxAttempts} 次`);
+      this.reconnectAttempt = 0;
+      this.acquisition.fail(error);
+      this.emitConnectionState({ state: 'gaveUp', error });
+      return;
+    }
+
+    const delayMs = computeReconnectDelay(this.reconnectAttempt, this.reconnectPolicy);
+    this.emitConnectionState({
+      state: 'reconnecting',
+      attempt: this.reconnectAttempt,
+      maxAttempts: this.reconnectPolicy.maxAttempts,
+      delayMs,
+      resumeAfterSeq: this.lastSeq ?? undefined,
+      error
+    });
+
+    const config = this.currentConfig;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.acquisition.active) {
+        this.openSubscription(config);
+      }
+    }, delayMs);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
-    
-    return result;
+    this.reconnectAttempt = 0;
   }
 
-  // 计算数据率 (MB/s)
-  private calculateDataRate(bytesReceived: number): number {
-    const megabytes = bytesReceived / (1024 * 1024);
-    return megabytes * 60; // 假设60fps，计算每秒数据率
+  private emitConnectionState(event: StreamConnectionEvent): void {
+    this.connectionState = event.state;
+    this.events.emit('connection', event);
+  }
+
+  // 取消当前订阅并等待底层请求结束
+  private async closeSubscription(): Promise<void> {
+    const subscription = this.subscription;
+    if (!subscription) return;
+
+    this.subscription = null;
+    subscription.cancel();
+    await subscription.closed;
+  }
+
+  // 设置吞吐量统计窗口，已累计的统计会被清空
+  setThroughputOptions(options: Partial<ThroughputMeterOptions>): void {
+    this.decoder.setThroughputOptions(options);
+  }
+
+  /**
+   * 与其他设备共用设备时钟时间轴，使多台设备的数据对齐到同一起点；
+   * 共用的时间轴由调用方在会话开始时重置，传 null 恢复独立时间轴
+   */
+  useSharedTimeline(timeline: DeviceTimeline | null): void {
+    this.decoder.useSharedTimeline(timeline);
+  }
+
+  // 不再与 timeline 共用；已改用其他时间轴时不做处理（新的多设备会话可能先于旧会话释放而建立）
+  releaseSharedTimeline(timeline: DeviceTimeline): void {
+    this.decoder.releaseSharedTimeline(timeline);
+  }
+
+  // 设置断线重连策略
+  setReconnectPolicy(policy: Partial<ReconnectPolicy>): void {
+    this.reconnectPolicy = { ...this.reconnectPolicy, ...policy };
+  }
+
+  private requestedFormat(config: RealDataServiceConfig): SampleFormat {
+    return { ...DEFAULT_SAMPLE_FORMAT, ...config.sampleFormat };
   }
 
   async cleanup(): Promise<void> {
     try {
       await this.stop();
       
-      if (signalrClient.connected) {
-        await signalrClient.leavePerformanceGroup();
-        await signalrClient.disconnect();
+      if (this.signalr.connected) {
+        await this.signalr.leavePerformanceGroup();
+        await this.signalr.disconnect();
       }
       
       console.log('实时数据服务清理完成');
@@ -262,18 +513,45 @@ export class RealDataService {
     }
   }
 
+  /**
+   * 清理并移除所有订阅者和 SignalR 事件处理，之后实例不可再用
+   */
+  async dispose(): Promise<void> {
+    await this.cleanup();
+    this.signalRDisposers.forEach(dispose => dispose());
+    this.signalRDisposers = [];
+    this.events.removeAllListeners();
+  }
+
   // 获取当前状态
   get streaming(): boolean {
-    return this.isStreaming;
+    return this.acquisition.active;
   }
 
   get paused(): boolean {
-    return this.isPaused;
+    return this.acquisition.state === 'paused';
   }
 
   get config(): RealDataServiceConfig | null {
     return this.currentConfig;
   }
+
+  get throughputSnapshot(): ThroughputSnapshot {
+    return this.decoder.throughputSnapshot;
+  }
+
+  get sequenceStats(): SequenceStats {
+    return this.decoder.sequenceStats;
+  }
+
+  get streamConnectionState(): StreamConnectionState {
+    return this.connectionState;
+  }
+
+  // 当前数据流订阅的状态
+  get subscriptionState(): DataStreamSubscription['state'] | null {
+    return this.subscription ? this.subscription.state : null;
+  }
 }
 
 // 单例实例
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+import { RealDataSource } from './realDataSource';
+import { ChunkMetadata, DataSourceEvent } from './dataSource';
+import { mockConfigToRealConfig, RealDataService } from './realDataService';
+import { DeviceEntry } from './deviceRegistry';
+import { Ack, DAQGrpcClient, DataChunk, DataRequest, DataStreamSubscription } from './grpcClient';
+import { DAQSignalRClient } from './signalrClient';
+import { MockConfig } from '../utils/mockDataGenerator';
+
+const config: MockConfig = {
+  channels: 1,
+  sampleRate: 1000,
+  bufferSize: 4,
+  waveformType: 'sine',
+  amplitude: 1,
+  frequency: 10,
+  noiseLevel: 0
+};
+
+interface FakeDevice {
+  entry: DeviceEntry;
+  hubError: (message: string) => void; // 模拟服务端通过 Hub 推送的错误
+  send: (tickNs: string) => void; // 在最近一次订阅的数据流上推送一块数据
+}
+
+// 已连接的控制通道；数据流由测试通过 send 推送
+function createDevice(id: string): FakeDevice {
+  const hubErrors: ((message: string) => void)[] = [];
+  let onData: (chunk: DataChunk) => void = () => undefined;
+  let seq = 0;
+  const subscribe = () => () => undefined;
+  const signalr = {
+    connected: true,
+    onPerformanceUpdate: subscribe,
+    onStatusUpdate: subscribe,
+    onError: (callback: (message: string) => void) => {
+      hubErrors.push(callback);
+      return () => hubErrors.splice(hubErrors.indexOf(callback), 1);
+    },
+    on: subscribe,
+    onConnectionChange: subscribe,
+    onSessionRestore: subscribe,
+    sendControlCommand: async () => undefined
+  } as unknown as DAQSignalRClient;
+  const grpc = {
+    subscribeToDataStream: (request: DataRequest, handler: (chunk: DataChunk) => void): DataStreamSubscription => {
+      onData = handler;
+      return { state: 'streaming', closed: Promise.resolve(), cancel: () => undefined };
+    },
+    sendControlCommand: async (): Promise<Ack> => ({ success: true, message: '', timestamp: '0' })
+  } as unknown as DAQGrpcClient;
+  const service = new RealDataService({ deviceId: id, grpc, signalr, decodePool: null });
+
+  return {
+    entry: { id, name: id, baseUrl: `http://${id}:5000`, grpc, signalr, service },
+    hubError: message => hubErrors.forEach(callback => callback(message)),
+    send: tickNs => onData({ payload: new Uint8Array(8), seq: seq++, tick_ns: tickNs, tags: {} })
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('RealDataSource lifecycle', () => {
+  test('forwards service events again after being disposed and reused', async () => {
+    const device = createDevice('a');
+    const source = new RealDataSource([device.entry]);
+    const events: DataSourceEvent[] = [];
+
+    // StrictMode 下 effect 先订阅、清理（dispose），再用同一个数据源重新订阅
+    source.onEvent(event => events.push(event));
+    await source.dispose();
+    device.hubError('ignored');
+    source.onEvent(event => events.push(event));
+    device.hubError('overload');
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'error', deviceId: 'a' });
+    expect((events[0] as { error: Error }).error.message).toBe('overload');
+  });
+
+  test('shares the device timeline and follows device states after being disposed and reused', async () => {
+    const a = createDevice('a');
+    const b = createDevice('b');
+    const source = new RealDataSource([a.entry, b.entry]);
+    source.onEvent(() => undefined);
+    await source.dispose();
+
+    const received: ChunkMetadata[] = [];
+    source.onEvent(() => undefined);
+    await source.start(config, (data, metadata) => received.push(metadata));
+    a.send('5000000000');
+    b.send('7500000000');
+
+    // 两台设备对齐到第一块数据的设备时间
+    expect(received.map(metadata => [metadata.deviceId, metadata.timeline?.startS])).toEqual([['a', 0], ['b', 2.5]]);
+    expect(source.state).toBe('streaming');
+
+    b.entry.service.acquisition.fail(new Error('device b lost'));
+    expect(source.state).toBe('error');
+    expect(source.acquisition.snapshot.error?.message).toBe('device b lost');
+  });
+
+  test('gives the devices their own timelines back on dispose', async () => {
+    const a = createDevice('a');
+    const b = createDevice('b');
+    const source = new RealDataSource([a.entry, b.entry]);
+    await source.start(config, () => undefined);
+    a.send('5000000000');
+    await source.stop();
+    await source.dispose();
+
+    // 之后单独采集设备 a：时间轴以本次会话的第一块为起点
+    const received: ChunkMetadata[] = [];
+    await a.entry.service.start(mockConfigToRealConfig(config), (data, metadata) => received.push(metadata));
+    a.send('9000000000');
+    expect(received[0].timeline?.startS).toBe(0);
+  });
+});
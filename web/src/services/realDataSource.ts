@@ -0,0 +1,250 @@
+import { BaseDataSource, ChunkMetadata, ConfigUpdateResult, DataCallback, DataSourceListener } from './dataSource';
+import { mockConfigToRealConfig, RealDataService, RealDataServiceConfig } from './realDataService';
+import { AcquisitionStateMachine, isAcquisitionActive } from './acquisitionState';
+import { DeviceEntry, deviceRegistry } from './deviceRegistry';
+import { MockConfig } from '../utils/mockDataGenerator';
+import { DeviceTimeline } from '../utils/deviceTimeline';
+import { Disposer } from '../utils/typedEventEmitter';
+
+/**
+ * 通过 gRPC-Web 数据流和 SignalR 控制通道连接 DAQ 服务的数据源
+ * 可以同时采集多台设备：所有设备使用同一配置，数据按设备时钟对齐到同一时间轴
+ */
+export class RealDataSource extends BaseDataSource {
+  readonly kind = 'real';
+  readonly label: string;
+  readonly remote = true;
+
+  private readonly devices: DeviceEntry[];
+  private readonly timeline: DeviceTimeline = new DeviceTimeline(); // 多设备共用
+  private disposers: Disposer[] = [];
+  private attached: boolean = false; // 是否已连接各设备服务（事件转发、共用时间轴、状态跟随）
+
+  constructor(devices: DeviceEntry[] = deviceRegistry.selectedDevices()) {
+    // 单台设备直接共用 RealDataService 的状态机；多台设备的状态由本类维护并跟随各设备
+    super(devices.length === 1 ? devices[0].service.acquisition : new AcquisitionStateMachine());
+    this.devices = devices;
+    this.label = devices.length > 1 ? `真实数据 (${devices.length} 台设备)` : '真实数据';
+  }
+
+  onEvent(listener: DataSourceListener): () => void {
+    this.attachDevices();
+    return super.onEvent(listener);
+  }
+
+  async start(config: MockConfig, onData: DataCallback): Promise<void> {
+    if (this.devices.length === 0) {
+      throw new Error('未选择任何设备');
+    }
+    this.attachDevices();
+    this.emit({ type: 'connection', connection: { state: 'connecting' } });
+
+    const realConfig = mockConfigToRealConfig(config);
+    const single = this.singleService;
+    if (single) {
+      await single.start(realConfig, this.deliverFrom(this.devices[0], onData));
+      return;
+    }
+
+    this.acquisition.transition('connecting');
+    this.timeline.reset();
+    const results = await Promise.allSettled(
+      this.devices.map(device => device.service.start(realConfig, this.deliverFrom(device, onData)))
+    );
+    const failure = this.firstFailure(results);
+    if (failure) {
+      // 部分设备启动失败时停止已启动的设备，不留下半个会话
+      await Promise.allSettled(this.devices.map(device => device.service.stop()));
+      this.acquisition.fail(failure);
+      throw failure;
+    }
+    if (this.acquisition.state === 'connecting') {
+      this.acquisition.transition('armed');
+    }
+  }
+
+  async stop(): Promise<void> {
+    const single = this.singleService;
+    if (single) {
+      await single.stop();
+      return;
+    }
+    if (this.acquisition.state === 'idle') return;
+
+    this.acquisition.transition('stopping');
+    const failure = this.firstFailure(
+      await Promise.allSettled(this.devices.map(device => device.service.stop()))
+    );
+    if (failure) {
+      this.acquisition.fail(failure);
+      throw failure;
+    }
+    this.acquisition.transition('idle');
+  }
+
+  async pause(): Promise<void> {
+    const single = this.singleService;
+    if (single) {
+      await single.pause();
+      return;
+    }
+
+    this.acquisition.assertCan('paused');
+    await this.runOnAll(service => service.pause(), service => service.resume());
+    if (this.acquisition.can('paused')) {
+      this.acquisition.transition('paused');
+    }
+  }
+
+  async resume(): Promise<void> {
+    const single = this.singleService;
+    if (single) {
+      await single.resume();
+      return;
+    }
+
+    this.acquisition.assertCan('streaming');
+    await this.runOnAll(service => service.resume(), service => service.pause());
+    if (this.acquisition.state === 'paused') {
+      this.acquisition.transition('streaming');
+    }
+  }
+
+  async updateConfig(config: Partial<MockConfig>): Promise<ConfigUpdateResult> {
+    // 只转发界面实际修改的字段；未启动时下次 start 使用界面传入的配置
+    const update: Partial<RealDataServiceConfig> = {};
+    const pick = <K extends keyof MockConfig & keyof RealDataServiceConfig>(key: K) => {
+      if (config[key] !== undefined) {
+        update[key] = config[key];
+      }
+    };
+    pick('channels');
+    pick('sampleRate');
+    pick('bufferSize');
+    pick('waveformType');
+    pick('amplitude');
+    pick('frequency');
+
+    const results = await Promise.all(this.devices.map(device => device.service.updateConfig(update)));
+    if (results.length === 1) return results[0];
+
+    // 任一设备需要重启即视为重启；各设备的配置版本号独立，标记分别出现在各自的数据中
+    const messages = results.map(result => result.message).filter(Boolean);
+    return {
+      mode: results.some(result => result.mode === 'restart')
+        ? 'restart'
+        : results.every(result => result.mode === 'deferred') ? 'deferred' : 'live',
+      message: messages.length > 0 ? messages.join('; ') : undefined
+    };
+  }
+
+  async resetServerMetrics(deviceId?: string): Promise<void> {
+    await Promise.all(this.devicesFor(deviceId).map(device => device.service.resetMetrics()));
+  }
+
+  async requestClientMetrics(clientId: string, deviceId?: string): Promise<void> {
+    await Promise.all(this.devicesFor(deviceId).map(device => device.service.requestClientMetrics(clientId)));
+  }
+
+  async dispose(): Promise<void> {
+    await super.dispose();
+    this.disposers.forEach(dispose => dispose());
+    this.disposers = [];
+    this.attached = false;
+    if (this.devices.length > 1) {
+      this.devices.forEach(device => device.service.releaseSharedTimeline(this.timeline));
+    }
+  }
+
+  /**
+   * 把各设备服务的事件转成数据源事件；多设备时共用时间轴并跟随各设备的状态
+   * 在订阅或启动时才连接，dispose 之后再使用会重新连接（StrictMode 下 effect 会先清理再重新执行）
+   */
+  private attachDevices(): void {
+    if (this.attached) return;
+    this.attached = true;
+    this.devices.forEach(({ id, service }) => {
+      this.disposers.push(
+        service.on('connection', (connection) => this.emit({ type: 'connection', connection, deviceId: id })),
+        service.on('hubConnection', (connection) => this.emit({ type: 'hubConnection', connection, deviceId: id })),
+        service.on('performance', (metrics) => this.emit({ type: 'serverMetrics', metrics, deviceId: id })),
+        service.on('error', (error) => this.emit({ type: 'error', error, deviceId: id })),
+        service.on('clientMetrics', (message) => this.emit({ type: 'clientMetrics', message, deviceId: id })),
+        service.on('metricsReset', (message) => this.emit({ type: 'metricsReset', message, deviceId: id }))
+      );
+      if (this.devices.length > 1) {
+        service.useSharedTimeline(this.timeline);
+        this.disposers.push(service.acquisition.subscribe(() => this.followDevices()));
+      }
+    });
+  }
+
+  private devicesFor(deviceId?: string): DeviceEntry[] {
+    return deviceId === undefined ? this.devices : this.devices.filter(device => device.id === deviceId);
+  }
+
+  private get singleService(): RealDataService | null {
+    return this.devices.length === 1 ? this.devices[0].service : null;
+  }
+
+  // 为每块数据标注来源设备；多设备时第一块数据到达后进入 streaming
+  private deliverFrom(device: DeviceEntry, onData: DataCallback): DataCallback {
+    return (data, metadata) => {
+      if (this.devices.length > 1 && this.acquisition.state === 'armed') {
+        this.acquisition.transition('streaming');
+      }
+      const tagged: ChunkMetadata = metadata.deviceId ? metadata : { ...metadata, deviceId: device.id };
+      onData(data, tagged);
+    };
+  }
+
+  // 对所有设备执行同一操作；部分失败时对已成功的设备执行 rollback，保持各设备一致
+  private async runOnAll(
+    action: (service: RealDataService) => Promise<void>,
+    rollback: (service: RealDataService) => Promise<void>
+  ): Promise<void> {
+    const results = await Promise.allSettled(this.devices.map(device => action(device.service)));
+    const failure = this.firstFailure(results);
+    if (!failure) return;
+
+    await Promise.allSettled(
+      this.devices
+        .filter((_, i) => results[i].status === 'fulfilled')
+        .map(device => rollback(device.service))
+    );
+    throw failure;
+  }
+
+  private firstFailure(results: PromiseSettledResult<unknown>[]): Error | null {
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (!rejected) return null;
+    return rejected.reason instanceof Error ? rejected.reason : new Error(String(rejected.reason));
+  }
+
+  /**
+   * 多设备时根据各设备的状态（含服务端状态校正的结果）更新整体状态；
+   * 本类自己的 start/stop 进行中时不干预
+   */
+  private followDevices(): void {
+    const state = this.acquisition.state;
+    if (state === 'connecting' || state === 'stopping' || state === 'idle') return;
+
+    const snapshots = this.devices.map(device => device.service.acquisition.snapshot);
+    const failed = snapshots.find(snapshot => snapshot.state === 'error');
+    if (failed) {
+      if (state !== 'error') {
+        this.acquisition.fail(failed.error ?? new Error('设备出错'));
+      }
+      return;
+    }
+
+    if (this.acquisition.active && snapshots.every(snapshot => !isAcquisitionActive(snapshot.state))) {
+      // 所有设备都已被服务端停止
+      this.acquisition.reset();
+    } else if (state === 'streaming' && snapshots.every(snapshot => snapshot.state === 'paused')) {
+      this.acquisition.transition('paused');
+    } else if (state === 'paused' && snapshots.every(snapshot => snapshot.state === 'streaming')) {
+      this.acquisition.transition('streaming');
+    }
+  }
+}
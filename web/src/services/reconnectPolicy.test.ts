@@ -0,0 +1,37 @@
+import { computeReconnectDelay, DEFAULT_RECONNECT_POLICY, ReconnectPolicy } from './reconnectPolicy';
+
+const policy: ReconnectPolicy = {
+  initialDelayMs: 100,
+  maxDelayMs: 1000,
+  multiplier: 2,
+  maxAttempts: 8,
+  jitter: 0
+};
+
+describe('computeReconnectDelay', () => {
+  test('grows exponentially from the initial delay and stops at maxDelayMs', () => {
+    const delays = [1, 2, 3, 4, 5, 6].map(attempt => computeReconnectDelay(attempt, policy));
+    expect(delays).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  test('treats attempts below 1 as the first attempt', () => {
+    expect(computeReconnectDelay(0, policy)).toBe(100);
+  });
+
+  test('keeps jitter within ± jitter × base delay', () => {
+    const jittered = { ...policy, jitter: 0.2 };
+    expect(computeReconnectDelay(3, jittered, () => 0)).toBe(320);
+    expect(computeReconnectDelay(3, jittered, () => 0.5)).toBe(400);
+    expect(computeReconnectDelay(3, jittered, () => 0.999999)).toBe(480);
+
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const delay = computeReconnectDelay(attempt, DEFAULT_RECONNECT_POLICY);
+      const base = Math.min(
+        DEFAULT_RECONNECT_POLICY.maxDelayMs,
+        DEFAULT_RECONNECT_POLICY.initialDelayMs * Math.pow(DEFAULT_RECONNECT_POLICY.multiplier, attempt - 1)
+      );
+      expect(delay).toBeGreaterThanOrEqual(base * (1 - DEFAULT_RECONNECT_POLICY.jitter));
+      expect(delay).toBeLessThanOrEqual(base * (1 + DEFAULT_RECONNECT_POLICY.jitter));
+    }
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * 数据流断线重连策略
+ * 指数退避 + 随机抖动，超过最大次数后放弃
+ */
+
+export interface ReconnectPolicy {
+  initialDelayMs: number; // 第一次重连前的等待
+  maxDelayMs: number; // 退避上限
+  multiplier: number; // 每次失败后的放大倍数
+  maxAttempts: number; // 连续失败多少次后放弃
+  jitter: number; // 0-1, 延迟的随机浮动比例
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  multiplier: 2,
+  maxAttempts: 8,
+  jitter: 0.2
+};
+
+/**
+ * 第 attempt 次重连（从1开始）前应等待的毫秒数
+ */
+export function computeReconnectDelay(
+  attempt: number,
+  policy: ReconnectPolicy,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1))
+  );
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+export type StreamConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'resumed'
+  | 'gaveUp';
+
+export interface StreamConnectionEvent {
+  state: StreamConnectionState;
+  attempt?: number; // reconnecting: 当前是第几次重连
+  maxAttempts?: number;
+  delayMs?: number; // reconnecting: 距离下次重连的等待时间
+  resumeAfterSeq?: number; // 重连时请求服务端从该序号之后继续（.NET 服务尚未实现，会从 0 重新编号）
+  error?: Error; // 导致断线的错误
+}
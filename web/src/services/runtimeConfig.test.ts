@@ -0,0 +1,133 @@
+import {
+  applyRuntimeSettings,
+  DEFAULT_RUNTIME_CONFIG,
+  formatRuntimeConfigIssue,
+  loadRuntimeConfig,
+  parseQuerySettings,
+  RUNTIME_SETTINGS_STORAGE_KEY
+} from './runtimeConfig';
+
+function jsonResponse(body: string, status: number = 200): Response {
+  return { ok: status >= 200 && status < 300, status, text: async () => body } as Response;
+}
+
+function memoryStorage(values: { [key: string]: string } = {}): Pick<Storage, 'getItem'> {
+  return { getItem: (key: string) => values[key] ?? null };
+}
+
+describe('applyRuntimeSettings', () => {
+  test('overrides individual fields and keeps the rest', () => {
+    const { config, issues } = applyRuntimeSettings(DEFAULT_RUNTIME_CONFIG, {
+      serviceUrl: 'https://daq.lab.local:8443/',
+      timeouts: { requestMs: 2000 },
+      defaultCard: 'PXIe-5500'
+    }, 'file');
+
+    expect(issues).toEqual([]);
+    expect(config.serviceUrl).toBe('https://daq.lab.local:8443');
+    expect(config.timeouts).toEqual({ ...DEFAULT_RUNTIME_CONFIG.timeouts, requestMs: 2000 });
+    expect(config.defaultCard).toBe('PXIe-5500');
+    expect(config.signalr).toEqual(DEFAULT_RUNTIME_CONFIG.signalr);
+  });
+
+  test('reports invalid fields with their path and keeps the previous value', () => {
+    const { config, issues } = applyRuntimeSettings(DEFAULT_RUNTIME_CONFIG, {
+      serviceUrl: 'ftp://daq',
+      timeouts: { connectMs: -1 },
+      signalr: { transports: ['webSockets', 'carrierPigeon'] },
+      defaultCard: 'PXIe-0000',
+      servicUrl: 'http://typo'
+    }, 'file');
+
+    expect(config).toEqual(DEFAULT_RUNTIME_CONFIG);
+    expect(issues.map(issue => issue.path)).toEqual([
+      'servicUrl',
+      'serviceUrl',
+      'defaultCard',
+      'signalr.transports',
+      'timeouts.connectMs'
+    ]);
+    expect(formatRuntimeConfigIssue(issues[2])).toContain('[runtime-config.json] defaultCard: 未知的板卡型号');
+  });
+
+  test('corrects inconsistent transport and keep-alive settings', () => {
+    const { config, issues } = applyRuntimeSettings(DEFAULT_RUNTIME_CONFIG, {
+      signalr: { transports: ['webSockets', 'longPolling'] },
+      timeouts: { serverTimeoutMs: 10000 }
+    }, 'query');
+
+    expect(config.signalr.skipNegotiation).toBe(false);
+    expect(config.timeouts.keepAliveMs).toBe(5000);
+    expect(issues.map(issue => issue.path)).toEqual(['signalr.skipNegotiation', 'timeouts.keepAliveMs']);
+  });
+
+  test('validates fallback transports and the reconnect policy', () => {
+    const { config, issues } = applyRuntimeSettings(DEFAULT_RUNTIME_CONFIG, {
+      signalr: { fallbackTransports: ['serverSentEvents', 'longPolling'], reconnectAttempts: 0, reconnectMaxDelayMs: 0 }
+    }, 'settings');
+
+    expect(config.signalr.fallbackTransports).toEqual(['serverSentEvents', 'longPolling']);
+    expect(config.signalr.reconnectAttempts).toBe(0);
+    expect(config.signalr.reconnectMaxDelayMs).toBe(DEFAULT_RUNTIME_CONFIG.signalr.reconnectMaxDelayMs);
+    expect(issues.map(issue => issue.path)).toEqual(['signalr.reconnectMaxDelayMs']);
+  });
+});
+
+describe('parseQuerySettings', () => {
+  test('maps query parameters onto the configuration shape', () => {
+    expect(parseQuerySettings('?serviceUrl=http://10.0.0.5:5000&transports=webSockets,longPolling'
+      + '&skipNegotiation=false&requestTimeoutMs=3000&card=PXIe-5500&source=real&other=1')).toEqual({
+      serviceUrl: 'http://10.0.0.5:5000',
+      defaultCard: 'PXIe-5500',
+      defaultDataSource: 'real',
+      signalr: { transports: ['webSockets', 'longPolling'], skipNegotiation: false },
+      timeouts: { requestMs: 3000 }
+    });
+  });
+
+  test('returns null when no parameter belongs to the configuration', () => {
+    expect(parseQuerySettings('?debug=1')).toBeNull();
+  });
+
+  test('leaves malformed values for applyRuntimeSettings to report', () => {
+    const query = parseQuerySettings('?skipNegotiation=maybe&reconnectAttempts=-1');
+    expect(query).toEqual({ signalr: { skipNegotiation: 'maybe', reconnectAttempts: '-1' } });
+
+    const { config, issues } = applyRuntimeSettings(DEFAULT_RUNTIME_CONFIG, query, 'query');
+    expect(config.signalr).toEqual(DEFAULT_RUNTIME_CONFIG.signalr);
+    expect(issues.map(issue => issue.path)).toEqual(['signalr.skipNegotiation', 'signalr.reconnectAttempts']);
+  });
+});
+
+describe('loadRuntimeConfig', () => {
+  test('layers file, stored settings and query parameters in that order', async () => {
+    const { config, issues } = await loadRuntimeConfig({
+      fetchImpl: async () => jsonResponse(JSON.stringify({ serviceUrl: 'http://file:5000', defaultCard: 'PXIe-5500' })),
+      storage: memoryStorage({ [RUNTIME_SETTINGS_STORAGE_KEY]: JSON.stringify({ serviceUrl: 'http://stored:5000' }) }),
+      search: '?requestTimeoutMs=abc'
+    });
+
+    expect(config.serviceUrl).toBe('http://stored:5000');
+    expect(config.defaultCard).toBe('PXIe-5500');
+    expect(config.timeouts.requestMs).toBe(DEFAULT_RUNTIME_CONFIG.timeouts.requestMs);
+    expect(issues).toEqual([expect.objectContaining({ source: 'query', path: 'timeouts.requestMs' })]);
+  });
+
+  test('treats a missing file as no overrides and reports malformed JSON', async () => {
+    const missing = await loadRuntimeConfig({
+      fetchImpl: async () => jsonResponse('', 404),
+      storage: null,
+      search: ''
+    });
+    expect(missing).toEqual({ config: DEFAULT_RUNTIME_CONFIG, issues: [] });
+
+    const malformed = await loadRuntimeConfig({
+      fetchImpl: async () => jsonResponse('{ "serviceUrl": '),
+      storage: null,
+      search: ''
+    });
+    expect(malformed.config).toEqual(DEFAULT_RUNTIME_CONFIG);
+    expect(malformed.issues).toEqual([expect.objectContaining({ source: 'file', path: '' })]);
+    expect(malformed.issues[0].message).toContain('不是有效的 JSON');
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * 运行时配置
+ * 同一份构建可以部署到实验室和生产环境：服务地址、传输方式、超时和默认板卡在启动时按
+ *   默认值 → public/runtime-config.json → 设置对话框（localStorage）→ 地址栏查询参数
+ * 逐层覆盖。每一层单独校验，无效的字段保留上一层的值并记录为可读的错误
+ */
+
+import { CARD_CONFIGS } from '../utils/mockDataGenerator';
+
+export type SignalRTransportName = 'webSockets' | 'serverSentEvents' | 'longPolling';
+
+export const SIGNALR_TRANSPORTS: readonly SignalRTransportName[] = ['webSockets', 'serverSentEvents', 'longPolling'];
+
+export interface RuntimeDeviceConfig {
+  id?: string;
+  name: string;
+  baseUrl: string;
+}
+
+export interface RuntimeConfig {
+  serviceUrl: string; // 默认设备的 DAQ 服务地址（gRPC-Web 和 SignalR 共用）
+  devices: RuntimeDeviceConfig[]; // 额外登记的设备，启动时不选中
+  signalr: {
+    hubPath: string;
+    transports: SignalRTransportName[]; // 允许的传输方式
+    skipNegotiation: boolean; // 跳过协商直接建立 WebSocket，只能与 webSockets 单独使用
+    fallbackTransports: SignalRTransportName[]; // 首选方式连接失败后经协商改用的传输方式，空数组表示不回退
+    reconnectAttempts: number; // 断线后自动重连的最多次数，0 表示不自动重连
+    reconnectMaxDelayMs: number; // 重连退避的上限
+  };
+  timeouts: {
+    connectMs: number; // SignalR 连接和 Subscribe 数据流等待响应头的时间
+    requestMs: number; // Control 等一元调用
+    serverTimeoutMs: number; // SignalR 多久收不到服务端消息视为断线
+    keepAliveMs: number; // SignalR 心跳间隔，不能超过 serverTimeoutMs 的一半
+  };
+  defaultCard: string; // CARD_CONFIGS 中的板卡型号
+  defaultDataSource: 'mock' | 'real';
+}
+
+/**
+ * 可覆盖的部分配置；分组内的字段可以单独覆盖
+ */
+export type RuntimeSettings = Partial<Omit<RuntimeConfig, 'signalr' | 'timeouts'>> & {
+  signalr?: Partial<RuntimeConfig['signalr']>;
+  timeouts?: Partial<RuntimeConfig['timeouts']>;
+};
+
+export type RuntimeConfigSource = 'file' | 'settings' | 'query';
+
+export interface RuntimeConfigIssue {
+  source: RuntimeConfigSource;
+  path: string; // 出错的字段，例如 timeouts.requestMs
+  message: string;
+}
+
+export interface RuntimeConfigLoadResult {
+  config: RuntimeConfig;
+  issues: RuntimeConfigIssue[];
+}
+
+export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
+  serviceUrl: 'http://localhost:5000',
+  devices: [],
+  signalr: {
+    hubPath: '/daqhub',
+    transports: ['webSockets'],
+    skipNegotiation: true,
+    fallbackTransports: [],
+    reconnectAttempts: 8,
+    reconnectMaxDelayMs: 10000
+  },
+  timeouts: {
+    connectMs: 10000,
+    requestMs: 5000,
+    serverTimeoutMs: 30000,
+    keepAliveMs: 15000
+  },
+  defaultCard: 'PXIe-69846H',
+  defaultDataSource: 'mock'
+};
+
+export const RUNTIME_CONFIG_URL = `${process.env.PUBLIC_URL ?? ''}/runtime-config.json`;
+export const RUNTIME_SETTINGS_STORAGE_KEY = 'jytek.runtimeSettings';
+
+const SOURCE_LABELS: Record<RuntimeConfigSource, string> = {
+  file: 'runtime-config.json',
+  settings: '设置',
+  query: '地址栏参数'
+};
+
+export function formatRuntimeConfigIssue(issue: RuntimeConfigIssue): string {
+  const field = issue.path ? ` ${issue.path}` : '';
+  return `[${SOURCE_LABELS[issue.source]}]${field}: ${issue.message}`;
+}
+
+// 服务地址只接受 http/https，去掉末尾的斜杠
+export function normalizeBaseUrl(baseUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    throw new Error(`无效的设备地址: "${baseUrl}"`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`设备地址必须是 http 或 https: "${baseUrl}"`);
+  }
+  return url.toString().replace(/\/+$/, '');
+}
+
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+type Report = (path: string, message: string) => void;
+
+function readUrl(value: unknown, path: string, report: Report): string | undefined {
+  if (typeof value !== 'string') {
+    report(path, '必须是字符串');
+    return undefined;
+  }
+  try {
+    return normalizeBaseUrl(value);
+  } catch (error) {
+    report(path, (error as Error).message);
+    return undefined;
+  }
+}
+
+function readTransports(value: unknown, path: string, allowEmpty: boolean, report: Report): SignalRTransportName[] | undefined {
+  if (!Array.isArray(value) || (!allowEmpty && value.length === 0)) {
+    report(path, `必须是${allowEmpty ? '' : '非空'}数组，可用的有 ${SIGNALR_TRANSPORTS.join(', ')}`);
+    return undefined;
+  }
+  const unknown = value.filter(name => !SIGNALR_TRANSPORTS.includes(name));
+  if (unknown.length > 0) {
+    report(path, `未知的传输方式 ${unknown.join(', ')}，可用的有 ${SIGNALR_TRANSPORTS.join(', ')}`);
+    return undefined;
+  }
+  return value as SignalRTransportName[];
+}
+
+function readTimeout(value: unknown, path: string, report: Report): number | undefined {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    report(path, `必须是正整数（毫秒），实际为 ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+// 检查对象中是否有拼写错误的字段
+function reportUnknownKeys(input: { [key: string]: unknown }, known: string[], prefix: string, report: Report): void {
+  Object.keys(input)
+    .filter(key => !known.includes(key))
+    .forEach(key => report(prefix + key, `未知的配置项，可用的有 ${known.join(', ')}`));
+}
+
+function readDevices(value: unknown, report: Report): RuntimeDeviceConfig[] | undefined {
+  if (!Array.isArray(value)) {
+    report('devices', '必须是数组');
+    return undefined;
+  }
+
+  const devices: RuntimeDeviceConfig[] = [];
+  value.forEach((item, index) => {
+    const path = `devices[${index}]`;
+    if (!isRecord(item)) {
+      report(path, '必须是 { name, baseUrl } 对象');
+      return;
+    }
+    const baseUrl = readUrl(item.baseUrl, `${path}.baseUrl`, report);
+    if (baseUrl === undefined) return;
+    if (item.id !== undefined && typeof item.id !== 'string') {
+      report(`${path}.id`, '必须是字符串');
+      return;
+    }
+    devices.push({
+      id: item.id as string | undefined,
+      name: typeof item.name === 'string' ? item.name : baseUrl,
+      baseUrl
+    });
+  });
+  return devices;
+}
+
+/**
+ * 把一层配置合并到 base 上；无效字段保留 base 的值并记录问题
+ */
+export function applyRuntimeSettings(
+  base: RuntimeConfig,
+  input: unknown,
+  source: RuntimeConfigSource
+): RuntimeConfigLoadResult {
+  const issues: RuntimeConfigIssue[] = [];
+  const report: Report = (path, message) => issues.push({ source, path, message });
+  const config: RuntimeConfig = {
+    ...base,
+    signalr: { ...base.signalr },
+    timeouts: { ...base.timeouts }
+  };
+
+  if (!isRecord(input)) {
+    report('', '配置必须是 JSON 对象');
+    return { config, issues };
+  }
+  reportUnknownKeys(input, Object.keys(DEFAULT_RUNTIME_CONFIG), '', report);
+
+  if (input.serviceUrl !== undefined) {
+    config.serviceUrl = readUrl(input.serviceUrl, 'serviceUrl', report) ?? config.serviceUrl;
+  }
+  if (input.devices !== undefined) {
+    config.devices = readDevices(input.devices, report) ?? config.devices;
+  }
+  if (input.defaultCard !== undefined) {
+    if (typeof input.defaultCard === 'string' && CARD_CONFIGS[input.defaultCard]) {
+      config.defaultCard = input.defaultCard;
+    } else {
+      report('defaultCard', `未知的板卡型号 ${JSON.stringify(input.defaultCard)}，可用的有 ${Object.keys(CARD_CONFIGS).join(', ')}`);
+    }
+  }
+  if (input.defaultDataSource !== undefined) {
+    if (input.defaultDataSource === 'mock' || input.defaultDataSource === 'real') {
+      config.defaultDataSource = input.defaultDataSource;
+    } else {
+      report('defaultDataSource', `必须是 "mock" 或 "real"，实际为 ${JSON.stringify(input.defaultDataSource)}`);
+    }
+  }
+
+  const signalr = input.signalr;
+  if (signalr !== undefined) {
+    if (!isRecord(signalr)) {
+      report('signalr', '必须是对象');
+    } else {
+      reportUnknownKeys(signalr, Object.keys(DEFAULT_RUNTIME_CONFIG.signalr), 'signalr.', report);
+      if (signalr.hubPath !== undefined) {
+        if (typeof signalr.hubPath === 'string' && signalr.hubPath.startsWith('/')) {
+          config.signalr.hubPath = signalr.hubPath;
+        } else {
+          report('signalr.hubPath', '必须是以 / 开头的路径');
+        }
+      }
+      if (signalr.transports !== undefined) {
+        config.signalr.transports = readTransports(signalr.transports, 'signalr.transports', false, report)
+          ?? config.signalr.transports;
+      }
+      if (signalr.skipNegotiation !== undefined) {
+        if (typeof signalr.skipNegotiation === 'boolean') {
+          config.signalr.skipNegotiation = signalr.skipNegotiation;
+        } else {
+          report('signalr.skipNegotiation', '必须是 true 或 false');
+        }
+      }
+      if (signalr.fallbackTransports !== undefined) {
+        config.signalr.fallbackTransports = readTransports(signalr.fallbackTransports, 'signalr.fallbackTransports', true, report)
+          ?? config.signalr.fallbackTransports;
+      }
+      if (signalr.reconnectAttempts !== undefined) {
+        const attempts = signalr.reconnectAttempts;
+        if (typeof attempts === 'number' && Number.isInteger(attempts) && attempts >= 0) {
+          config.signalr.reconnectAttempts = attempts;
+        } else {
+          report('signalr.reconnectAttempts', `必须是非负整数，实际为 ${JSON.stringify(attempts)}`);
+        }
+      }
+      if (signalr.reconnectMaxDelayMs !== undefined) {
+        config.signalr.reconnectMaxDelayMs = readTimeout(signalr.reconnectMaxDelayMs, 'signalr.reconnectMaxDelayMs', report)
+          ?? config.signalr.reconnectMaxDelayMs;
+      }
+    }
+  }
+
+  const timeouts = input.timeouts;
+  if (timeouts !== undefined) {
+    if (!isRecord(timeouts)) {
+      report('timeouts', '必须是对象');
+    } else {
+      reportUnknownKeys(timeouts, Object.keys(DEFAULT_RUNTIME_CONFIG.timeouts), 'timeouts.', report);
+      (Object.keys(DEFAULT_RUNTIME_CONFIG.timeouts) as (keyof RuntimeConfig['timeouts'])[]).forEach(key => {
+        if (timeouts[key] !== undefined) {
+          config.timeouts[key] = readTimeout(timeouts[key], `timeouts.${key}`, report) ?? config.timeouts[key];
+        }
+      });
+    }
+  }
+
+  // 字段之间的约束：不满足时修正为可用的组合
+  const { transports, skipNegotiation } = config.signalr;
+  if (skipNegotiation && (transports.length !== 1 || transports[0] !== 'webSockets')) {
+    report('signalr.skipNegotiation', '跳过协商只能与单独的 webSockets 传输一起使用，已改为不跳过');
+    config.signalr.skipNegotiation = false;
+  }
+  if (config.timeouts.keepAliveMs * 2 > config.timeouts.serverTimeoutMs) {
+    report('timeouts.keepAliveMs', `不能超过 serverTimeoutMs (${config.timeouts.serverTimeoutMs}) 的一半，已改为 ${Math.floor(config.timeouts.serverTimeoutMs / 2)}`);
+    config.timeouts.keepAliveMs = Math.floor(config.timeouts.serverTimeoutMs / 2);
+  }
+
+  return { config, issues };
+}
+
+// 查询参数名 → timeouts 字段
+const QUERY_TIMEOUT_KEYS: { [param: string]: keyof RuntimeConfig['timeouts'] } = {
+  connectTimeoutMs: 'connectMs',
+  requestTimeoutMs: 'requestMs',
+  serverTimeoutMs: 'serverTimeoutMs',
+  keepAliveMs: 'keepAliveMs'
+};
+
+/**
+ * 地址栏查询参数，例如 ?serviceUrl=http://10.0.0.5:5000&transports=webSockets,longPolling&card=PXIe-5500
+ * fallbackTransports 为空字符串时关闭回退
+ * 结果只按配置的结构组织、未经校验，由 applyRuntimeSettings 校验后合并
+ */
+export function parseQuerySettings(search: string): Record<string, unknown> | null {
+  const params = new URLSearchParams(search);
+  const settings: Record<string, unknown> = {};
+  const signalr: Record<string, unknown> = {};
+  const timeouts: Record<string, unknown> = {};
+  // 数字和布尔值按原样交给校验，格式不对时报出原始字符串
+  const toNumber = (value: string) => (/^\d+$/.test(value) ? Number(value) : value);
+  const toBoolean = (value: string) => (value === 'true' ? true : value === 'false' ? false : value);
+
+  params.forEach((value, key) => {
+    switch (key) {
+      case 'serviceUrl':
+        settings.serviceUrl = value;
+        break;
+      case 'card':
+        settings.defaultCard = value;
+        break;
+      case 'source':
+        settings.defaultDataSource = value;
+        break;
+      case 'hubPath':
+        signalr.hubPath = value;
+        break;
+      case 'transports':
+        signalr.transports = value.split(',').map(name => name.trim()).filter(Boolean);
+        break;
+      case 'skipNegotiation':
+        signalr.skipNegotiation = toBoolean(value);
+        break;
+      case 'fallbackTransports':
+        signalr.fallbackTransports = value.split(',').map(name => name.trim()).filter(Boolean);
+        break;
+      case 'reconnectAttempts':
+        signalr.reconnectAttempts = toNumber(value);
+        break;
+      default:
+        // 其他参数不属于运行时配置，忽略
+        if (QUERY_TIMEOUT_KEYS[key]) {
+          timeouts[QUERY_TIMEOUT_KEYS[key]] = toNumber(value);
+        }
+        break;
+    }
+  });
+
+  if (Object.keys(signalr).length > 0) settings.signalr = signalr;
+  if (Object.keys(timeouts).length > 0) settings.timeouts = timeouts;
+  return Object.keys(settings).length > 0 ? settings : null;
+}
+
+export interface RuntimeConfigLoadOptions {
+  url?: string;
+  fetchImpl?: typeof fetch;
+  search?: string;
+  storage?: Pick<Storage, 'getItem'> | null;
+}
+
+/**
+ * 逐层加载运行时配置；不会抛出异常，所有问题都在 issues 中返回
+ * runtime-config.json 不存在时视为没有这一层
+ */
+export async function loadRuntimeConfig(options: RuntimeConfigLoadOptions = {}): Promise<RuntimeConfigLoadResult> {
+  const {
+    url = RUNTIME_CONFIG_URL,
+    fetchImpl = fetch,
+    search = window.location.search,
+    storage = window.localStorage
+  } = options;
+  let result: RuntimeConfigLoadResult = { config: DEFAULT_RUNTIME_CONFIG, issues: [] };
+  const apply = (input: unknown, source: RuntimeConfigSource) => {
+    const next = applyRuntimeSettings(result.config, input, source);
+    result = { config: next.config, issues: [...result.issues, ...next.issues] };
+  };
+
+  try {
+    const response = await fetchImpl(url, { cache: 'no-store' });
+    if (response.ok) {
+      const text = await response.text();
+      try {
+        apply(JSON.parse(text), 'file');
+      } catch (error) {
+        result.issues.push({ source: 'file', path: '', message: `不是有效的 JSON: ${(error as Error).message}` });
+      }
+    } else if (response.status !== 404) {
+      result.issues.push({ source: 'file', path: '', message: `加载失败: HTTP ${response.status}` });
+    }
+  } catch (error) {
+    result.issues.push({ source: 'file', path: '', message: `加载失败: ${(error as Error).message}` });
+  }
+
+  const stored = storage?.getItem(RUNTIME_SETTINGS_STORAGE_KEY);
+  if (stored) {
+    try {
+      apply(JSON.parse(stored), 'settings');
+    } catch (error) {
+      result.issues.push({ source: 'settings', path: '', message: `保存的设置已损坏: ${(error as Error).message}` });
+    }
+  }
+
+  const query = parseQuerySettings(search);
+  if (query) {
+    apply(query, 'query');
+  }
+
+  return result;
+}
+
+/**
+ * 设置对话框保存的覆盖项；下次启动时生效
+ */
+export function loadStoredSettings(storage: Pick<Storage, 'getItem'> = window.localStorage): RuntimeSettings {
+  try {
+    const stored = storage.getItem(RUNTIME_SETTINGS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return isRecord(parsed) ? (parsed as RuntimeSettings) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveStoredSettings(
+  settings: RuntimeSettings | null,
+  storage: Pick<Storage, 'setItem' | 'removeItem'> = window.localStorage
+): void {
+  if (settings === null) {
+    storage.removeItem(RUNTIME_SETTINGS_STORAGE_KEY);
+  } else {
+    storage.setItem(RUNTIME_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+}
+
+// 当前生效的配置；启动时由 index.tsx 在加载应用模块之前设置
+let currentConfig: RuntimeConfig = DEFAULT_RUNTIME_CONFIG;
+
+export function getRuntimeConfig(): RuntimeConfig {
+  return currentConfig;
+}
+
+export function setRuntimeConfig(config: RuntimeConfig): void {
+  currentConfig = config;
+}
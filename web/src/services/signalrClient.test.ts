@@ -0,0 +1,276 @@
+import * as signalR from '@microsoft/signalr';
+import { createRetryPolicy, DAQSignalRClient, HubConnectionEvent, SignalRClientOptions } from './signalrClient';
+import { DEFAULT_RECONNECT_POLICY } from './reconnectPolicy';
+
+describe('createRetryPolicy', () => {
+  const policy = { ...DEFAULT_RECONNECT_POLICY, maxAttempts: 3, jitter: 0 };
+  const context = (previousRetryCount: number) => ({
+    previousRetryCount,
+    elapsedMilliseconds: 0,
+    retryReason: new Error('WebSocket closed')
+  });
+
+  test('backs off per the reconnect policy and reports each attempt', () => {
+    const retries: [number, number, string][] = [];
+    const retryPolicy = createRetryPolicy(policy, (attempt, delayMs, reason) => {
+      retries.push([attempt, delayMs, reason.message]);
+    });
+
+    const delays = [0, 1, 2].map(count => retryPolicy.nextRetryDelayInMilliseconds(context(count)));
+
+    expect(delays).toEqual([500, 1000, 2000]);
+    expect(retries).toEqual([
+      [1, 500, 'WebSocket closed'],
+      [2, 1000, 'WebSocket closed'],
+      [3, 2000, 'WebSocket closed']
+    ]);
+  });
+
+  test('gives up after maxAttempts, or immediately when reconnecting is disabled', () => {
+    const onRetry = jest.fn();
+
+    expect(createRetryPolicy(policy, onRetry).nextRetryDelayInMilliseconds(context(3))).toBeNull();
+    expect(createRetryPolicy({ ...policy, maxAttempts: 0 }, onRetry).nextRetryDelayInMilliseconds(context(0))).toBeNull();
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * 替代 HubConnection：记录调用的 Hub 方法，测试直接触发断线、重连和关闭回调
+ */
+class FakeHubConnection {
+  state: signalR.HubConnectionState = signalR.HubConnectionState.Disconnected;
+  serverTimeoutInMilliseconds = 0;
+  keepAliveIntervalInMilliseconds = 0;
+  startError: Error | null = null; // 设置后 start() 失败
+  readonly invoked: string[] = [];
+  private reconnectingCallbacks: ((error?: Error) => void)[] = [];
+  private reconnectedCallbacks: ((connectionId?: string) => void)[] = [];
+  private closeCallbacks: ((error?: Error) => void)[] = [];
+
+  constructor(readonly options: signalR.IHttpConnectionOptions, readonly retryPolicy: signalR.IRetryPolicy) {}
+
+  async start(): Promise<void> {
+    if (this.startError) throw this.startError;
+    this.state = signalR.HubConnectionState.Connected;
+  }
+
+  async stop(): Promise<void> {
+    this.close();
+  }
+
+  async invoke(method: string): Promise<void> {
+    this.invoked.push(method);
+  }
+
+  readonly subscribed = new Map<string, Set<(...args: unknown[]) => void>>();
+
+  on(event: string, callback: (...args: unknown[]) => void): void {
+    if (!this.subscribed.has(event)) this.subscribed.set(event, new Set());
+    this.subscribed.get(event)?.add(callback);
+  }
+
+  off(event: string, callback: (...args: unknown[]) => void): void {
+    this.subscribed.get(event)?.delete(callback);
+  }
+
+  onreconnecting(callback: (error?: Error) => void): void {
+    this.reconnectingCallbacks.push(callback);
+  }
+
+  onreconnected(callback: (connectionId?: string) => void): void {
+    this.reconnectedCallbacks.push(callback);
+  }
+
+  onclose(callback: (error?: Error) => void): void {
+    this.closeCallbacks.push(callback);
+  }
+
+  // 断线后按重试策略重连成功
+  dropAndReconnect(reason: Error = new Error('WebSocket closed')): void {
+    this.state = signalR.HubConnectionState.Reconnecting;
+    this.reconnectingCallbacks.forEach(callback => callback(reason));
+    this.retryPolicy.nextRetryDelayInMilliseconds({ previousRetryCount: 0, elapsedMilliseconds: 0, retryReason: reason });
+    this.state = signalR.HubConnectionState.Connected;
+    this.reconnectedCallbacks.forEach(callback => callback('new-connection-id'));
+  }
+
+  close(error?: Error): void {
+    this.state = signalR.HubConnectionState.Disconnected;
+    this.closeCallbacks.forEach(callback => callback(error));
+  }
+}
+
+// 等待挂起的 Promise 回调执行完
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('DAQSignalRClient', () => {
+  const options: SignalRClientOptions = {
+    hubPath: '/daqhub',
+    transports: ['webSockets'],
+    skipNegotiation: true,
+    fallbackTransports: ['serverSentEvents', 'longPolling'],
+    reconnectPolicy: { ...DEFAULT_RECONNECT_POLICY, maxAttempts: 3, jitter: 0 },
+    connectTimeoutMs: 1000
+  };
+  let connections: FakeHubConnection[];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    connections = [];
+    // 每次 build() 返回一个新的 FakeHubConnection，带上 withUrl 和重试策略的参数
+    let urlOptions: signalR.IHttpConnectionOptions = {};
+    let retryPolicy: signalR.IRetryPolicy = { nextRetryDelayInMilliseconds: () => null };
+    const builder = signalR.HubConnectionBuilder.prototype;
+    jest.spyOn(builder, 'withUrl').mockImplementation(function (this: signalR.HubConnectionBuilder, url: string, value?: unknown) {
+      urlOptions = value as signalR.IHttpConnectionOptions;
+      return this;
+    });
+    jest.spyOn(builder, 'withAutomaticReconnect').mockImplementation(function (this: signalR.HubConnectionBuilder, value?: unknown) {
+      retryPolicy = value as signalR.IRetryPolicy;
+      return this;
+    });
+    jest.spyOn(builder, 'build').mockImplementation(() => {
+      const connection = new FakeHubConnection(urlOptions, retryPolicy);
+      connections.push(connection);
+      return connection as unknown as signalR.HubConnection;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createClient(): { client: DAQSignalRClient; events: HubConnectionEvent[] } {
+    const client = new DAQSignalRClient('http://daq:5000', options);
+    const events: HubConnectionEvent[] = [];
+    client.onConnectionChange(event => events.push(event));
+    return { client, events };
+  }
+
+  test('rejoins groups and runs session restorers after an automatic reconnect', async () => {
+    const { client, events } = createClient();
+    const order: string[] = [];
+    client.onSessionRestore(() => {
+      order.push(`restore after ${connections[0].invoked.length} invocations`);
+    });
+    await client.connect();
+    await client.joinPerformanceGroup();
+    expect(connections[0].invoked).toEqual(['JoinPerformanceGroup']);
+    order.length = 0;
+
+    connections[0].dropAndReconnect();
+    await flush();
+
+    expect(connections).toHaveLength(1);
+    expect(connections[0].invoked).toEqual(['JoinPerformanceGroup', 'JoinPerformanceGroup']);
+    expect(order).toEqual(['restore after 2 invocations']);
+    expect(events.slice(-2)).toEqual([
+      { state: 'reconnecting', attempt: 1, maxAttempts: 3, delayMs: 500, error: new Error('WebSocket closed') },
+      { state: 'resumed', transports: ['webSockets'], fallback: false }
+    ]);
+    expect(client.connected).toBe(true);
+  });
+
+  test('does not rejoin a group that was left before the reconnect', async () => {
+    const { client } = createClient();
+    await client.connect();
+    await client.joinPerformanceGroup();
+    await client.leavePerformanceGroup();
+
+    connections[0].dropAndReconnect();
+    await flush();
+
+    expect(connections[0].invoked).toEqual(['JoinPerformanceGroup', 'LeavePerformanceGroup']);
+  });
+
+  test('falls back from WebSockets to the negotiated fallback transports', async () => {
+    const { client, events } = createClient();
+    connections[0].startError = new Error('WebSocket failed to connect');
+
+    await client.connect();
+
+    expect(connections).toHaveLength(2);
+    expect(connections[0].options).toMatchObject({ skipNegotiation: true, transport: signalR.HttpTransportType.WebSockets });
+    expect(connections[1].options).toMatchObject({
+      skipNegotiation: false,
+      transport: signalR.HttpTransportType.ServerSentEvents | signalR.HttpTransportType.LongPolling
+    });
+    expect(events).toEqual([
+      { state: 'connecting', transports: ['webSockets'], fallback: false },
+      { state: 'connecting', transports: ['serverSentEvents', 'longPolling'], fallback: true },
+      { state: 'connected', transports: ['serverSentEvents', 'longPolling'], fallback: true }
+    ]);
+
+    // 之后的连接继续使用回退传输
+    await client.disconnect();
+    await client.connect();
+    expect(connections).toHaveLength(2);
+    expect(events[events.length - 1]).toEqual({ state: 'connected', transports: ['serverSentEvents', 'longPolling'], fallback: true });
+  });
+
+  test('registers existing subscriptions on the fallback connection', async () => {
+    const { client } = createClient();
+    const onPerformance = jest.fn();
+    const dispose = client.onPerformanceUpdate(onPerformance);
+    connections[0].startError = new Error('WebSocket failed to connect');
+    await client.connect();
+
+    expect(connections[1].subscribed.get('PerformanceUpdate')?.has(onPerformance)).toBe(true);
+    dispose();
+    expect(connections[1].subscribed.get('PerformanceUpdate')?.has(onPerformance)).toBe(false);
+  });
+
+  test('goes back to the preferred transport when the fallback also fails', async () => {
+    const { client, events } = createClient();
+    const failure = new Error('long polling failed');
+    connections[0].startError = new Error('WebSocket failed to connect');
+    const start = FakeHubConnection.prototype.start;
+    // 回退连接在 connect() 中才创建，在它的 start() 中设置失败
+    jest.spyOn(FakeHubConnection.prototype, 'start').mockImplementation(function (this: FakeHubConnection) {
+      if (this === connections[1]) this.startError = failure;
+      return start.call(this);
+    });
+
+    await expect(client.connect()).rejects.toBe(failure);
+
+    expect(connections).toHaveLength(3);
+    expect(connections[2].options).toMatchObject({ skipNegotiation: true, transport: signalR.HttpTransportType.WebSockets });
+    expect(events[events.length - 1]).toEqual({ state: 'gaveUp', error: failure });
+    expect(client.connected).toBe(false);
+  });
+
+  test('ignores lifecycle callbacks from a replaced connection', async () => {
+    const { client, events } = createClient();
+    connections[0].startError = new Error('WebSocket failed to connect');
+    await client.connect();
+    await client.joinPerformanceGroup();
+    const eventCount = events.length;
+
+    connections[0].dropAndReconnect();
+    connections[0].close(new Error('stale'));
+    await flush();
+
+    expect(events).toHaveLength(eventCount);
+    expect(client.connected).toBe(true);
+    expect(connections[1].invoked).toEqual(['JoinPerformanceGroup']);
+  });
+
+  test('reports gaveUp when the connection closes, and idle after disconnect()', async () => {
+    const { client, events } = createClient();
+    await client.connect();
+
+    const error = new Error('reconnect attempts exhausted');
+    connections[0].close(error);
+    expect(events[events.length - 1]).toEqual({ state: 'gaveUp', error });
+    expect(client.connected).toBe(false);
+
+    await client.connect();
+    await client.disconnect();
+    expect(events[events.length - 1]).toEqual({ state: 'idle' });
+  });
+});
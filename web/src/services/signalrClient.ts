@@ -1,103 +1,422 @@
 import * as signalR from '@microsoft/signalr';
+import { getRuntimeConfig, RuntimeConfig, SignalRTransportName } from './runtimeConfig';
+import { DAQControlCommand, DAQControlParameters, DAQHubEvents, DAQHubMethods } from './daqHubContract';
+import { Disposer, TypedEventEmitter } from '../utils/typedEventEmitter';
+import { computeReconnectDelay, DEFAULT_RECONNECT_POLICY, ReconnectPolicy, StreamConnectionEvent } from './reconnectPolicy';
 
-export interface PerformanceMetrics {
-  dataRate: number;
-  frameRate: number;
-  latency: number;
-  memoryUsage: number;
-  timestamp: string;
-}
+export type {
+  ClientMetricsUpdateMessage,
+  CommandErrorMessage,
+  CommandResultMessage,
+  DAQControlCommand,
+  DAQControlParameters,
+  DAQHubEvents,
+  DAQHubMethods,
+  HeartbeatResponseMessage,
+  MetricsResetMessage,
+  MetricsSnapshot,
+  PerformanceMetrics,
+  SystemMetrics,
+  SystemStatusChangedMessage,
+  WelcomeMessage
+} from './daqHubContract';
 
+/**
+ * 客户端维护的 DAQ 运行状态：Hub 没有状态查询，由 SystemStatusChanged 和
+ * CommandResult 推导
+ */
 export interface DAQStatus {
   isRunning: boolean;
   isPaused: boolean;
-  currentConfig: any;
+  currentConfig: DAQControlParameters | null; // 最近一次成功 start 的参数
   errorMessage?: string;
 }
 
+const IDLE_STATUS: DAQStatus = { isRunning: false, isPaused: false, currentConfig: null };
+
+/**
+ * 成功执行的命令对运行状态的影响；未知命令不改变状态
+ */
+export function statusAfterCommand(previous: DAQStatus, command: string): DAQStatus {
+  switch (command.toLowerCase()) {
+    case 'start':
+    case 'resume':
+      return { ...previous, isRunning: true, isPaused: false, errorMessage: undefined };
+    case 'pause':
+      return { ...previous, isRunning: true, isPaused: true, errorMessage: undefined };
+    case 'stop':
+    case 'reset':
+      return { ...previous, isRunning: false, isPaused: false, errorMessage: undefined };
+    default:
+      return previous;
+  }
+}
+
+/**
+ * Hub 连接状态；transports 是当前连接使用的传输方式，fallback 表示已改用回退传输
+ */
+export interface HubConnectionEvent extends StreamConnectionEvent {
+  transports?: SignalRTransportName[];
+  fallback?: boolean;
+}
+
+// 断线重连后需要重新加入的组，按加入方法记录
+type HubGroupJoinMethod = Extract<keyof DAQHubMethods, `Join${string}`>;
+
+/**
+ * 把重连策略转换为 SignalR 的 IRetryPolicy；每次决定重连时回调 onRetry，超过次数后返回 null 放弃
+ */
+export function createRetryPolicy(
+  policy: ReconnectPolicy,
+  onRetry: (attempt: number, delayMs: number, reason: Error) => void = () => undefined,
+  random: () => number = Math.random
+): signalR.IRetryPolicy {
+  return {
+    nextRetryDelayInMilliseconds: (context) => {
+      const attempt = context.previousRetryCount + 1;
+      if (attempt > policy.maxAttempts) {
+        return null;
+      }
+      const delayMs = computeReconnectDelay(attempt, policy, random);
+      onRetry(attempt, delayMs, context.retryReason);
+      return delayMs;
+    }
+  };
+}
+
+export interface SignalRClientOptions {
+  hubPath?: string;
+  transports?: SignalRTransportName[];
+  skipNegotiation?: boolean;
+  fallbackTransports?: SignalRTransportName[]; // 首选方式连接失败后经协商改用
+  reconnectPolicy?: ReconnectPolicy;
+  connectTimeoutMs?: number; // connect() 等待握手完成的时间
+  requestTimeoutMs?: number; // 协商和长轮询等 HTTP 请求
+  serverTimeoutMs?: number;
+  keepAliveMs?: number;
+}
+
+const TRANSPORT_FLAGS: Record<SignalRTransportName, signalR.HttpTransportType> = {
+  webSockets: signalR.HttpTransportType.WebSockets,
+  serverSentEvents: signalR.HttpTransportType.ServerSentEvents,
+  longPolling: signalR.HttpTransportType.LongPolling
+};
+
+// 未指定的选项取运行时配置
+function resolveOptions(options: SignalRClientOptions, config: RuntimeConfig): Required<SignalRClientOptions> {
+  return {
+    hubPath: options.hubPath ?? config.signalr.hubPath,
+    transports: options.transports ?? config.signalr.transports,
+    skipNegotiation: options.skipNegotiation ?? config.signalr.skipNegotiation,
+    fallbackTransports: options.fallbackTransports ?? config.signalr.fallbackTransports,
+    reconnectPolicy: options.reconnectPolicy ?? {
+      ...DEFAULT_RECONNECT_POLICY,
+      maxAttempts: config.signalr.reconnectAttempts,
+      maxDelayMs: config.signalr.reconnectMaxDelayMs
+    },
+    connectTimeoutMs: options.connectTimeoutMs ?? config.timeouts.connectMs,
+    requestTimeoutMs: options.requestTimeoutMs ?? config.timeouts.requestMs,
+    serverTimeoutMs: options.serverTimeoutMs ?? config.timeouts.serverTimeoutMs,
+    keepAliveMs: options.keepAliveMs ?? config.timeouts.keepAliveMs
+  };
+}
+
 export class DAQSignalRClient {
   private connection: signalR.HubConnection;
   private isConnected: boolean = false;
+  private readonly url: string;
+  private readonly options: Required<SignalRClientOptions>;
+  private usingFallback: boolean = false;
+  private stopping: boolean = false; // disconnect() 主动关闭，不视为断线
+  private status: DAQStatus = IDLE_STATUS;
+  private connectionEvent: HubConnectionEvent = { state: 'idle' };
+  // 所有订阅，切换到回退连接时重新注册
+  private handlers: { [K in keyof DAQHubEvents]?: Set<DAQHubEvents[K]> } = {};
+  private joinedGroups = new Set<HubGroupJoinMethod>();
+  private sessionRestorers = new Set<() => Promise<void> | void>();
+  // 由 Hub 消息和连接生命周期推导出的客户端事件
+  private derived = new TypedEventEmitter<{
+    status: (status: DAQStatus) => void;
+    error: (error: string) => void;
+    connection: (event: HubConnectionEvent) => void;
+  }>('DAQSignalRClient');
 
-  constructor(baseUrl: string = 'http://localhost:5000') {
-    this.connection = new signalR.HubConnectionBuilder()
-      .withUrl(`${baseUrl}/daqhub`, {
-        skipNegotiation: true,
-        transport: signalR.HttpTransportType.WebSockets
+  constructor(baseUrl: string = getRuntimeConfig().serviceUrl, options: SignalRClientOptions = {}) {
+    this.options = resolveOptions(options, getRuntimeConfig());
+    this.url = `${baseUrl}${this.options.hubPath}`;
+    this.connection = this.buildConnection(this.options.transports, this.options.skipNegotiation);
+    this.setupEventHandlers();
+  }
+
+  private get activeTransports(): SignalRTransportName[] {
+    return this.usingFallback ? this.options.fallbackTransports : this.options.transports;
+  }
+
+  // 新建连接并挂上生命周期回调和已有的订阅
+  private buildConnection(transports: SignalRTransportName[], skipNegotiation: boolean): signalR.HubConnection {
+    const connection: signalR.HubConnection = new signalR.HubConnectionBuilder()
+      .withUrl(this.url, {
+        skipNegotiation,
+        transport: transports.reduce((flags, name) => flags | TRANSPORT_FLAGS[name], 0),
+        timeout: this.options.requestTimeoutMs
       })
-      .withAutomaticReconnect()
+      .withAutomaticReconnect(createRetryPolicy(this.options.reconnectPolicy, (attempt, delayMs, reason) => {
+        if (connection !== this.connection) return;
+        this.emitConnection({
+          state: 'reconnecting',
+          attempt,
+          maxAttempts: this.options.reconnectPolicy.maxAttempts,
+          delayMs,
+          error: reason
+        });
+      }))
       .configureLogging(signalR.LogLevel.Information)
       .build();
+    connection.serverTimeoutInMilliseconds = this.options.serverTimeoutMs;
+    connection.keepAliveIntervalInMilliseconds = this.options.keepAliveMs;
 
-    this.setupEventHandlers();
-  }
-
-  private setupEventHandlers(): void {
-    this.connection.onreconnecting(() => {
+    // 被替换掉的旧连接的回调（包括上面的重试回调）不再生效
+    connection.onreconnecting(() => {
+      if (connection !== this.connection) return;
       console.log('SignalR: 重新连接中...');
       this.isConnected = false;
     });
 
-    this.connection.onreconnected(() => {
+    connection.onreconnected(() => {
+      if (connection !== this.connection) return;
       console.log('SignalR: 重新连接成功');
       this.isConnected = true;
+      this.restoreSession()
+        .catch(error => console.error('SignalR: 恢复会话失败', error))
+        .then(() => this.emitConnection({ state: 'resumed', transports: this.activeTransports, fallback: this.usingFallback }));
     });
 
-    this.connection.onclose(() => {
+    connection.onclose((error) => {
+      if (connection !== this.connection) return;
       console.log('SignalR: 连接关闭');
       this.isConnected = false;
+      // 主动断开时回到 idle；否则是重连次数用完或未启用自动重连
+      this.emitConnection(this.stopping ? { state: 'idle' } : { state: 'gaveUp', error });
     });
+
+    (Object.keys(this.handlers) as (keyof DAQHubEvents)[]).forEach(event => {
+      this.handlers[event]?.forEach(callback => connection.on(event, callback));
+    });
+    return connection;
+  }
+
+  private setupEventHandlers(): void {
+    // 任一客户端成功执行命令后服务端广播 SystemStatusChanged
+    this.on('SystemStatusChanged', (message) => {
+      this.updateStatus(statusAfterCommand(this.status, message.status));
+    });
+
+    // 只有发起命令的客户端收到 CommandResult，其中带有 start 的参数
+    this.on('CommandResult', (message) => {
+      if (!message.success) {
+        this.derived.emit('error', `命令 ${message.command} 未被执行`);
+      } else if (message.command.toLowerCase() === 'start' && message.parameters) {
+        this.updateStatus({ ...this.status, currentConfig: message.parameters });
+      }
+    });
+
+    this.on('CommandError', (message) => {
+      this.updateStatus({ ...this.status, errorMessage: message.error });
+      this.derived.emit('error', `命令 ${message.command} 执行失败: ${message.error}`);
+    });
+  }
+
+  private updateStatus(status: DAQStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.derived.emit('status', status);
+  }
+
+  private emitConnection(event: HubConnectionEvent): void {
+    this.connectionEvent = event;
+    this.derived.emit('connection', event);
   }
 
+  /**
+   * 新连接的连接 ID 与断线前不同：重新加入之前加入的组，再执行注册的会话恢复回调
+   */
+  private async restoreSession(): Promise<void> {
+    for (const method of Array.from(this.joinedGroups)) {
+      await this.connection.invoke(method);
+      console.log(`SignalR: 已重新调用 ${method}`);
+    }
+    const results = await Promise.allSettled(Array.from(this.sessionRestorers, restore => restore()));
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error('SignalR: 会话恢复回调失败', result.reason);
+      }
+    });
+  }
+
+  // 在限定时间内启动当前连接
+  private async startConnection(): Promise<void> {
+    const connection = this.connection;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          // 超时后停止仍在进行的握手，避免之后连接成功却无人知晓
+          connection.stop().catch(() => undefined);
+          reject(new Error(`SignalR 连接超时 (${this.options.connectTimeoutMs} ms)`));
+        }, this.options.connectTimeoutMs);
+      });
+      await Promise.race([connection.start(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 连接 Hub；首选传输方式失败且配置了 fallbackTransports 时，经协商改用回退传输再试一次
+   * 回退成功后后续连接继续使用回退传输，回退也失败时下次从首选方式重新开始
+   */
   async connect(): Promise<void> {
+    this.stopping = false;
+    this.emitConnection({ state: 'connecting', transports: this.activeTransports, fallback: this.usingFallback });
     try {
-      await this.connection.start();
+      try {
+        await this.startConnection();
+      } catch (error) {
+        if (this.usingFallback || this.options.fallbackTransports.length === 0) {
+          throw error;
+        }
+        console.warn(`SignalR: 使用 ${this.options.transports.join('/')} 连接失败，改用 ${this.options.fallbackTransports.join('/')}`, error);
+        this.switchConnection(true);
+        this.emitConnection({ state: 'connecting', transports: this.activeTransports, fallback: true });
+        try {
+          await this.startConnection();
+        } catch (fallbackError) {
+          this.switchConnection(false);
+          throw fallbackError;
+        }
+      }
       this.isConnected = true;
-      console.log('SignalR: 连接成功');
+      console.log(`SignalR: 连接成功 (${this.activeTransports.join('/')})`);
+      await this.restoreSession();
+      this.emitConnection({ state: 'connected', transports: this.activeTransports, fallback: this.usingFallback });
     } catch (error) {
       console.error('SignalR: 连接失败', error);
       this.isConnected = false;
+      this.emitConnection({ state: 'gaveUp', error: error instanceof Error ? error : new Error(String(error)) });
       throw error;
     }
   }
 
+  private switchConnection(fallback: boolean): void {
+    this.usingFallback = fallback;
+    this.connection = fallback
+      ? this.buildConnection(this.options.fallbackTransports, false)
+      : this.buildConnection(this.options.transports, this.options.skipNegotiation);
+  }
+
   async disconnect(): Promise<void> {
-    if (this.connection) {
-      await this.connection.stop();
-      this.isConnected = false;
-      console.log('SignalR: 已断开连接');
+    this.stopping = true;
+    await this.connection.stop();
+    this.isConnected = false;
+    console.log('SignalR: 已断开连接');
+  }
+
+  /**
+   * 订阅服务端推送的事件，返回取消订阅的函数；同一事件可以有多个订阅者
+   */
+  on<K extends keyof DAQHubEvents>(event: K, callback: DAQHubEvents[K]): Disposer {
+    let callbacks: Set<DAQHubEvents[K]> | undefined = this.handlers[event];
+    if (!callbacks) {
+      callbacks = new Set<DAQHubEvents[K]>();
+      // 按事件名索引的映射类型不能直接用泛型键赋值
+      Object.assign(this.handlers, { [event]: callbacks });
     }
+    callbacks.add(callback);
+    this.connection.on(event, callback);
+    return () => {
+      this.handlers[event]?.delete(callback);
+      this.connection.off(event, callback);
+    };
+  }
+
+  /**
+   * 调用 Hub 方法；结果通过对应的事件返回
+   */
+  async invoke<K extends keyof DAQHubMethods>(method: K, ...args: Parameters<DAQHubMethods[K]>): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('SignalR连接未建立');
+    }
+    await this.connection.invoke(method, ...args);
   }
 
   // 订阅性能指标更新
-  onPerformanceUpdate(callback: (metrics: PerformanceMetrics) => void): void {
-    this.connection.on('PerformanceUpdate', callback);
+  onPerformanceUpdate(callback: DAQHubEvents['PerformanceUpdate']): Disposer {
+    return this.on('PerformanceUpdate', callback);
   }
 
-  // 订阅DAQ状态更新
-  onStatusUpdate(callback: (status: DAQStatus) => void): void {
-    this.connection.on('StatusUpdate', callback);
+  // 订阅DAQ状态更新（由 SystemStatusChanged/CommandResult/CommandError 推导）
+  onStatusUpdate(callback: (status: DAQStatus) => void): Disposer {
+    return this.derived.on('status', callback);
   }
 
-  // 订阅错误消息
-  onError(callback: (error: string) => void): void {
-    this.connection.on('Error', callback);
+  // 订阅命令执行失败的消息
+  onError(callback: (error: string) => void): Disposer {
+    return this.derived.on('error', callback);
   }
 
-  // 发送控制命令
-  async sendCommand(command: string, params?: any): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error('SignalR连接未建立');
-    }
+  // 订阅 Hub 连接状态（连接、重连、回退、放弃）
+  onConnectionChange(callback: (event: HubConnectionEvent) => void): Disposer {
+    return this.derived.on('connection', callback);
+  }
+
+  /**
+   * 注册重连后恢复会话状态的回调，在重新加入组之后执行
+   */
+  onSessionRestore(callback: () => Promise<void> | void): Disposer {
+    this.sessionRestorers.add(callback);
+    return () => {
+      this.sessionRestorers.delete(callback);
+    };
+  }
+
+  get lastConnectionEvent(): HubConnectionEvent {
+    return this.connectionEvent;
+  }
+
+  get currentStatus(): DAQStatus {
+    return this.status;
+  }
 
+  // 发送控制命令
+  async sendControlCommand(command: DAQControlCommand, parameters?: DAQControlParameters): Promise<void> {
     try {
-      await this.connection.invoke('SendCommand', command, params);
+      await this.invoke('SendControlCommand', command, parameters ?? null);
     } catch (error) {
       console.error('发送命令失败:', error);
       throw error;
     }
   }
 
+  // 请求最新性能指标，结果通过 PerformanceUpdate 返回
+  async getPerformanceMetrics(): Promise<void> {
+    await this.invoke('GetPerformanceMetrics');
+  }
+
+  // 请求指定客户端（连接 ID）的性能指标，结果通过 ClientMetricsUpdate 返回
+  async getClientMetrics(clientId: string): Promise<void> {
+    await this.invoke('GetClientMetrics', clientId);
+  }
+
+  // 重置服务端性能指标，性能监控组收到 MetricsReset
+  async resetMetrics(): Promise<void> {
+    await this.invoke('ResetMetrics');
+  }
+
+  // 心跳，结果通过 HeartbeatResponse 返回
+  async heartbeat(): Promise<void> {
+    await this.invoke('Heartbeat');
+  }
+
   // 加入性能监控组
   async joinPerformanceGroup(): Promise<void> {
     if (!this.isConnected) {
@@ -105,7 +424,8 @@ export class DAQSignalRClient {
     }
 
     try {
-      await this.connection.invoke('JoinPerformanceGroup');
+      await this.invoke('JoinPerformanceGroup');
+      this.joinedGroups.add('JoinPerformanceGroup');
       console.log('已加入性能监控组');
     } catch (error) {
       console.error('加入性能监控组失败:', error);
@@ -115,12 +435,13 @@ export class DAQSignalRClient {
 
   // 离开性能监控组
   async leavePerformanceGroup(): Promise<void> {
+    this.joinedGroups.delete('JoinPerformanceGroup');
     if (!this.isConnected) {
       return;
     }
 
     try {
-      await this.connection.invoke('LeavePerformanceGroup');
+      await this.invoke('LeavePerformanceGroup');
       console.log('已离开性能监控组');
     } catch (error) {
       console.error('离开性能监控组失败:', error);
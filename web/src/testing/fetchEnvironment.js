@@ -0,0 +1,33 @@
+/**
+ * 集成测试用的 Jest 环境：在 node 环境的基础上暴露 Node 内置的 fetch 和 WHATWG 流
+ * Jest 27 的 node 环境不提供这些全局对象，DAQGrpcClient 需要可以 getReader() 的响应体。
+ * 在测试文件开头用 docblock 选用：@jest-environment ./src/testing/fetchEnvironment.js
+ */
+
+const NodeEnvironment = require('jest-environment-node');
+
+const FETCH_GLOBALS = [
+  'fetch',
+  'Headers',
+  'Request',
+  'Response',
+  'FormData',
+  'Blob',
+  'ReadableStream',
+  'WritableStream',
+  'TransformStream',
+  'TextDecoder'
+];
+
+class FetchEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    FETCH_GLOBALS.forEach(name => {
+      if (this.global[name] === undefined && global[name] !== undefined) {
+        this.global[name] = global[name];
+      }
+    });
+  }
+}
+
+module.exports = FetchEnvironment;
@@ -0,0 +1,769 @@
+/**
+ * 本地替身 DAQ 服务，供 Jest 集成测试使用
+ * 用 Node http 实现 JYTek.DAQ.Service 的两个入口，测试不需要启动 .NET 服务：
+ *   - gRPC-Web：daq.DAQStream/Subscribe 和 Control，数据由 MockDataGenerator 生成
+ *   - SignalR：/daqhub，JSON 协议、长轮询传输，方法和事件与 DAQHub.cs 一致
+ * 全局启停与服务端相同：数据只在 start/resume 之后生成，stop 结束已有订阅的数据生成。
+ * 服务端尚不支持的 CONFIGURE 和 resumeAfterSeq 在这里实现，以覆盖客户端的相应路径
+ */
+
+import http from 'http';
+import { AddressInfo, Socket } from 'net';
+import { randomUUID } from 'crypto';
+import {
+  ControlCommand,
+  DataRequest,
+  decodeControlCmd,
+  decodeDataRequest,
+  encodeAck,
+  encodeDataChunk
+} from '../services/daqProto';
+import {
+  decodeGrpcWebFrames,
+  encodeGrpcWebFrame,
+  encodeGrpcWebTrailers,
+  GRPC_WEB_CONTENT_TYPE,
+  GrpcStatusCode
+} from '../services/grpcWeb';
+import { DAQHubEvents, DAQHubMethods, MetricsSnapshot, PerformanceMetrics, SystemMetrics } from '../services/daqHubContract';
+import { DEFAULT_RUNTIME_CONFIG } from '../services/runtimeConfig';
+import { encodeMockChunk, MockConfig, MockDataGenerator } from '../utils/mockDataGenerator';
+import { MockClock } from '../utils/mockClock';
+import { DEFAULT_SAMPLE_FORMAT, parseSampleFormat, SampleFormat } from '../utils/sampleFormat';
+import { CONFIG_MARKER_TAGS, LIVE_CONFIG_KEYS } from '../utils/liveConfig';
+import { WaveformType } from '../utils/signalLibrary';
+
+export interface StandInDaqServerOptions {
+  seed?: number; // 设置后样本可复现，与 generateChannelData(config, offset, seed) 相同
+  clock?: MockClock; // 生成器的时钟，决定 tick_ns 的起点
+  chunkIntervalMs?: number; // 数据块发送间隔，默认按 bufferSize / sampleRate 实时发送
+  performanceIntervalMs?: number; // 向性能监控组广播 PerformanceUpdate 的间隔，0 表示不广播
+  pollTimeoutMs?: number; // 长轮询没有消息时保持的时间
+  hubPath?: string;
+  honorResumeAfterSeq?: boolean; // false 时与 .NET 服务一样忽略 resumeAfterSeq，每次订阅从 seq 0 开始；默认 true
+}
+
+/**
+ * 服务端执行过的控制命令；via 表示来自 gRPC Control 还是 Hub 的 SendControlCommand
+ */
+export interface StandInCommand {
+  via: 'grpc' | 'hub';
+  command: string;
+  success: boolean;
+}
+
+interface StreamSession {
+  clientId: string;
+  generator: MockDataGenerator;
+  format: SampleFormat;
+  tags: { [key: string]: string }; // 每块都带的标签，在线修改后加上 config.*
+  response: http.ServerResponse;
+  timer: ReturnType<typeof setInterval>;
+  active: boolean; // stop 之后不再生成数据，与服务端取消客户端会话一致
+}
+
+interface HubConnection {
+  connectionId: string;
+  token: string;
+  handshakeDone: boolean;
+  polled: boolean; // 第一次长轮询用于建立连接，立即返回
+  outbox: string[];
+  flushScheduled: boolean;
+  poll: http.ServerResponse | null;
+  pollTimer: ReturnType<typeof setTimeout> | null;
+  inPerformanceGroup: boolean;
+}
+
+interface MetricsCounters {
+  startTime: Date;
+  lastUpdate: Date;
+  totalBytes: number;
+  totalPackets: number;
+}
+
+// SignalR JSON 协议
+const RECORD_SEPARATOR = '\x1e';
+const MESSAGE_INVOCATION = 1;
+const MESSAGE_COMPLETION = 3;
+const MESSAGE_PING = 6;
+const MESSAGE_CLOSE = 7;
+
+interface HubInvocation {
+  type: number;
+  invocationId?: string;
+  target: string;
+  arguments: unknown[];
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+const TARGET_MBPS = 640;
+
+type HubMethodHandlers = {
+  [K in keyof DAQHubMethods]: (connection: HubConnection, ...args: Parameters<DAQHubMethods[K]>) => void;
+};
+
+function createCounters(): MetricsCounters {
+  const now = new Date();
+  return { startTime: now, lastUpdate: now, totalBytes: 0, totalPackets: 0 };
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    request.on('data', (part: Buffer) => parts.push(part));
+    request.on('end', () => resolve(Buffer.concat(parts)));
+    request.on('error', reject);
+  });
+}
+
+// 请求体中唯一的 gRPC-Web 消息帧
+async function readGrpcMessage(request: http.IncomingMessage): Promise<Uint8Array> {
+  const frame = decodeGrpcWebFrames(await readBody(request)).find(candidate => !candidate.isTrailer);
+  return frame ? frame.data : new Uint8Array(0);
+}
+
+// DataRequest.config 中的波形参数；与 RealDataService.openSubscription 写入的键一致
+function requestToMockConfig(request: DataRequest): MockConfig {
+  const number = (key: string, fallback: number) => {
+    const value = parseFloat(request.config[key]);
+    return isNaN(value) ? fallback : value;
+  };
+  return {
+    channels: request.channels,
+    sampleRate: request.sample_rate,
+    bufferSize: request.buffer_size,
+    waveformType: (request.config.waveformType || 'sine') as WaveformType,
+    amplitude: number('amplitude', 1),
+    frequency: number('frequency', 1000),
+    noiseLevel: number('noiseLevel', 0)
+  };
+}
+
+// TimeSpan 的 dd\.hh\:mm\:ss 格式
+function formatUptime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(Math.floor(total / 86400))}.${pad(Math.floor(total / 3600) % 24)}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+function metricsSnapshot(counters: MetricsCounters, uptimeSeconds: number): MetricsSnapshot {
+  const rateMBps = uptimeSeconds > 0 ? counters.totalBytes / uptimeSeconds / BYTES_PER_MB : 0;
+  return {
+    startTime: counters.startTime.toISOString(),
+    lastUpdate: counters.lastUpdate.toISOString(),
+    dataRate: {
+      totalBytes: counters.totalBytes,
+      totalMB: counters.totalBytes / BYTES_PER_MB,
+      rateMBps,
+      targetMBps: TARGET_MBPS,
+      efficiencyPercent: Math.min(100, (rateMBps / TARGET_MBPS) * 100)
+    },
+    packets: {
+      total: counters.totalPackets,
+      rate: uptimeSeconds > 0 ? counters.totalPackets / uptimeSeconds : 0
+    },
+    // 替身服务不测量延迟
+    latency: {
+      average: 0,
+      min: 0,
+      max: 0,
+      count: 0,
+      distribution: { under1ms: 0, under5ms: 0, under10ms: 0, under50ms: 0, under100ms: 0, over100ms: 0 }
+    }
+  };
+}
+
+function systemMetrics(): SystemMetrics {
+  const memory = process.memoryUsage();
+  const cpu = process.cpuUsage();
+  const cpuMs = Math.round((cpu.user + cpu.system) / 1000);
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return {
+    memory: {
+      managedMB: memory.heapUsed / BYTES_PER_MB,
+      workingSetMB: memory.rss / BYTES_PER_MB,
+      gen0Collections: 0,
+      gen1Collections: 0,
+      gen2Collections: 0
+    },
+    cpu: {
+      totalProcessorTime: `${pad(Math.floor(cpuMs / 3_600_000))}:${pad(Math.floor(cpuMs / 60_000) % 60)}:${pad(Math.floor(cpuMs / 1000) % 60)}.${pad(cpuMs % 1000, 3)}`,
+      threadCount: 1
+    },
+    gc: {
+      isServerGC: false,
+      latencyMode: 'Interactive'
+    }
+  };
+}
+
+export class StandInDaqServer {
+  readonly subscribeRequests: DataRequest[] = []; // 收到的所有 Subscribe 请求，按到达顺序
+  readonly commands: StandInCommand[] = [];
+  honorResumeAfterSeq: boolean; // 之后的 Subscribe 是否从 resumeAfterSeq 之后继续，测试中可随时修改
+
+  private readonly seed: number | undefined;
+  private readonly clock: MockClock | undefined;
+  private readonly chunkIntervalMs: number | undefined;
+  private readonly performanceIntervalMs: number;
+  private readonly pollTimeoutMs: number;
+  private readonly hubPath: string;
+  private readonly server: http.Server;
+  private readonly sockets = new Set<Socket>();
+  private readonly streams = new Set<StreamSession>();
+  private readonly hubConnections = new Map<string, HubConnection>(); // 按 connectionToken
+  private generating: boolean = false; // 全局数据生成开关，对应 DAQDataService 的 _globalDataGeneration
+  private globalMetrics: MetricsCounters = createCounters();
+  private clientMetrics = new Map<string, MetricsCounters>(); // 按订阅的 clientId
+  private performanceTimer: ReturnType<typeof setInterval> | null = null;
+  private baseUrl: string | null = null;
+
+  constructor(options: StandInDaqServerOptions = {}) {
+    this.seed = options.seed;
+    this.clock = options.clock;
+    this.chunkIntervalMs = options.chunkIntervalMs;
+    this.performanceIntervalMs = options.performanceIntervalMs ?? 5000;
+    this.pollTimeoutMs = options.pollTimeoutMs ?? 90_000;
+    this.hubPath = options.hubPath ?? DEFAULT_RUNTIME_CONFIG.signalr.hubPath;
+    this.honorResumeAfterSeq = options.honorResumeAfterSeq ?? true;
+
+    this.server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        console.error('替身 DAQ 服务处理请求失败:', error);
+        if (!response.headersSent) {
+          response.writeHead(500);
+        }
+        response.end();
+      });
+    });
+    // stop() 时直接断开仍打开的连接（数据流、长轮询、keep-alive）
+    this.server.on('connection', (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+
+  /**
+   * 在本机监听，返回服务地址（DAQGrpcClient / DAQSignalRClient 的 baseUrl）；port 为 0 时随机分配
+   */
+  async start(port: number = 0): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${address.port}`;
+    if (this.performanceIntervalMs > 0) {
+      // DAQHubBackgroundService：定期向性能监控组广播
+      this.performanceTimer = setInterval(() => {
+        this.sendToGroup('PerformanceUpdate', this.performanceMetrics());
+      }, this.performanceIntervalMs);
+    }
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (this.performanceTimer !== null) {
+      clearInterval(this.performanceTimer);
+      this.performanceTimer = null;
+    }
+    Array.from(this.streams).forEach(session => this.closeStream(session));
+    Array.from(this.hubConnections.values()).forEach(connection => this.closeHubConnection(connection));
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    this.baseUrl = null;
+  }
+
+  /**
+   * 模拟网络中断：直接断开所有数据流的连接，客户端读取时出错。返回断开的数据流数
+   */
+  dropStreams(): number {
+    const count = this.streams.size;
+    Array.from(this.streams).forEach(session => {
+      this.closeStream(session);
+      session.response.destroy();
+    });
+    return count;
+  }
+
+  get url(): string | null {
+    return this.baseUrl;
+  }
+
+  get streamCount(): number {
+    return this.streams.size;
+  }
+
+  get hubConnectionCount(): number {
+    return this.hubConnections.size;
+  }
+
+  get isGenerating(): boolean {
+    return this.generating;
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'POST' && url.pathname === '/daq.DAQStream/Subscribe') {
+      await this.handleSubscribe(request, response);
+    } else if (request.method === 'POST' && url.pathname === '/daq.DAQStream/Control') {
+      await this.handleControl(request, response);
+    } else if (request.method === 'POST' && url.pathname === `${this.hubPath}/negotiate`) {
+      this.handleNegotiate(response);
+    } else if (url.pathname === this.hubPath) {
+      await this.handleHubRequest(request, response, url.searchParams.get('id'));
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  }
+
+  // ===== gRPC-Web =====
+
+  private async handleSubscribe(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const dataRequest = decodeDataRequest(await readGrpcMessage(request));
+    this.subscribeRequests.push(dataRequest);
+
+    if (dataRequest.channels === 0 || dataRequest.sample_rate === 0 || dataRequest.buffer_size === 0) {
+      this.sendTrailersOnly(response, GrpcStatusCode.INVALID_ARGUMENT, '无效的请求参数');
+      return;
+    }
+
+    let format: SampleFormat;
+    try {
+      format = parseSampleFormat(dataRequest.config, DEFAULT_SAMPLE_FORMAT);
+    } catch (error) {
+      this.sendTrailersOnly(response, GrpcStatusCode.INVALID_ARGUMENT, (error as Error).message);
+      return;
+    }
+
+    const generator = new MockDataGenerator(requestToMockConfig(dataRequest), { seed: this.seed, clock: this.clock });
+    // 从 resumeAfterSeq 之后继续：跳过客户端已收到的块，样本位置和设备时间与没有断线时一致
+    const resumeAfterSeq = parseInt(dataRequest.config.resumeAfterSeq, 10);
+    if (this.honorResumeAfterSeq && !isNaN(resumeAfterSeq)) {
+      for (let seq = 0; seq <= resumeAfterSeq; seq++) {
+        generator.planChunk();
+      }
+    }
+
+    response.writeHead(200, { 'content-type': GRPC_WEB_CONTENT_TYPE });
+    response.flushHeaders();
+
+    const clientId = randomUUID();
+    const intervalMs = this.chunkIntervalMs ?? Math.max(1, (dataRequest.buffer_size / dataRequest.sample_rate) * 1000);
+    const session: StreamSession = {
+      clientId,
+      generator,
+      format,
+      tags: {
+        clientId,
+        channels: dataRequest.channels.toString(),
+        sampleRate: dataRequest.sample_rate.toString(),
+        bufferSize: dataRequest.buffer_size.toString()
+      },
+      response,
+      timer: setInterval(() => this.sendChunk(session), intervalMs),
+      active: true
+    };
+    this.streams.add(session);
+    this.clientMetrics.set(clientId, createCounters());
+    // 客户端取消订阅
+    response.on('close', () => this.closeStream(session));
+  }
+
+  private sendChunk(session: StreamSession): void {
+    if (!session.active || !this.generating || session.response.destroyed) return;
+
+    const { data, metadata } = session.generator.generateChunk();
+    const chunk = encodeMockChunk(data, metadata, session.format, session.tags);
+    session.response.write(encodeGrpcWebFrame(encodeDataChunk(chunk)));
+    this.recordDataSent(chunk.payload.length, session.clientId);
+  }
+
+  private closeStream(session: StreamSession): void {
+    clearInterval(session.timer);
+    this.streams.delete(session);
+  }
+
+  private async handleControl(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const cmd = decodeControlCmd(await readGrpcMessage(request));
+    const name = ControlCommand[cmd.cmd] ?? cmd.cmd.toString();
+    const success = cmd.cmd === ControlCommand.CONFIGURE
+      ? this.configure(cmd.params)
+      : this.execute(name.toLowerCase());
+    this.commands.push({ via: 'grpc', command: name, success });
+
+    response.writeHead(200, { 'content-type': GRPC_WEB_CONTENT_TYPE });
+    response.write(encodeGrpcWebFrame(encodeAck({
+      success,
+      message: success ? `命令 ${name} 执行成功` : `命令 ${name} 执行失败`,
+      timestamp: Date.now().toString()
+    })));
+    response.end(encodeGrpcWebTrailers({ 'grpc-status': GrpcStatusCode.OK.toString() }));
+  }
+
+  // Trailers-Only 响应：状态放在 HTTP 头里，没有消息帧
+  private sendTrailersOnly(response: http.ServerResponse, code: GrpcStatusCode, message: string): void {
+    response.writeHead(200, {
+      'content-type': GRPC_WEB_CONTENT_TYPE,
+      'grpc-status': code.toString(),
+      'grpc-message': encodeURIComponent(message)
+    });
+    response.end();
+  }
+
+  // ===== 全局控制 =====
+
+  // DAQDataService 的全局控制方法；未知命令返回 false
+  private execute(command: string): boolean {
+    switch (command) {
+      case 'start':
+      case 'resume':
+        this.generating = true;
+        return true;
+      case 'pause':
+        this.generating = false;
+        return true;
+      case 'stop':
+        this.stopGeneration();
+        return true;
+      case 'reset':
+        this.stopGeneration();
+        this.generating = true;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // 已有订阅不再产生数据，但连接保持打开，直到客户端取消
+  private stopGeneration(): void {
+    this.generating = false;
+    this.streams.forEach(session => {
+      session.active = false;
+    });
+  }
+
+  /**
+   * CONFIGURE：在线修改所有订阅的波形参数，从下一块的第一个样本开始生效
+   * 之后的每一块都带 config.rev / config.offset；参数无效时不做任何修改
+   */
+  private configure(params: { [key: string]: string }): boolean {
+    const changes: Partial<MockConfig> = {};
+    for (const key of LIVE_CONFIG_KEYS) {
+      const value = params[key];
+      if (value === undefined) continue;
+      if (key === 'waveformType') {
+        changes.waveformType = value as WaveformType;
+      } else {
+        const parsed = parseFloat(value);
+        if (isNaN(parsed)) return false;
+        changes[key] = parsed;
+      }
+    }
+
+    const revision = params[CONFIG_MARKER_TAGS.revision];
+    this.streams.forEach(session => {
+      session.generator.updateConfig(changes);
+      if (revision !== undefined) {
+        session.tags = {
+          ...session.tags,
+          [CONFIG_MARKER_TAGS.revision]: revision,
+          [CONFIG_MARKER_TAGS.sampleOffset]: '0'
+        };
+      }
+    });
+    return true;
+  }
+
+  // ===== 性能指标 =====
+
+  private recordDataSent(bytes: number, clientId: string): void {
+    const now = new Date();
+    [this.globalMetrics, this.clientMetrics.get(clientId)].forEach(counters => {
+      if (!counters) return;
+      counters.totalBytes += bytes;
+      counters.totalPackets++;
+      counters.lastUpdate = now;
+    });
+  }
+
+  // PerformanceMonitorService.GetMetrics；客户端快照与服务端一样按全局运行时间计算速率
+  private performanceMetrics(): PerformanceMetrics {
+    const now = new Date();
+    const uptimeSeconds = (now.getTime() - this.globalMetrics.startTime.getTime()) / 1000;
+    const clients: PerformanceMetrics['clients'] = {};
+    this.clientMetrics.forEach((counters, clientId) => {
+      clients[clientId] = metricsSnapshot(counters, uptimeSeconds);
+    });
+    return {
+      timestamp: now.toISOString(),
+      uptime: formatUptime(uptimeSeconds),
+      global: metricsSnapshot(this.globalMetrics, uptimeSeconds),
+      clients,
+      system: systemMetrics()
+    };
+  }
+
+  // ===== SignalR =====
+
+  private handleNegotiate(response: http.ServerResponse): void {
+    const connection: HubConnection = {
+      connectionId: randomUUID(),
+      token: randomUUID(),
+      handshakeDone: false,
+      polled: false,
+      outbox: [],
+      flushScheduled: false,
+      poll: null,
+      pollTimer: null,
+      inPerformanceGroup: false
+    };
+    this.hubConnections.set(connection.token, connection);
+
+    response.writeHead(200, { 'content-type': 'application/json' });
+    response.end(JSON.stringify({
+      negotiateVersion: 1,
+      connectionId: connection.connectionId,
+      connectionToken: connection.token,
+      availableTransports: [{ transport: 'LongPolling', transferFormats: ['Text', 'Binary'] }]
+    }));
+  }
+
+  private async handleHubRequest(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    token: string | null
+  ): Promise<void> {
+    const connection = token !== null ? this.hubConnections.get(token) : undefined;
+    if (!connection) {
+      response.writeHead(404);
+      response.end('No Connection with that ID');
+      return;
+    }
+
+    switch (request.method) {
+      case 'GET':
+        this.poll(connection, response);
+        break;
+      case 'POST':
+        this.receive(connection, (await readBody(request)).toString('utf8'));
+        response.writeHead(200);
+        response.end();
+        break;
+      case 'DELETE':
+        this.closeHubConnection(connection);
+        response.writeHead(202);
+        response.end();
+        break;
+      default:
+        response.writeHead(405);
+        response.end();
+    }
+  }
+
+  // 长轮询：有待发消息时立即返回，否则保持到有消息或超时
+  private poll(connection: HubConnection, response: http.ServerResponse): void {
+    if (!connection.polled) {
+      connection.polled = true;
+      response.writeHead(200);
+      response.end();
+      return;
+    }
+
+    this.endPoll(connection, 200);
+    connection.poll = response;
+    connection.pollTimer = setTimeout(() => this.endPoll(connection, 200), this.pollTimeoutMs);
+    response.on('close', () => {
+      if (connection.poll === response) {
+        this.clearPoll(connection);
+      }
+    });
+    if (connection.outbox.length > 0) {
+      this.flush(connection);
+    }
+  }
+
+  // 用当前的待发消息结束长轮询；204 通知客户端连接已被服务端关闭
+  private endPoll(connection: HubConnection, status: 200 | 204): void {
+    const response = connection.poll;
+    if (!response) return;
+
+    this.clearPoll(connection);
+    if (status === 200 && connection.outbox.length > 0) {
+      response.writeHead(200, { 'content-type': 'text/plain' });
+      response.end(connection.outbox.join(''));
+      connection.outbox = [];
+    } else {
+      response.writeHead(status);
+      response.end();
+    }
+  }
+
+  private clearPoll(connection: HubConnection): void {
+    if (connection.pollTimer !== null) {
+      clearTimeout(connection.pollTimer);
+      connection.pollTimer = null;
+    }
+    connection.poll = null;
+  }
+
+  // 同一轮处理中产生的消息合并到一次轮询响应中
+  private flush(connection: HubConnection): void {
+    if (connection.flushScheduled) return;
+    connection.flushScheduled = true;
+    Promise.resolve().then(() => {
+      connection.flushScheduled = false;
+      if (connection.outbox.length > 0) {
+        this.endPoll(connection, 200);
+      }
+    });
+  }
+
+  private send(connection: HubConnection, message: object): void {
+    connection.outbox.push(JSON.stringify(message) + RECORD_SEPARATOR);
+    this.flush(connection);
+  }
+
+  private sendEvent<K extends keyof DAQHubEvents>(
+    connection: HubConnection,
+    event: K,
+    message: Parameters<DAQHubEvents[K]>[0]
+  ): void {
+    this.send(connection, { type: MESSAGE_INVOCATION, target: event, arguments: [message] });
+  }
+
+  private sendToAll<K extends keyof DAQHubEvents>(event: K, message: Parameters<DAQHubEvents[K]>[0]): void {
+    this.hubConnections.forEach(connection => {
+      if (connection.handshakeDone) {
+        this.sendEvent(connection, event, message);
+      }
+    });
+  }
+
+  private sendToGroup<K extends keyof DAQHubEvents>(event: K, message: Parameters<DAQHubEvents[K]>[0]): void {
+    this.hubConnections.forEach(connection => {
+      if (connection.inPerformanceGroup) {
+        this.sendEvent(connection, event, message);
+      }
+    });
+  }
+
+  private closeHubConnection(connection: HubConnection): void {
+    this.hubConnections.delete(connection.token);
+    this.endPoll(connection, 204);
+  }
+
+  // 客户端发来的一批消息，以记录分隔符结尾
+  private receive(connection: HubConnection, text: string): void {
+    text.split(RECORD_SEPARATOR).filter(Boolean).forEach(raw => {
+      const message = JSON.parse(raw);
+
+      if (!connection.handshakeDone) {
+        // 握手请求 {"protocol":"json","version":1}
+        if (message.protocol !== 'json') {
+          this.send(connection, { error: `Cannot find an implementation for the '${message.protocol}' protocol.` });
+          return;
+        }
+        connection.handshakeDone = true;
+        this.send(connection, {});
+        this.onConnected(connection);
+        return;
+      }
+
+      switch (message.type) {
+        case MESSAGE_INVOCATION:
+          this.invoke(connection, message as HubInvocation);
+          break;
+        case MESSAGE_PING:
+          break;
+        case MESSAGE_CLOSE:
+          this.closeHubConnection(connection);
+          break;
+        default:
+          console.warn(`替身 DAQ 服务忽略了类型为 ${message.type} 的 Hub 消息`);
+      }
+    });
+  }
+
+  // DAQHub.OnConnectedAsync
+  private onConnected(connection: HubConnection): void {
+    this.sendEvent(connection, 'Welcome', {
+      connectionId: connection.connectionId,
+      serverTime: new Date().toISOString(),
+      message: '欢迎连接到JYTEK DAQ服务',
+      version: '1.0.0'
+    });
+    this.sendEvent(connection, 'PerformanceUpdate', this.performanceMetrics());
+  }
+
+  // 事件在 completion 之前发出，与服务端方法 await SendAsync 之后才返回一致
+  private invoke(connection: HubConnection, invocation: HubInvocation): void {
+    const handler = (this.hubMethods as { [method: string]: (connection: HubConnection, ...args: unknown[]) => void })[invocation.target];
+    let error: string | undefined;
+    if (!handler) {
+      error = `Failed to invoke '${invocation.target}' due to an error on the server. HubException: Method does not exist.`;
+    } else {
+      try {
+        handler(connection, ...invocation.arguments);
+      } catch (cause) {
+        error = `An unexpected error occurred invoking '${invocation.target}' on the server. ${(cause as Error).message}`;
+      }
+    }
+
+    if (invocation.invocationId !== undefined) {
+      this.send(connection, error !== undefined
+        ? { type: MESSAGE_COMPLETION, invocationId: invocation.invocationId, error }
+        : { type: MESSAGE_COMPLETION, invocationId: invocation.invocationId, result: null });
+    }
+  }
+
+  // DAQHub 的方法；Record 保证契约中的每个方法都有实现
+  private readonly hubMethods: HubMethodHandlers = {
+    JoinPerformanceGroup: (connection) => {
+      connection.inPerformanceGroup = true;
+    },
+    LeavePerformanceGroup: (connection) => {
+      connection.inPerformanceGroup = false;
+    },
+    GetPerformanceMetrics: (connection) => {
+      this.sendEvent(connection, 'PerformanceUpdate', this.performanceMetrics());
+    },
+    GetClientMetrics: (connection, clientId) => {
+      const counters = this.clientMetrics.get(clientId);
+      const uptimeSeconds = (Date.now() - this.globalMetrics.startTime.getTime()) / 1000;
+      this.sendEvent(connection, 'ClientMetricsUpdate', {
+        clientId,
+        metrics: counters ? metricsSnapshot(counters, uptimeSeconds) : null
+      });
+    },
+    ResetMetrics: (connection) => {
+      this.globalMetrics = createCounters();
+      this.clientMetrics.clear();
+      this.sendToGroup('MetricsReset', { timestamp: new Date().toISOString(), requestedBy: connection.connectionId });
+    },
+    SendControlCommand: (connection, command, parameters) => {
+      const success = this.execute(command.toLowerCase());
+      this.commands.push({ via: 'hub', command, success });
+      const timestamp = new Date().toISOString();
+      this.sendEvent(connection, 'CommandResult', { command, success, timestamp, parameters: parameters ?? null });
+      if (success) {
+        this.sendToAll('SystemStatusChanged', { status: command, timestamp, changedBy: connection.connectionId });
+      }
+    },
+    Heartbeat: (connection) => {
+      this.sendEvent(connection, 'HeartbeatResponse', {
+        serverTime: new Date().toISOString(),
+        connectionId: connection.connectionId
+      });
+    },
+    BroadcastPerformanceUpdate: () => {
+      this.sendToGroup('PerformanceUpdate', this.performanceMetrics());
+    }
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * 板卡型号档案：默认采集配置和硬件能力（通道数、采样率档位、量程、耦合、分辨率、带宽）
+ * 控制面板按能力限制可选的配置；内置档案之外，用户可以自定义或从 DAQ 服务加载
+ */
+
+import { CARD_CONFIGS, MockConfig } from './mockDataGenerator';
+import { SampleBitDepth } from './sampleFormat';
+import { WAVEFORMS } from './signalLibrary';
+
+export type InputCoupling = 'DC' | 'AC';
+
+export const INPUT_COUPLINGS: readonly InputCoupling[] = ['DC', 'AC'];
+
+export interface CardCapabilities {
+  maxChannels: number;
+  sampleRates: number[]; // 允许的每通道采样率档位 (S/s)，升序
+  inputRanges: number[]; // 允许的输入量程 ±V，升序
+  couplings: InputCoupling[];
+  bitDepth: SampleBitDepth; // ADC 分辨率
+  bandwidthHz: number; // 模拟前端 -3 dB 带宽
+}
+
+export type CardProfileSource = 'builtin' | 'service' | 'user';
+
+export interface CardProfile {
+  model: string;
+  description?: string;
+  capabilities: CardCapabilities;
+  defaults: MockConfig; // 选择该型号时使用的配置，已满足 capabilities
+  source: CardProfileSource;
+}
+
+export interface CardProfileParseResult {
+  profile?: CardProfile;
+  errors: string[];
+}
+
+const MAX_CHANNELS_LIMIT = 1024;
+
+// 服务端或用户档案未给出默认配置时的基准，通道数和采样率取能力上限
+const BASE_DEFAULTS: Omit<MockConfig, 'channels' | 'sampleRate'> = {
+  bufferSize: 50_000,
+  waveformType: 'sine',
+  amplitude: 1.0,
+  frequency: 1000,
+  noiseLevel: 0.02
+};
+
+const BUILTIN_CAPABILITIES: Record<string, { description: string; capabilities: CardCapabilities }> = {
+  'PXIe-69846H': {
+    description: '4 通道高速数字化仪',
+    capabilities: {
+      maxChannels: 4,
+      sampleRates: [100_000, 200_000, 500_000, 1_000_000, 2_000_000, 5_000_000, 10_000_000, 20_000_000, 40_000_000],
+      inputRanges: [0.2, 1, 5, 10],
+      couplings: ['DC', 'AC'],
+      bitDepth: 16,
+      bandwidthHz: 20_000_000
+    }
+  },
+  'PXIe-5310': {
+    description: '16 通道同步采集卡',
+    capabilities: {
+      maxChannels: 16,
+      sampleRates: [10_000, 20_000, 50_000, 100_000, 200_000, 500_000, 1_000_000, 2_000_000, 5_000_000],
+      inputRanges: [1, 2, 5, 10],
+      couplings: ['DC', 'AC'],
+      bitDepth: 16,
+      bandwidthHz: 2_000_000
+    }
+  },
+  'PXIe-5500': {
+    description: '32 通道多功能采集卡',
+    capabilities: {
+      maxChannels: 32,
+      sampleRates: [1_000, 2_000, 5_000, 10_000, 20_000, 50_000, 100_000, 200_000, 500_000, 1_000_000],
+      inputRanges: [0.2, 1, 10],
+      couplings: ['DC'],
+      bitDepth: 24,
+      bandwidthHz: 400_000
+    }
+  }
+};
+
+export const BUILTIN_CARD_PROFILES: CardProfile[] = Object.keys(BUILTIN_CAPABILITIES).map(model => {
+  const { description, capabilities } = BUILTIN_CAPABILITIES[model];
+  return {
+    model,
+    description,
+    capabilities,
+    defaults: constrainConfig(CARD_CONFIGS[model], capabilities),
+    source: 'builtin'
+  };
+});
+
+// 离 value 最近的档位，距离相同时取较小的一档
+function nearest(values: number[], value: number): number {
+  return values.reduce((best, candidate) =>
+    Math.abs(candidate - value) < Math.abs(best - value) ? candidate : best
+  );
+}
+
+/**
+ * 当前采样率下能表示的最高信号频率：带宽和奈奎斯特频率中较小的一个
+ */
+export function maxSignalFrequency(capabilities: CardCapabilities, sampleRate: number): number {
+  return Math.min(capabilities.bandwidthHz, sampleRate / 2);
+}
+
+/**
+ * 把配置限制在板卡能力范围内：通道数截断，采样率和量程取最近的档位，耦合方式不支持时取第一种
+ * 没有设置量程和耦合时使用最大量程和第一种耦合方式
+ */
+export function constrainConfig(config: MockConfig, capabilities: CardCapabilities): MockConfig {
+  const sampleRate = nearest(capabilities.sampleRates, config.sampleRate);
+  const ranges = capabilities.inputRanges;
+  return {
+    ...config,
+    channels: Math.min(Math.max(Math.round(config.channels), 1), capabilities.maxChannels),
+    sampleRate,
+    frequency: Math.min(config.frequency, maxSignalFrequency(capabilities, sampleRate)),
+    inputRange: config.inputRange === undefined ? ranges[ranges.length - 1] : nearest(ranges, config.inputRange),
+    coupling: config.coupling && capabilities.couplings.includes(config.coupling)
+      ? config.coupling
+      : capabilities.couplings[0]
+  };
+}
+
+/**
+ * 采样率的显示文本，例如 40 MS/s、500 kS/s
+ */
+export function formatSampleRate(sampleRate: number): string {
+  if (sampleRate >= 1_000_000) return `${sampleRate / 1_000_000} MS/s`;
+  if (sampleRate >= 1_000) return `${sampleRate / 1_000} kS/s`;
+  return `${sampleRate} S/s`;
+}
+
+export function formatFrequency(hz: number): string {
+  if (hz >= 1_000_000) return `${hz / 1_000_000} MHz`;
+  if (hz >= 1_000) return `${hz / 1_000} kHz`;
+  return `${hz} Hz`;
+}
+
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+// 正数档位列表，去重后升序
+function readSteps(value: unknown, path: string, errors: string[]): number[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isPositiveNumber)) {
+    errors.push(`${path} 必须是非空的正数数组`);
+    return [];
+  }
+  return Array.from(new Set(value as number[])).sort((a, b) => a - b);
+}
+
+function parseCapabilities(input: unknown, errors: string[]): CardCapabilities | null {
+  if (!isRecord(input)) {
+    errors.push('capabilities 必须是对象');
+    return null;
+  }
+  const before = errors.length;
+
+  const maxChannels = input.maxChannels;
+  if (typeof maxChannels !== 'number' || !Number.isInteger(maxChannels) || maxChannels < 1 || maxChannels > MAX_CHANNELS_LIMIT) {
+    errors.push(`capabilities.maxChannels 必须是 1 到 ${MAX_CHANNELS_LIMIT} 之间的整数`);
+  }
+  const sampleRates = readSteps(input.sampleRates, 'capabilities.sampleRates', errors);
+  const inputRanges = readSteps(input.inputRanges, 'capabilities.inputRanges', errors);
+
+  const couplings = input.couplings;
+  if (
+    !Array.isArray(couplings) ||
+    couplings.length === 0 ||
+    !couplings.every(coupling => (INPUT_COUPLINGS as readonly unknown[]).includes(coupling))
+  ) {
+    errors.push(`capabilities.couplings 必须是 ${INPUT_COUPLINGS.join('/')} 组成的非空数组`);
+  }
+  const bitDepth = input.bitDepth;
+  if (bitDepth !== 8 && bitDepth !== 16 && bitDepth !== 24 && bitDepth !== 32) {
+    errors.push('capabilities.bitDepth 必须是 8、16、24 或 32');
+  }
+  if (!isPositiveNumber(input.bandwidthHz)) {
+    errors.push('capabilities.bandwidthHz 必须是正数');
+  }
+
+  if (errors.length > before) return null;
+  return {
+    maxChannels: maxChannels as number,
+    sampleRates,
+    inputRanges,
+    couplings: Array.from(new Set(couplings as InputCoupling[])),
+    bitDepth: bitDepth as SampleBitDepth,
+    bandwidthHz: input.bandwidthHz as number
+  };
+}
+
+// 默认配置中可以由档案提供的字段，其余字段使用基准值
+function parseDefaults(input: unknown, capabilities: CardCapabilities, errors: string[]): MockConfig {
+  const defaults: MockConfig = {
+    ...BASE_DEFAULTS,
+    channels: capabilities.maxChannels,
+    sampleRate: capabilities.sampleRates[capabilities.sampleRates.length - 1]
+  };
+  if (input === undefined) return defaults;
+  if (!isRecord(input)) {
+    errors.push('defaults 必须是对象');
+    return defaults;
+  }
+
+  (['channels', 'sampleRate', 'bufferSize', 'amplitude', 'frequency', 'inputRange'] as const).forEach(key => {
+    const value = input[key];
+    if (value === undefined) return;
+    if (isPositiveNumber(value)) {
+      defaults[key] = value;
+    } else {
+      errors.push(`defaults.${key} 必须是正数`);
+    }
+  });
+  if (input.bufferSize !== undefined) {
+    defaults.bufferSize = Math.round(defaults.bufferSize);
+  }
+  if (input.noiseLevel !== undefined) {
+    if (typeof input.noiseLevel === 'number' && input.noiseLevel >= 0 && input.noiseLevel <= 1) {
+      defaults.noiseLevel = input.noiseLevel;
+    } else {
+      errors.push('defaults.noiseLevel 必须在 0 到 1 之间');
+    }
+  }
+  if (input.waveformType !== undefined) {
+    const waveform = WAVEFORMS.find(candidate => candidate.type === input.waveformType);
+    if (waveform) {
+      defaults.waveformType = waveform.type;
+    } else {
+      errors.push(`defaults.waveformType 未知的波形 ${JSON.stringify(input.waveformType)}`);
+    }
+  }
+  if (input.coupling !== undefined) {
+    if ((INPUT_COUPLINGS as readonly unknown[]).includes(input.coupling)) {
+      defaults.coupling = input.coupling as InputCoupling;
+    } else {
+      errors.push(`defaults.coupling 必须是 ${INPUT_COUPLINGS.join('/')}`);
+    }
+  }
+  return defaults;
+}
+
+/**
+ * 校验来自 DAQ 服务或 localStorage 的板卡档案；能力字段有误时整个档案无效，
+ * 默认配置中无效的字段使用基准值并记录错误，最终默认配置会限制在能力范围内
+ */
+export function parseCardProfile(input: unknown, source: CardProfileSource): CardProfileParseResult {
+  const errors: string[] = [];
+  if (!isRecord(input)) {
+    return { errors: ['板卡档案必须是对象'] };
+  }
+  const model = typeof input.model === 'string' ? input.model.trim() : '';
+  if (!model) {
+    return { errors: ['model 必须是非空字符串'] };
+  }
+
+  const capabilities = parseCapabilities(input.capabilities, errors);
+  if (!capabilities) {
+    return { errors: errors.map(error => `${model}: ${error}`) };
+  }
+  const defaults = constrainConfig(parseDefaults(input.defaults, capabilities, errors), capabilities);
+  const profile: CardProfile = { model, capabilities, defaults, source };
+  if (typeof input.description === 'string' && input.description.trim()) {
+    profile.description = input.description.trim();
+  }
+  return { profile, errors: errors.map(error => `${model}: ${error}`) };
+}
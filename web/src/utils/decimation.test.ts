@@ -0,0 +1,80 @@
+import { decimate, DECIMATION_MODES, DecimationMode } from './decimation';
+
+const SAMPLE_RATE = 40_000_000;
+const WIDTH = 1200; // 绘图区像素宽度
+
+// 40 MS/s 下 1 kHz 正弦加一个单样本毛刺
+function signalWithSpike(length: number, spikeIndex: number, spike: number): { x: Float64Array; y: Float32Array } {
+  const x = new Float64Array(length);
+  const y = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    x[i] = i / SAMPLE_RATE;
+    y[i] = 0.5 * Math.sin(2 * Math.PI * 1000 * x[i]);
+  }
+  y[spikeIndex] = spike;
+  return { x, y };
+}
+
+const MODES: DecimationMode[] = DECIMATION_MODES.map(({ mode }) => mode);
+
+describe('decimate', () => {
+  test.each(MODES)('keeps a single-sample spike with %s', (mode) => {
+    const spikeIndex = 654_321;
+    const { x, y } = signalWithSpike(1_000_000, spikeIndex, 3);
+
+    const up = decimate(x, y, WIDTH, mode);
+    y[spikeIndex] = -3;
+    const down = decimate(x, y, WIDTH, mode);
+
+    expect(up.x.length).toBeLessThanOrEqual(WIDTH * 4);
+    expect(Math.max(...up.y)).toBe(3);
+    expect(up.x[up.y.indexOf(3)]).toBe(x[spikeIndex]);
+    expect(Math.min(...down.y)).toBe(-3);
+  });
+
+  test('every-Nth-sample decimation misses the same spike', () => {
+    const { y } = signalWithSpike(1_000_000, 654_321, 3);
+    const step = Math.floor(y.length / (WIDTH * 2));
+    const strided = Array.from({ length: Math.ceil(y.length / step) }, (_, i) => y[i * step]);
+
+    expect(Math.max(...strided)).toBeLessThan(1);
+  });
+
+  test('keeps the spike visible when zoomed into a range around it', () => {
+    const spikeIndex = 500_123;
+    const { x, y } = signalWithSpike(1_000_000, spikeIndex, 3);
+    const range: [number, number] = [x[400_000], x[600_000]];
+
+    MODES.forEach(mode => {
+      const zoomed = decimate(x, y, WIDTH, mode, range);
+      expect(zoomed.y).toContain(3);
+      // 两侧各保留一个范围外的点
+      expect(zoomed.x[0]).toBe(x[399_999]);
+      expect(zoomed.x[zoomed.x.length - 1]).toBe(x[600_000]);
+    });
+  });
+
+  test('emits min and max per pixel in sample order with min/max, and adds the ends with M4', () => {
+    const x = [0, 1, 2, 3, 4, 5, 6, 7];
+    const y = [0, 5, -2, 1, 1, -4, 6, 2];
+
+    expect(decimate(x, y, 2, 'minmax')).toEqual({ x: [1, 2, 5, 6], y: [5, -2, -4, 6] });
+    expect(decimate(x, y, 1, 'm4')).toEqual({ x: [0, 5, 6, 7], y: [0, -4, 6, 2] });
+  });
+
+  test('preserves NaN gap markers without merging data across them', () => {
+    const { x, y } = signalWithSpike(100_000, 10, 0);
+    y[50_000] = NaN;
+
+    MODES.forEach(mode => {
+      const result = decimate(x, y, 100, mode);
+      const gap = result.y.findIndex(value => isNaN(value));
+      expect(result.x[gap]).toBe(x[50_000]);
+      expect(result.y.filter(value => isNaN(value))).toHaveLength(1);
+    });
+  });
+
+  test('returns small inputs unchanged', () => {
+    expect(decimate([0, 1, 2], [1, 2, 3], WIDTH, 'lttb')).toEqual({ x: [0, 1, 2], y: [1, 2, 3] });
+  });
+});
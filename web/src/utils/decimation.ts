@@ -0,0 +1,217 @@
+/**
+ * 波形显示的降采样
+ * 每隔 N 个样本取一个会混叠并漏掉单样本毛刺；这里按绘图区的像素列分桶，保留每列的极值：
+ *   - minmax：每个像素列保留最小值和最大值
+ *   - m4：每个像素列保留首、尾、最小、最大四个点，线段在列之间的走向也与原始数据一致
+ *   - lttb：Largest-Triangle-Three-Buckets，按三角形面积选点，曲线形状更平滑
+ * 值为 NaN 的样本是丢块断点，原样保留，不与两侧数据合并
+ */
+
+export type DecimationMode = 'minmax' | 'm4' | 'lttb';
+
+export const DECIMATION_MODES: readonly { mode: DecimationMode; label: string }[] = [
+  { mode: 'minmax', label: 'Min/Max' },
+  { mode: 'm4', label: 'M4' },
+  { mode: 'lttb', label: 'LTTB' }
+];
+
+export interface DecimatedSeries {
+  x: number[];
+  y: number[];
+}
+
+// 每个像素列最多输出的点数；LTTB 与 minmax 的密度相同
+const POINTS_PER_PIXEL: Record<DecimationMode, number> = {
+  minmax: 2,
+  m4: 4,
+  lttb: 2
+};
+
+// 第一个 x[i] >= value 的位置；x 升序
+function lowerBound(x: ArrayLike<number>, value: number, start: number, end: number): number {
+  let lo = start;
+  let hi = end;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (x[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function copyRange(x: ArrayLike<number>, y: ArrayLike<number>, start: number, end: number, out: DecimatedSeries): void {
+  for (let i = start; i < end; i++) {
+    out.x.push(x[i]);
+    out.y.push(y[i]);
+  }
+}
+
+// 按 x 把样本分到像素列，每列按原顺序输出最小值和最大值，withEnds 时再加上首尾两点
+function bucketByPixel(
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+  start: number,
+  end: number,
+  width: number,
+  x0: number,
+  x1: number,
+  withEnds: boolean
+): DecimatedSeries {
+  const out: DecimatedSeries = { x: [], y: [] };
+  const scale = x1 > x0 ? width / (x1 - x0) : 0;
+  let bucket = -1;
+  let first = -1;
+  let last = -1;
+  let minIndex = -1;
+  let maxIndex = -1;
+
+  const flush = () => {
+    if (first < 0) return;
+    const picked = withEnds ? [first, minIndex, maxIndex, last] : [minIndex, maxIndex];
+    picked.sort((a, b) => a - b);
+    picked.forEach((index, i) => {
+      if (i > 0 && index === picked[i - 1]) return;
+      out.x.push(x[index]);
+      out.y.push(y[index]);
+    });
+    first = -1;
+  };
+
+  for (let i = start; i < end; i++) {
+    const value = y[i];
+    if (isNaN(value)) {
+      // 断点：结束当前列并原样输出
+      flush();
+      bucket = -1;
+      out.x.push(x[i]);
+      out.y.push(value);
+      continue;
+    }
+
+    const next = Math.min(width - 1, Math.max(0, Math.floor((x[i] - x0) * scale)));
+    if (next !== bucket) {
+      flush();
+      bucket = next;
+    }
+    if (first < 0) {
+      first = minIndex = maxIndex = i;
+    } else {
+      if (value < y[minIndex]) minIndex = i;
+      if (value > y[maxIndex]) maxIndex = i;
+    }
+    last = i;
+  }
+  flush();
+  return out;
+}
+
+// 对一段不含 NaN 的样本做 LTTB，输出 threshold 个点
+function lttbRun(
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+  start: number,
+  end: number,
+  threshold: number,
+  out: DecimatedSeries
+): void {
+  const length = end - start;
+  if (threshold >= length || threshold < 3) {
+    copyRange(x, y, start, end, out);
+    return;
+  }
+
+  // 首尾两点固定，中间 length - 2 个样本平分成 threshold - 2 个桶
+  const every = (length - 2) / (threshold - 2);
+  let a = start;
+  out.x.push(x[a]);
+  out.y.push(y[a]);
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // 下一个桶的平均点作为三角形的第三个顶点
+    const nextStart = start + Math.floor((bucket + 1) * every) + 1;
+    const nextEnd = Math.min(start + Math.floor((bucket + 2) * every) + 1, end);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += x[i];
+      avgY += y[i];
+    }
+    const nextCount = nextEnd - nextStart;
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    const rangeStart = start + Math.floor(bucket * every) + 1;
+    const rangeEnd = start + Math.floor((bucket + 1) * every) + 1;
+    const ax = x[a];
+    const ay = y[a];
+    let maxArea = -1;
+    let picked = rangeStart;
+    for (let i = rangeStart; i < rangeEnd; i++) {
+      const area = Math.abs((ax - avgX) * (y[i] - ay) - (ax - x[i]) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        picked = i;
+      }
+    }
+    out.x.push(x[picked]);
+    out.y.push(y[picked]);
+    a = picked;
+  }
+
+  out.x.push(x[end - 1]);
+  out.y.push(y[end - 1]);
+}
+
+// 按 NaN 断点切成若干段，点数按段长分配
+function lttb(x: ArrayLike<number>, y: ArrayLike<number>, start: number, end: number, threshold: number): DecimatedSeries {
+  const out: DecimatedSeries = { x: [], y: [] };
+  const count = end - start;
+  let runStart = start;
+  for (let i = start; i <= end; i++) {
+    if (i < end && !isNaN(y[i])) continue;
+    if (i > runStart) {
+      lttbRun(x, y, runStart, i, Math.max(3, Math.round((threshold * (i - runStart)) / count)), out);
+    }
+    if (i < end) {
+      out.x.push(x[i]);
+      out.y.push(y[i]);
+    }
+    runStart = i + 1;
+  }
+  return out;
+}
+
+/**
+ * 把按 x 升序排列的样本降采样到 width 个像素列
+ * range 为当前可见的 x 范围（缩放后），只处理范围内的样本，并各多保留一个范围外的点使曲线连到边缘；
+ * 样本数不超过像素列能显示的点数时原样返回
+ */
+export function decimate(
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+  width: number,
+  mode: DecimationMode = 'minmax',
+  range?: [number, number]
+): DecimatedSeries {
+  let start = 0;
+  let end = Math.min(x.length, y.length);
+  if (range && end > 0) {
+    start = Math.max(0, lowerBound(x, range[0], 0, end) - 1);
+    end = Math.min(end, lowerBound(x, range[1], start, end) + 1);
+  }
+
+  const columns = Math.max(1, Math.floor(width));
+  const count = end - start;
+  if (count <= columns * POINTS_PER_PIXEL[mode]) {
+    const out: DecimatedSeries = { x: [], y: [] };
+    copyRange(x, y, start, end, out);
+    return out;
+  }
+
+  if (mode === 'lttb') {
+    return lttb(x, y, start, end, columns * POINTS_PER_PIXEL.lttb);
+  }
+  const x0 = range ? range[0] : x[start];
+  const x1 = range ? range[1] : x[end - 1];
+  return bucketByPixel(x, y, start, end, columns, x0, x1, mode === 'm4');
+}
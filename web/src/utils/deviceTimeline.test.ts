@@ -0,0 +1,47 @@
+import { absoluteBaseNs, chunkStartSeconds, DeviceTimeline, formatDeviceTime, parseTickNs } from './deviceTimeline';
+
+// 2025-07-16T08:00:00.123456789Z，远大于 2^53
+const TICK = '1752652800123456789';
+
+describe('parseTickNs', () => {
+  test('parses decimal uint64 values without losing precision', () => {
+    expect(parseTickNs(TICK).toString()).toBe(TICK);
+    expect(parseTickNs('18446744073709551615').toString()).toBe('18446744073709551615');
+  });
+
+  test('rejects invalid input as 0', () => {
+    ['', 'abc', '-5', '1.5', '1e9', '0x10', ' 12', '18446744073709551616'].forEach(input => {
+      expect(parseTickNs(input)).toBe(BigInt(0));
+    });
+  });
+});
+
+describe('absolute time axis', () => {
+  test('keeps nanosecond resolution for ticks above 2^53', () => {
+    expect(absoluteBaseNs(TICK)).toBe('1752652800000000000');
+
+    const timeline = { tickNs: '1752652801123456790', originNs: TICK, startS: 1.000000001 };
+    expect(chunkStartSeconds(timeline, 'absolute')).toBeCloseTo(1.12345679, 9);
+    expect(chunkStartSeconds({ ...timeline, tickNs: TICK }, 'absolute')).toBeCloseTo(0.123456789, 9);
+    expect(chunkStartSeconds(timeline, 'relative')).toBe(1.000000001);
+  });
+
+  test('formats device time as ISO 8601 with nanoseconds', () => {
+    expect(formatDeviceTime(TICK)).toBe('2025-07-16T08:00:00.123456789Z');
+    expect(formatDeviceTime('1752652800000000005')).toBe('2025-07-16T08:00:00.000000005Z');
+    expect(formatDeviceTime('')).toBe('1970-01-01T00:00:00.000000000Z');
+  });
+});
+
+describe('DeviceTimeline', () => {
+  test('places chunks relative to the first tick until reset', () => {
+    const timeline = new DeviceTimeline();
+    expect(timeline.place(TICK)).toEqual({ tickNs: TICK, originNs: TICK, startS: 0 });
+    // 1 ns 的差值在 number 中也能分辨
+    expect(timeline.place('1752652800123456790').startS).toBe(1e-9);
+    expect(timeline.place('1752652802623456789')).toEqual({ tickNs: '1752652802623456789', originNs: TICK, startS: 2.5 });
+
+    timeline.reset();
+    expect(timeline.place('1752652900000000000')).toMatchObject({ originNs: '1752652900000000000', startS: 0 });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * 基于 DataChunk.tick_ns 的设备时钟时间轴
+ * tick_ns 是 uint64 纳秒，超出 Number 的安全整数范围，全程用 BigInt 处理；
+ * 只有与会话起点的差值（在 2^53 ns ≈ 104 天以内）才转换为 number 秒
+ */
+
+export type TimeAxisMode = 'relative' | 'absolute';
+
+export interface ChunkTimeline {
+  tickNs: string; // 本块第一个样本的设备时间 (ns)
+  originNs: string; // 本次会话第一块的设备时间 (ns)
+  startS: number; // 本块相对 originNs 的起始时间 (s)
+}
+
+const NS_PER_SECOND = BigInt(1_000_000_000);
+const MAX_UINT64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * 解析十进制 uint64 纳秒；空串、负数、小数、十六进制等无效值以及超出 uint64 的值按 0 处理
+ */
+export function parseTickNs(tickNs: string): bigint {
+  if (!/^\d+$/.test(tickNs)) {
+    return BigInt(0);
+  }
+  const tick = BigInt(tickNs);
+  return tick > MAX_UINT64 ? BigInt(0) : tick;
+}
+
+/**
+ * 绝对时间显示的基准：起点所在的整秒
+ * 坐标值为相对该整秒的秒数，避免 1.7e9 量级的 epoch 秒数丢失纳秒精度
+ */
+export function absoluteBaseNs(originNs: string): string {
+  const origin = parseTickNs(originNs);
+  return (origin - (origin % NS_PER_SECOND)).toString();
+}
+
+/**
+ * 块在指定时间轴模式下的起始坐标 (s)
+ */
+export function chunkStartSeconds(timeline: ChunkTimeline, mode: TimeAxisMode): number {
+  if (mode === 'relative') return timeline.startS;
+  const base = parseTickNs(absoluteBaseNs(timeline.originNs));
+  return Number(parseTickNs(timeline.tickNs) - base) / 1e9;
+}
+
+/**
+ * 纳秒精度的 ISO 8601 时间字符串，例如 2025-07-16T08:00:00.123456789Z
+ */
+export function formatDeviceTime(tickNs: string): string {
+  const ns = parseTickNs(tickNs);
+  const seconds = ns / NS_PER_SECOND;
+  const fraction = (ns % NS_PER_SECOND).toString().padStart(9, '0');
+  return `${new Date(Number(seconds) * 1000).toISOString().slice(0, 19)}.${fraction}Z`;
+}
+
+export class DeviceTimeline {
+  private origin: bigint | null = null;
+
+  /**
+   * 以第一次调用时的 tick 为起点，返回该块的时间轴信息
+   */
+  place(tickNs: string): ChunkTimeline {
+    const tick = parseTickNs(tickNs);
+    if (this.origin === null) {
+      this.origin = tick;
+    }
+    return {
+      tickNs: tick.toString(),
+      originNs: this.origin.toString(),
+      startS: Number(tick - this.origin) / 1e9
+    };
+  }
+
+  reset(): void {
+    this.origin = null;
+  }
+}
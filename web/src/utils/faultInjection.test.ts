@@ -0,0 +1,104 @@
+import { FaultInjector, normalizeFaultProfile, NO_FAULTS } from './faultInjection';
+import { HighPerformanceStreamer, MockConfig } from './mockDataGenerator';
+import { ChunkMetadata } from '../services/dataSource';
+
+function chunk(values: number[][]): Float32Array[] {
+  return values.map(channel => Float32Array.from(channel));
+}
+
+const config: MockConfig = {
+  channels: 2,
+  sampleRate: 10_000,
+  bufferSize: 100,
+  waveformType: 'sine',
+  amplitude: 1,
+  frequency: 100,
+  noiseLevel: 0
+};
+
+describe('FaultInjector', () => {
+  test('drops, duplicates and jitters chunks according to the profile', () => {
+    const injector = new FaultInjector(1);
+    const data = chunk([[0.5, -0.5]]);
+
+    expect(injector.inject(data, '1000', normalizeFaultProfile({ dropRate: 1 }), 1).copies).toBe(0);
+
+    const duplicated = injector.inject(data, '1000', normalizeFaultProfile({ duplicateRate: 1, clockJitterNs: 10 }), 1);
+    expect(duplicated.copies).toBe(2);
+    expect(duplicated.injected).toEqual(['duplicate', 'jitter']);
+    expect(Math.abs(Number(duplicated.tickNs) - 1000)).toBeLessThanOrEqual(10);
+    expect(injector.stats).toMatchObject({ dropped: 1, duplicated: 1 });
+  });
+
+  test('clips to the saturation level and holds stuck channels across chunks', () => {
+    const injector = new FaultInjector(1);
+    const profile = normalizeFaultProfile({ clipLevel: 0.5, stuckRate: 1, stuckChunks: 2 });
+    const first = chunk([[0.25, 1, -1]]);
+    const second = chunk([[0.75, 0, 0]]);
+    const third = chunk([[0.1, 0.2, 0.3]]);
+
+    injector.inject(first, '0', profile, 1);
+    injector.inject(second, '0', { ...profile, stuckRate: 0 }, 1);
+    injector.inject(third, '0', { ...profile, stuckRate: 0 }, 1);
+
+    // 第一块卡在 0.25，第二块保持，第三块恢复
+    expect(Array.from(first[0])).toEqual([0.25, 0.25, 0.25]);
+    expect(Array.from(second[0])).toEqual([0.25, 0.25, 0.25]);
+    expect(Array.from(third[0])).toEqual([0.1, 0.2, 0.3].map(Math.fround));
+    expect(injector.stats.stuckChannels).toBe(1);
+  });
+
+  test('adds the expected number of spikes and reproduces them after reset', () => {
+    const profile = normalizeFaultProfile({ spikeRate: 0.01, spikeAmplitude: 4 });
+    const injector = new FaultInjector(7);
+    const run = () => {
+      const data = chunk([new Array(1000).fill(0), new Array(1000).fill(0)]);
+      injector.inject(data, '0', profile, 0.5);
+      return data;
+    };
+
+    const first = run();
+    const spikes = first.reduce((count, channel) => count + channel.filter(value => value !== 0).length, 0);
+    expect(spikes).toBe(20);
+    expect(first.every(channel => channel.every(value => value === 0 || Math.abs(value) === 2))).toBe(true);
+
+    injector.reset();
+    expect(run()).toEqual(first);
+  });
+
+  test('normalizes out-of-range parameters', () => {
+    expect(normalizeFaultProfile({ dropRate: 2, clockJitterNs: -5, stuckChunks: 0 })).toEqual({
+      ...NO_FAULTS,
+      dropRate: 1,
+      stuckChunks: 1
+    });
+  });
+});
+
+describe('HighPerformanceStreamer fault injection', () => {
+  test('dropped and duplicated chunks show up in the sequence statistics', async () => {
+    const streamer = new HighPerformanceStreamer(
+      { ...config, faults: { dropRate: 0.2, duplicateRate: 0.2 } },
+      640,
+      { seed: 3, pool: null }
+    );
+    const received: ChunkMetadata[] = [];
+
+    await new Promise<void>(resolve => {
+      streamer.start((data, metadata) => {
+        received.push(metadata);
+        if (received.length === 30) resolve();
+      });
+    });
+    streamer.stop();
+
+    const last = received[received.length - 1];
+    const faults = last.faults?.stats;
+    expect(faults?.dropped).toBeGreaterThan(0);
+    expect(faults?.duplicated).toBeGreaterThan(0);
+    expect(last.sequence.stats.duplicates).toBe(faults?.duplicated);
+    // 末尾连续丢弃的块还没有被后续块揭示
+    expect(last.sequence.stats.lostChunks).toBeLessThanOrEqual(faults?.dropped ?? 0);
+    expect(received.some(metadata => metadata.sequence.event.kind === 'gap')).toBe(true);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * 模拟数据流的故障注入
+ * 在模拟数据上制造真实硬件会出现的问题：丢块、重复块、时钟抖动、ADC 饱和、毛刺、
+ * 通道卡死和数据流停顿，用来离线验证丢块检测、告警和重连逻辑
+ */
+
+import { createPrng, Random } from './prng';
+
+export interface FaultProfile {
+  dropRate: number; // 每块被丢弃的概率，下游看到 seq 跳变
+  duplicateRate: number; // 每块被重复交付的概率
+  clockJitterNs: number; // tick_ns 的随机偏移上限 (±ns)
+  clipLevel: number; // ADC 饱和电平，相对幅值；0 表示不限幅
+  spikeRate: number; // 每个样本出现毛刺的概率
+  spikeAmplitude: number; // 毛刺幅度，相对幅值
+  stuckRate: number; // 每块有一个通道开始卡死的概率
+  stuckChunks: number; // 通道卡死持续的块数
+  stallRate: number; // 每块之后数据流停顿的概率
+  stallMs: number; // 停顿时长 (ms)
+}
+
+export const NO_FAULTS: FaultProfile = {
+  dropRate: 0,
+  duplicateRate: 0,
+  clockJitterNs: 0,
+  clipLevel: 0,
+  spikeRate: 0,
+  spikeAmplitude: 3,
+  stuckRate: 0,
+  stuckChunks: 20,
+  stallRate: 0,
+  stallMs: 2000
+};
+
+export interface FaultPreset {
+  label: string;
+  profile: FaultProfile;
+}
+
+export const FAULT_PRESETS: Record<string, FaultPreset> = {
+  none: { label: 'None', profile: NO_FAULTS },
+  lossyLink: {
+    label: 'Lossy link (drops, duplicates, jitter)',
+    profile: { ...NO_FAULTS, dropRate: 0.02, duplicateRate: 0.01, clockJitterNs: 50_000 }
+  },
+  badFrontEnd: {
+    label: 'Bad front end (clipping, spikes, stuck channels)',
+    profile: { ...NO_FAULTS, clipLevel: 0.8, spikeRate: 0.0001, stuckRate: 0.01 }
+  },
+  flakyStream: {
+    label: 'Flaky stream (stalls, drops)',
+    profile: { ...NO_FAULTS, dropRate: 0.005, stallRate: 0.005, stallMs: 3000 }
+  },
+  chaos: {
+    label: 'Chaos (everything)',
+    profile: {
+      ...NO_FAULTS,
+      dropRate: 0.02,
+      duplicateRate: 0.01,
+      clockJitterNs: 50_000,
+      clipLevel: 0.8,
+      spikeRate: 0.0001,
+      stuckRate: 0.01,
+      stallRate: 0.005
+    }
+  }
+};
+
+export type InjectedFault = 'duplicate' | 'jitter' | 'clip' | 'spike' | 'stuck' | 'stall';
+
+export interface FaultStats {
+  dropped: number; // 丢弃的块
+  duplicated: number; // 重复交付的块
+  clippedSamples: number;
+  spikes: number;
+  stuckChannels: number; // 开始卡死的次数
+  stalls: number;
+}
+
+export interface FaultMetadata {
+  injected: InjectedFault[]; // 本块上注入的故障；丢块没有对应的块，只计入 stats
+  stats: FaultStats;
+}
+
+/**
+ * 对一块数据的处理结果
+ */
+export interface FaultDecision {
+  copies: number; // 交付次数：0 丢弃，1 正常，2 重复
+  tickNs: string; // 加入抖动后的设备时间
+  stallMs: number; // 交付后停顿的时长，0 表示不停顿
+  injected: InjectedFault[];
+}
+
+/**
+ * 合并默认值并把参数限制在有效范围内
+ */
+export function normalizeFaultProfile(profile: Partial<FaultProfile> = {}): FaultProfile {
+  const merged = { ...NO_FAULTS, ...profile };
+  const probability = (value: number) => (isFinite(value) ? Math.min(1, Math.max(0, value)) : 0);
+  const nonNegative = (value: number) => (isFinite(value) ? Math.max(0, value) : 0);
+  return {
+    dropRate: probability(merged.dropRate),
+    duplicateRate: probability(merged.duplicateRate),
+    clockJitterNs: Math.round(nonNegative(merged.clockJitterNs)),
+    clipLevel: nonNegative(merged.clipLevel),
+    spikeRate: probability(merged.spikeRate),
+    spikeAmplitude: nonNegative(merged.spikeAmplitude),
+    stuckRate: probability(merged.stuckRate),
+    stuckChunks: Math.max(1, Math.round(nonNegative(merged.stuckChunks))),
+    stallRate: probability(merged.stallRate),
+    stallMs: nonNegative(merged.stallMs)
+  };
+}
+
+export function isFaultProfileActive(profile: FaultProfile): boolean {
+  return profile.dropRate > 0
+    || profile.duplicateRate > 0
+    || profile.clockJitterNs > 0
+    || profile.clipLevel > 0
+    || (profile.spikeRate > 0 && profile.spikeAmplitude > 0)
+    || profile.stuckRate > 0
+    || (profile.stallRate > 0 && profile.stallMs > 0);
+}
+
+interface StuckChannel {
+  value: number;
+  remaining: number; // 还要卡死的块数（含当前块）
+}
+
+export class FaultInjector {
+  private random: Random;
+  private readonly seed: number | undefined;
+  private stuck: Map<number, StuckChannel> = new Map();
+  private counters: FaultStats = FaultInjector.emptyStats();
+
+  /**
+   * 给定 seed 时注入结果可复现；否则使用 Math.random
+   */
+  constructor(seed?: number) {
+    this.seed = seed;
+    this.random = seed === undefined ? Math.random : createPrng(seed);
+  }
+
+  private static emptyStats(): FaultStats {
+    return { dropped: 0, duplicated: 0, clippedSamples: 0, spikes: 0, stuckChannels: 0, stalls: 0 };
+  }
+
+  /**
+   * 对一块数据注入故障，样本在 data 上原地修改；丢弃的块不修改样本
+   * 按交付顺序调用，卡死的通道跨块保持
+   */
+  inject(data: Float32Array[], tickNs: string, profile: FaultProfile, amplitude: number): FaultDecision {
+    const injected: InjectedFault[] = [];
+    this.advanceStuck();
+
+    if (this.random() < profile.dropRate) {
+      this.counters.dropped++;
+      return { copies: 0, tickNs, stallMs: 0, injected };
+    }
+
+    let copies = 1;
+    if (this.random() < profile.duplicateRate) {
+      copies = 2;
+      this.counters.duplicated++;
+      injected.push('duplicate');
+    }
+
+    let jitteredTickNs = tickNs;
+    if (profile.clockJitterNs > 0) {
+      const offset = Math.round((this.random() * 2 - 1) * profile.clockJitterNs);
+      jitteredTickNs = (BigInt(tickNs) + BigInt(offset)).toString();
+      injected.push('jitter');
+    }
+
+    if (this.injectSpikes(data, profile, amplitude)) injected.push('spike');
+    if (this.injectStuck(data, profile)) injected.push('stuck');
+    if (this.clip(data, profile, amplitude)) injected.push('clip');
+
+    let stallMs = 0;
+    if (profile.stallMs > 0 && this.random() < profile.stallRate) {
+      stallMs = profile.stallMs;
+      this.counters.stalls++;
+      injected.push('stall');
+    }
+
+    return { copies, tickNs: jitteredTickNs, stallMs, injected };
+  }
+
+  // 上一块结束时到期的通道恢复正常
+  private advanceStuck(): void {
+    this.stuck.forEach((state, channel) => {
+      if (state.remaining <= 0) this.stuck.delete(channel);
+    });
+  }
+
+  // 毛刺数按期望值取整，剩余的小数部分按概率多出一个，避免逐样本抽随机数
+  private injectSpikes(data: Float32Array[], profile: FaultProfile, amplitude: number): boolean {
+    if (profile.spikeRate <= 0 || profile.spikeAmplitude <= 0 || data.length === 0) return false;
+    const total = data.length * data[0].length;
+    const expected = profile.spikeRate * total;
+    const count = Math.floor(expected) + (this.random() < expected % 1 ? 1 : 0);
+
+    for (let i = 0; i < count; i++) {
+      const channel = data[Math.floor(this.random() * data.length)];
+      const index = Math.floor(this.random() * channel.length);
+      const sign = this.random() < 0.5 ? -1 : 1;
+      channel[index] += sign * profile.spikeAmplitude * amplitude;
+    }
+    this.counters.spikes += count;
+    return count > 0;
+  }
+
+  private injectStuck(data: Float32Array[], profile: FaultProfile): boolean {
+    if (data.length > 0 && this.random() < profile.stuckRate) {
+      const channel = Math.floor(this.random() * data.length);
+      if (!this.stuck.has(channel) && data[channel].length > 0) {
+        // 卡在开始卡死时的电平
+        this.stuck.set(channel, { value: data[channel][0], remaining: profile.stuckChunks });
+        this.counters.stuckChannels++;
+      }
+    }
+
+    let applied = false;
+    this.stuck.forEach((state, channel) => {
+      if (channel >= data.length) return;
+      data[channel].fill(state.value);
+      state.remaining--;
+      applied = true;
+    });
+    return applied;
+  }
+
+  private clip(data: Float32Array[], profile: FaultProfile, amplitude: number): boolean {
+    if (profile.clipLevel <= 0) return false;
+    const limit = profile.clipLevel * Math.abs(amplitude);
+    let clipped = 0;
+    data.forEach(channel => {
+      for (let i = 0; i < channel.length; i++) {
+        if (channel[i] > limit) {
+          channel[i] = limit;
+          clipped++;
+        } else if (channel[i] < -limit) {
+          channel[i] = -limit;
+          clipped++;
+        }
+      }
+    });
+    this.counters.clippedSamples += clipped;
+    return clipped > 0;
+  }
+
+  get stats(): FaultStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * 清除卡死状态和统计；有种子时随机序列也从头开始
+   */
+  reset(): void {
+    this.random = this.seed === undefined ? Math.random : createPrng(this.seed);
+    this.stuck.clear();
+    this.counters = FaultInjector.emptyStats();
+  }
+}
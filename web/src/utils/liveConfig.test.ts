@@ -0,0 +1,48 @@
+import { ConfigMarkerTracker, liveConfigToParams, parseConfigMarker, splitConfigChange } from './liveConfig';
+import { CARD_CONFIGS } from './mockDataGenerator';
+
+describe('splitConfigChange', () => {
+  const current = CARD_CONFIGS['PXIe-5500'];
+
+  test('separates live parameters from ones that need a restart', () => {
+    expect(splitConfigChange(current, { frequency: 250, amplitude: 0.5, channels: 8 })).toEqual({
+      live: { frequency: 250, amplitude: 0.5 },
+      restart: { channels: 8 }
+    });
+  });
+
+  test('ignores unchanged and undefined values', () => {
+    expect(splitConfigChange(current, { sampleRate: current.sampleRate, waveformType: undefined })).toEqual({
+      live: {},
+      restart: {}
+    });
+  });
+});
+
+describe('liveConfigToParams', () => {
+  test('stringifies live keys and adds the revision', () => {
+    expect(liveConfigToParams({ waveformType: 'square', amplitude: 0.25 }, 3)).toEqual({
+      'config.rev': '3',
+      waveformType: 'square',
+      amplitude: '0.25'
+    });
+  });
+});
+
+describe('ConfigMarkerTracker', () => {
+  test('reports a marker only when the revision changes', () => {
+    const tracker = new ConfigMarkerTracker();
+    expect(tracker.observe({})).toBeNull();
+    expect(tracker.observe({ 'config.rev': '1', 'config.offset': '128' })).toEqual({ revision: 1, sampleOffset: 128 });
+    expect(tracker.observe({ 'config.rev': '1', 'config.offset': '128' })).toBeNull();
+    expect(tracker.observe({ 'config.rev': '2' })).toEqual({ revision: 2, sampleOffset: 0 });
+
+    tracker.reset();
+    expect(tracker.observe({ 'config.rev': '2' })).toEqual({ revision: 2, sampleOffset: 0 });
+  });
+
+  test('rejects malformed tags', () => {
+    expect(parseConfigMarker({ 'config.rev': 'x' })).toBeNull();
+    expect(parseConfigMarker({ 'config.rev': '1', 'config.offset': '-4' })).toBeNull();
+  });
+});
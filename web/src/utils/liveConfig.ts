@@ -0,0 +1,103 @@
+/**
+ * 运行中修改配置（不停止数据流）
+ * 波形、幅值、频率等只影响信号内容的参数可以在线修改；通道数、采样率、块大小
+ * 改变了数据流的结构，仍需重启。服务端在新配置生效的块上打 config.* 标记
+ */
+
+export const LIVE_CONFIG_KEYS = ['waveformType', 'amplitude', 'frequency', 'noiseLevel'] as const;
+
+// 只有本地模拟数据源支持的在线参数，不发送给服务端
+export const MOCK_LIVE_CONFIG_KEYS: readonly string[] = [...LIVE_CONFIG_KEYS, 'signal', 'channelOverrides', 'faults'];
+
+export type LiveConfigKey = typeof LIVE_CONFIG_KEYS[number];
+
+export const CONFIG_MARKER_TAGS = {
+  revision: 'config.rev', // 已生效的配置版本号，随每次在线修改递增
+  sampleOffset: 'config.offset' // 新配置在本块中生效的第一个样本（每通道样本序号）
+} as const;
+
+/**
+ * 数据流中新配置生效的位置
+ */
+export interface ConfigMarker {
+  revision: number;
+  sampleOffset: number;
+}
+
+export function isLiveConfigKey(key: string): key is LiveConfigKey {
+  return (LIVE_CONFIG_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * 把一次配置修改拆成可在线应用的部分和需要重启的部分；值未变化的字段被忽略
+ */
+export function splitConfigChange<T extends object>(
+  current: T,
+  changes: Partial<T>,
+  liveKeys: readonly string[] = LIVE_CONFIG_KEYS
+): { live: Partial<T>; restart: Partial<T> } {
+  const live: Partial<T> = {};
+  const restart: Partial<T> = {};
+
+  (Object.keys(changes) as (keyof T & string)[]).forEach(key => {
+    const value = changes[key];
+    if (value === undefined || value === current[key]) return;
+    const target = liveKeys.includes(key) ? live : restart;
+    target[key] = changes[key];
+  });
+
+  return { live, restart };
+}
+
+/**
+ * ControlCmd.params：键名与 DataRequest.config 一致，附带本次修改的版本号
+ */
+export function liveConfigToParams(
+  changes: Partial<Record<LiveConfigKey, string | number>>,
+  revision: number
+): { [key: string]: string } {
+  const params: { [key: string]: string } = {
+    [CONFIG_MARKER_TAGS.revision]: revision.toString()
+  };
+  LIVE_CONFIG_KEYS.forEach(key => {
+    const value = changes[key];
+    if (value !== undefined) {
+      params[key] = value.toString();
+    }
+  });
+  return params;
+}
+
+/**
+ * 从 DataChunk.tags 读取配置标记；没有标记或格式不对时返回 null
+ */
+export function parseConfigMarker(tags: { [key: string]: string }): ConfigMarker | null {
+  const revisionTag = tags[CONFIG_MARKER_TAGS.revision];
+  if (revisionTag === undefined) return null;
+
+  const revision = parseInt(revisionTag, 10);
+  const sampleOffset = parseInt(tags[CONFIG_MARKER_TAGS.sampleOffset] ?? '0', 10);
+  if (!isFinite(revision) || !isFinite(sampleOffset) || sampleOffset < 0) return null;
+
+  return { revision, sampleOffset };
+}
+
+/**
+ * 服务端在新配置生效后的每一块上都带 config.rev，只有版本号变化的那一块才是标记
+ * 会话开始时的配置视为版本 0
+ */
+export class ConfigMarkerTracker {
+  private revision: number = 0;
+
+  observe(tags: { [key: string]: string }): ConfigMarker | null {
+    const marker = parseConfigMarker(tags);
+    if (!marker || marker.revision === this.revision) return null;
+
+    this.revision = marker.revision;
+    return marker;
+  }
+
+  reset(): void {
+    this.revision = 0;
+  }
+}
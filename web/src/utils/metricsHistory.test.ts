@@ -0,0 +1,32 @@
+import { MetricsHistory } from './metricsHistory';
+
+describe('MetricsHistory', () => {
+  test('keeps at most maxSamples samples', () => {
+    const history = new MetricsHistory({ maxSamples: 3 });
+    [1, 2, 3, 4, 5].forEach(value => history.push({ rate: value }, value * 1000));
+
+    expect(history.length).toBe(3);
+    expect(history.series('rate')).toEqual([3, 4, 5]);
+  });
+
+  test('drops samples older than maxAgeMs relative to the newest', () => {
+    const history = new MetricsHistory({ maxAgeMs: 10_000 });
+    history.push({ rate: 1 }, 0);
+    history.push({ rate: 2 }, 5_000);
+    history.push({ rate: 3 }, 12_000);
+
+    expect(history.series('rate')).toEqual([2, 3]);
+  });
+
+  test('marks missing values with NaN and ignores them in stats', () => {
+    const history = new MetricsHistory();
+    history.push({ rate: 10, fps: 60 }, 0);
+    history.push({ fps: 30 }, 1000);
+    history.push({ rate: 30 }, 2000);
+
+    expect(history.series('rate')).toEqual([10, NaN, 30]);
+    expect(history.latest('fps')).toBe(30);
+    expect(history.stats('rate')).toEqual({ min: 10, avg: 20, max: 30 });
+    expect(history.stats('latency')).toBeNull();
+  });
+});
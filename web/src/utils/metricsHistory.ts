@@ -0,0 +1,73 @@
+/**
+ * 性能指标的滚动历史，供仪表盘绘制趋势线
+ * 每个样本是同一时刻的一组命名指标；超过容量或时间窗口的旧样本被丢弃
+ */
+
+import { RateStats } from './throughputMeter';
+
+export interface MetricsSample {
+  time: number; // Date.now()
+  values: { [key: string]: number };
+}
+
+export interface MetricsHistoryOptions {
+  maxSamples: number;
+  maxAgeMs: number; // 相对最新样本
+}
+
+export const DEFAULT_METRICS_HISTORY_OPTIONS: MetricsHistoryOptions = {
+  maxSamples: 120,
+  maxAgeMs: 10 * 60_000
+};
+
+export class MetricsHistory {
+  private readonly options: MetricsHistoryOptions;
+  private samples: MetricsSample[] = [];
+
+  constructor(options: Partial<MetricsHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_METRICS_HISTORY_OPTIONS, ...options };
+  }
+
+  push(values: { [key: string]: number }, time: number = Date.now()): void {
+    this.samples.push({ time, values });
+
+    const cutoff = time - this.options.maxAgeMs;
+    let drop = Math.max(0, this.samples.length - this.options.maxSamples);
+    while (drop < this.samples.length && this.samples[drop].time < cutoff) {
+      drop++;
+    }
+    if (drop > 0) {
+      this.samples = this.samples.slice(drop);
+    }
+  }
+
+  /**
+   * 某个指标按时间顺序的取值；缺少该指标的样本记为 NaN，趋势线在此断开
+   */
+  series(key: string): number[] {
+    return this.samples.map(sample => sample.values[key] ?? NaN);
+  }
+
+  latest(key: string): number | undefined {
+    for (let i = this.samples.length - 1; i >= 0; i--) {
+      const value = this.samples[i].values[key];
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+
+  stats(key: string): RateStats | null {
+    const values = this.series(key).filter(value => !isNaN(value));
+    if (values.length === 0) return null;
+    const sum = values.reduce((total, value) => total + value, 0);
+    return { min: Math.min(...values), avg: sum / values.length, max: Math.max(...values) };
+  }
+
+  get length(): number {
+    return this.samples.length;
+  }
+
+  clear(): void {
+    this.samples = [];
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * 模拟数据使用的时钟
+ * 默认读取系统时间；测试中换成 VirtualClock，时间只在调用 advance() 时前进
+ */
+
+export interface MockClock {
+  now(): number; // 单调时间 (ms)，对应 performance.now()
+  wallClockMs(): number; // 墙上时间 (ms since epoch)，对应 Date.now()
+}
+
+export const SYSTEM_CLOCK: MockClock = {
+  now: () => performance.now(),
+  wallClockMs: () => Date.now()
+};
+
+export class VirtualClock implements MockClock {
+  private readonly epochMs: number;
+  private elapsedMs: number = 0;
+
+  constructor(epochMs: number = 0) {
+    this.epochMs = epochMs;
+  }
+
+  now(): number {
+    return this.elapsedMs;
+  }
+
+  wallClockMs(): number {
+    return this.epochMs + this.elapsedMs;
+  }
+
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error(`虚拟时钟不能倒退: ${ms} ms`);
+    }
+    this.elapsedMs += ms;
+  }
+}
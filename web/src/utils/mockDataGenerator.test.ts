@@ -0,0 +1,89 @@
+import { generateChannelData, MockConfig, MockDataGenerator } from './mockDataGenerator';
+import { VirtualClock } from './mockClock';
+import { createPrng } from './prng';
+
+const config: MockConfig = {
+  channels: 2,
+  sampleRate: 1000,
+  bufferSize: 4,
+  waveformType: 'noise',
+  amplitude: 1,
+  frequency: 10,
+  noiseLevel: 0.1
+};
+
+const EPOCH_MS = 1_700_000_000_000;
+
+function rounded(samples: Float32Array): number[] {
+  return Array.from(samples, value => Math.round(value * 1e6) / 1e6);
+}
+
+describe('createPrng', () => {
+  test('matches the reference Mulberry32 sequence', () => {
+    const random = createPrng(1);
+    expect([random(), random(), random()]).toEqual([0.6270739405881613, 0.002735721180215478, 0.5274470399599522]);
+  });
+});
+
+describe('MockDataGenerator', () => {
+  test('produces golden output for a given config, seed and virtual clock', () => {
+    const clock = new VirtualClock(EPOCH_MS);
+    const generator = new MockDataGenerator(config, { seed: 42, clock });
+
+    const first = generator.generateChunk();
+    clock.advance(4);
+    const second = generator.generateChunk();
+
+    expect(first.data.map(rounded)).toEqual([
+      [-0.721652, 0.229821, -0.616551, -0.726459],
+      [0.050066, -0.059153, -0.341807, 0.971031]
+    ]);
+    expect(rounded(second.data[0])).toEqual([-0.789671, 0.733887, -0.699635, -0.78336]);
+    expect(first.metadata).toEqual({
+      seq: 0,
+      timestamp: 0,
+      tickNs: '1700000000000000000',
+      sampleRate: 1000,
+      channels: 2,
+      bytesPerSecond: 4000
+    });
+    expect(second.metadata).toMatchObject({ seq: 1, timestamp: 4, tickNs: '1700000000004000000' });
+  });
+
+  test('repeats exactly after reset and differs between seeds', () => {
+    const generator = new MockDataGenerator(config, { seed: 7, clock: new VirtualClock(EPOCH_MS) });
+    const before = [generator.generateChunk(), generator.generateChunk()];
+    generator.reset();
+    const after = [generator.generateChunk(), generator.generateChunk()];
+    const other = new MockDataGenerator(config, { seed: 8, clock: new VirtualClock(EPOCH_MS) }).generateChunk();
+
+    expect(after).toEqual(before);
+    expect(other.data).not.toEqual(before[0].data);
+  });
+
+  test('generates each chunk independently of the order chunks are produced in', () => {
+    const generator = new MockDataGenerator(config, { seed: 3 });
+    generator.generateChunk();
+    const second = generator.generateChunk();
+
+    // Worker 中乱序生成时只依赖 (config, sampleOffset, seed)
+    expect(generateChannelData(config, config.bufferSize, 3)).toEqual(second.data);
+  });
+
+  test('clips samples to the input range and removes channel offsets under AC coupling', () => {
+    const square: MockConfig = {
+      ...config,
+      waveformType: 'square',
+      noiseLevel: 0,
+      amplitude: 2,
+      channelOverrides: [{ offset: 0.5 }]
+    };
+
+    const dc = generateChannelData({ ...square, inputRange: 1 }, 0)[0];
+    const ac = generateChannelData({ ...square, inputRange: 5, coupling: 'AC' }, 0)[0];
+
+    expect(Array.from(dc).every(value => Math.abs(value) <= 1)).toBe(true);
+    expect(Math.max(...Array.from(dc))).toBe(1);
+    expect(Array.from(ac)).toEqual(Array.from(generateChannelData({ ...square, channelOverrides: [] }, 0)[0]));
+  });
+});
@@ -1,3 +1,26 @@
+import { SequenceTracker } from './sequenceTracker';
+import { DeviceTimeline } from './deviceTimeline';
+import { ThroughputMeter, ThroughputMeterOptions } from './throughputMeter';
+import { ChunkMetadata, DataCallback } from '../services/dataSource';
+import { DataChunk } from '../services/daqProto';
+import { DEFAULT_SAMPLE_FORMAT, encodeSamples, SampleFormat, sampleFormatToTags } from './sampleFormat';
+import { ConfigMarker } from './liveConfig';
+import { DataWorkerPool, getDataWorkerPool, InOrderDelivery } from '../workers/dataWorkerPool';
+import { createPrng, deriveSeed } from './prng';
+import { MockClock, SYSTEM_CLOCK } from './mockClock';
+import {
+  ChannelOverride,
+  createChannelSignal,
+  normalizeSignalParameters,
+  resolveChannelSignal,
+  SignalParameters,
+  WaveformType
+} from './signalLibrary';
+import { FaultInjector, FaultProfile, isFaultProfileActive, normalizeFaultProfile } from './faultInjection';
+import { InputCoupling } from './cardProfiles';
+
+const NS_PER_SECOND = BigInt(1_000_000_000);
+
 /**
  * Mock data generator for JY5500 DAQ simulation
  * Generates high-frequency waveform data to test performance
@@ -7,10 +30,103 @@ export interface MockConfig {
   channels: number;
   sampleRate: number; // Samples per second per channel
   bufferSize: number; // Buffer size in samples
-  waveformType: 'sine' | 'square' | 'triangle' | 'noise' | 'mixed';
+  waveformType: WaveformType;
   amplitude: number;
   frequency: number; // Base frequency in Hz
   noiseLevel: number; // 0-1, amount of noise to add
+  signal?: Partial<SignalParameters>; // 调制、扫频、脉冲等波形的附加参数
+  channelOverrides?: ChannelOverride[]; // 按通道序号覆盖波形/频率/相位/幅值/偏置
+  faults?: Partial<FaultProfile>; // 故障注入，只在 HighPerformanceStreamer 交付时生效
+  inputRange?: number; // 输入量程 ±V，超出的样本被削顶；未设置时不限制
+  coupling?: InputCoupling; // AC 耦合时去掉通道的直流偏置
+}
+
+export interface MockChunkMetadata {
+  seq: number;
+  timestamp: number;
+  tickNs: string; // 本块第一个样本的设备时间 (ns)，与 DataChunk.tick_ns 对应
+  sampleRate: number;
+  channels: number;
+  bytesPerSecond: number;
+}
+
+/**
+ * 一块数据的生成参数；样本由 generateChannelData 按参数生成，可以在 Worker 中执行
+ */
+export interface MockChunkPlan {
+  config: MockConfig;
+  sampleOffset: number; // 本块第一个样本的序号
+  seed?: number; // 噪声的种子；未设置时使用 Math.random
+  metadata: MockChunkMetadata;
+}
+
+export interface MockDataGeneratorOptions {
+  seed?: number; // 设置后噪声和 'noise' 波形可复现
+  clock?: MockClock; // 元数据中的时间戳和设备时钟起点，默认系统时钟
+}
+
+/**
+ * 从第 sampleOffset 个样本开始生成一块数据，每通道一个 Float32Array
+ * 给定 seed 时结果只取决于 (config, sampleOffset, seed)，在哪个线程、按什么顺序生成都一样
+ */
+export function generateChannelData(config: MockConfig, sampleOffset: number, seed?: number): Float32Array[] {
+  const { channels, bufferSize, sampleRate } = config;
+  const params = normalizeSignalParameters(config.signal);
+  const range = config.inputRange;
+  const channelData: Float32Array[] = [];
+
+  // Generate data for each channel
+  for (let ch = 0; ch < channels; ch++) {
+    const samples = new Float32Array(bufferSize);
+    const random = seed === undefined ? Math.random : createPrng(deriveSeed(seed, sampleOffset, ch));
+    const resolved = resolveChannelSignal(config, ch, config.channelOverrides?.[ch]);
+    const signal = createChannelSignal(
+      config.coupling === 'AC' ? { ...resolved, offset: 0 } : resolved,
+      params,
+      random
+    );
+    
+    for (let i = 0; i < bufferSize; i++) {
+      const time = (sampleOffset + i) / sampleRate;
+      
+      // Generate different waveforms for different channels
+      let value = signal(time);
+      
+      // Add noise if configured
+      if (config.noiseLevel > 0) {
+        value += (random() - 0.5) * config.noiseLevel * config.amplitude;
+      }
+
+      // 超出量程时 ADC 饱和
+      if (range !== undefined) {
+        value = Math.min(Math.max(value, -range), range);
+      }
+      
+      samples[i] = value;
+    }
+    
+    channelData.push(samples);
+  }
+
+  return channelData;
+}
+
+/**
+ * 把一块模拟数据编码成 DAQ 服务发送的 DataChunk：整数 payload，format.* 标签描述格式
+ * tags 中的其他键（例如配置标记）原样附加
+ */
+export function encodeMockChunk(
+  data: Float32Array[],
+  metadata: Pick<MockChunkMetadata, 'seq' | 'tickNs'>,
+  format: SampleFormat = DEFAULT_SAMPLE_FORMAT,
+  tags: { [key: string]: string } = {}
+): DataChunk {
+  return {
+    payload: encodeSamples(data, format),
+    seq: metadata.seq,
+    tick_ns: metadata.tickNs,
+    tags: { ...sampleFormatToTags(format), ...tags }
+  };
 }
 
 export class MockDataGenerator {
@@ -18,62 +134,49 @@ export class MockDataGenerator {
   private sampleCounter: number = 0;
   private startTime: number;
   private sequenceNumber: number = 0;
+  private deviceTimeNs: bigint; // 模拟设备时钟，按已生成的样本数推进
+  private readonly seed: number | undefined;
+  private readonly clock: MockClock;
 
-  constructor(config: MockConfig) {
+  /**
+   * 设置 seed 并使用虚拟时钟时，相同配置下 generateChunk 的输出（样本和元数据）完全可复现
+   */
+  constructor(config: MockConfig, options: MockDataGeneratorOptions = {}) {
     this.config = config;
-    this.startTime = performance.now();
+    this.seed = options.seed;
+    this.clock = options.clock ?? SYSTEM_CLOCK;
+    this.startTime = this.clock.now();
+    this.deviceTimeNs = this.wallClockNs();
+  }
+
+  private wallClockNs(): bigint {
+    return BigInt(Math.round(this.clock.wallClockMs())) * BigInt(1_000_000);
   }
 
   /**
-   * Generate a chunk of mock data
-   * Returns data in the format expected by WaveformChart
+   * 分配下一块的序号、样本位置和设备时间，但不生成样本
    */
-  generateChunk(): {
-    data: Float32Array[];
-    metadata: {
-      seq: number;
-      timestamp: number;
-      sampleRate: number;
-      channels: number;
-      bytesPerSecond: number;
-    };
-  } {
-    const { channels, bufferSize, sampleRate } = this.config;
-    const channelData: Float32Array[] = [];
-
-    // Generate data for each channel
-    for (let ch = 0; ch < channels; ch++) {
-      const samples = new Float32Array(bufferSize);
-      
-      for (let i = 0; i < bufferSize; i++) {
-        const sampleIndex = this.sampleCounter + i;
-        const time = sampleIndex / sampleRate;
-        
-        // Generate different waveforms for different channels
-        let value = this.generateSample(time, ch);
-        
-        // Add noise if configured
-        if (this.config.noiseLevel > 0) {
-          value += (Math.random() - 0.5) * this.config.noiseLevel * this.config.amplitude;
-        }
-        
-        samples[i] = value;
-      }
-      
-      channelData.push(samples);
-    }
+  planChunk(): MockChunkPlan {
+    const config = this.config;
+    const { channels, bufferSize, sampleRate } = config;
+    const sampleOffset = this.sampleCounter;
 
     this.sampleCounter += bufferSize;
     const currentSeq = this.sequenceNumber++;
+    const tickNs = this.deviceTimeNs.toString();
+    this.deviceTimeNs += (BigInt(bufferSize) * NS_PER_SECOND) / BigInt(sampleRate);
     
     // Calculate data rate (16-bit samples)
     const bytesPerSecond = channels * sampleRate * 2; // 2 bytes per 16-bit sample
 
     return {
-      data: channelData,
+      config,
+      sampleOffset,
+      seed: this.seed,
       metadata: {
         seq: currentSeq,
-        timestamp: performance.now() - this.startTime,
+        timestamp: this.clock.now() - this.startTime,
+        tickNs,
         sampleRate,
         channels,
         bytesPerSecond
@@ -81,37 +184,21 @@ export class MockDataGenerator {
     };
   }
 
-  private generateSample(time: number, channel: number): number {
-    const { waveformType, amplitude, frequency } = this.config;
-    
-    // Different frequency for each channel
-    const channelFreq = frequency * (1 + channel * 0.1);
-    const phase = 2 * Math.PI * channelFreq * time;
-    
-    switch (waveformType) {
-      case 'sine':
-        return amplitude * Math.sin(phase);
-        
-      case 'square':
-        return amplitude * Math.sign(Math.sin(phase));
-        
-      case 'triangle':
-        return amplitude * (2 / Math.PI) * Math.asin(Math.sin(phase));
-        
-      case 'noise':
-        return amplitude * (Math.random() - 0.5) * 2;
-        
-      case 'mixed':
-        // Combination of sine waves with different harmonics
-        return amplitude * (
-          0.6 * Math.sin(phase) +
-          0.3 * Math.sin(2 * phase) +
-          0.1 * Math.sin(3 * phase)
-        );
-        
-      default:
-        return amplitude * Math.sin(phase);
-    }
+  /**
+   * Generate a chunk of mock data
+   * Returns data in the format expected by WaveformChart
+   */
+  generateChunk(): { data: Float32Array[]; metadata: MockChunkMetadata } {
+    const plan = this.planChunk();
+    return { data: generateChannelData(plan.config, plan.sampleOffset, plan.seed), metadata: plan.metadata };
+  }
+
+  /**
+   * 生成下一块并编码为 DataChunk，供回环测试走真实数据的解码路径
+   */
+  generateDataChunk(format: SampleFormat = DEFAULT_SAMPLE_FORMAT): DataChunk {
+    const { data, metadata } = this.generateChunk();
+    return encodeMockChunk(data, metadata, format);
   }
 
   /**
@@ -120,7 +207,8 @@ export class MockDataGenerator {
   reset(): void {
     this.sampleCounter = 0;
     this.sequenceNumber = 0;
-    this.startTime = performance.now();
+    this.startTime = this.clock.now();
+    this.deviceTimeNs = this.wallClockNs();
   }
 
   /**
@@ -141,6 +229,7 @@ export class MockDataGenerator {
 
 /**
  * Predefined configurations for different JY5500 cards
+ * 各型号的硬件能力和用户自定义型号见 cardProfiles.ts
  */
 export const CARD_CONFIGS: Record<string, MockConfig> = {
   'PXIe-69846H': {
@@ -172,16 +261,47 @@ export const CARD_CONFIGS: Record<string, MockConfig> = {
   }
 };
 
+interface GeneratedChunk {
+  config: MockConfig; // 分配本块时的配置
+  data: Float32Array[];
+  metadata: MockChunkMetadata;
+  configMarker?: ConfigMarker;
+  generationTime: number; // 从分配到样本就绪的毫秒数
+}
+
+// 每个 Worker 最多同时生成的块数
+const MAX_IN_FLIGHT_PER_WORKER = 2;
+
+// 故障注入的随机序列与样本噪声分开派生
+const FAULT_SEED_SALT = 0xfa17;
+
+export interface HighPerformanceStreamerOptions extends MockDataGeneratorOptions {
+  pool?: DataWorkerPool | null; // 默认使用 getDataWorkerPool()，null 表示在主线程生成
+}
+
 /**
  * 高性能流式数据生成器
- * 模拟目标640 MB/s数据率，使用Web Workers和优化算法
+ * 模拟目标640 MB/s数据率；安装了数据 Worker 池时样本在 Worker 中生成，按序号顺序交付
  */
 export class HighPerformanceStreamer {
   private generator: MockDataGenerator;
+  private readonly clock: MockClock; // 统计和元数据的时间；调度仍按真实时间
+  private pool: DataWorkerPool | null;
+  private ordered = new InOrderDelivery<Float32Array[]>();
+  private inFlight: number = 0;
+  private session: number = 0; // reset() 后递增，丢弃上一会话的 Worker 结果
+  private stashed: GeneratedChunk[] = []; // stop() 之后或停顿期间完成的块，恢复后交付
+  private faults: FaultInjector;
+  private stalledUntil: number = 0; // 注入的停顿结束时间 (performance.now())
   private intervalId: number | null = null;
-  private onDataCallback: ((data: Float32Array[], metadata: any) => void) | null = null;
+  private onDataCallback: DataCallback | null = null;
   private targetDataRate: number; // MB/s
   private chunkInterval: number; // ms
+  private sequenceTracker: SequenceTracker = new SequenceTracker();
+  private timeline: DeviceTimeline = new DeviceTimeline();
+  private throughput: ThroughputMeter = new ThroughputMeter();
+  private configRevision: number = 0;
+  private pendingConfigMarker: ConfigMarker | null = null;
   private performanceStats: {
     actualDataRate: number;
     frameCount: number;
@@ -189,8 +309,11 @@ export class HighPerformanceStreamer {
     lastUpdateTime: number;
   };
 
-  constructor(config: MockConfig, targetDataRateMBps: number = 640) {
-    this.generator = new MockDataGenerator(config);
+  constructor(config: MockConfig, targetDataRateMBps: number = 640, options: HighPerformanceStreamerOptions = {}) {
+    this.generator = new MockDataGenerator(config, options);
+    this.clock = options.clock ?? SYSTEM_CLOCK;
+    this.pool = options.pool !== undefined ? options.pool : getDataWorkerPool();
+    this.faults = new FaultInjector(options.seed === undefined ? undefined : deriveSeed(options.seed, FAULT_SEED_SALT));
     this.targetDataRate = targetDataRateMBps;
     
     // 优化：计算更高效的块间隔以达到目标数据率
@@ -208,46 +331,20 @@ export class HighPerformanceStreamer {
     };
   }
 
-  start(onData: (data: Float32Array[], metadata: any) => void): void {
+  start(onData: DataCallback): void {
     this.onDataCallback = onData;
-    this.performanceStats.startTime = performance.now();
-    this.performanceStats.lastUpdateTime = this.performanceStats.startTime;
+    this.performanceStats.startTime = this.clock.now();
+    this.performanceStats.lastUpdateTime = performance.now();
     this.performanceStats.frameCount = 0;
-    
-    const generateData = () => {
-      if (this.onDataCallback) {
-        const startTime = performance.now();
-        const chunk = this.generator.generateChunk();
-        
-        // 更新性能统计
-        this.performanceStats.frameCount++;
-        const now = performance.now();
-        const elapsed = now - this.performanceStats.startTime;
-        
-        if (elapsed > 0) {
-          const bytesGenerated = this.performanceStats.frameCount * 
-            chunk.metadata.channels * chunk.data[0].length * 2;
-          this.performanceStats.actualDataRate = 
-            (bytesGenerated / (elapsed / 1000)) / (1024 * 1024);
-        }
-        
-        // 添加性能指标到元数据
-        const enhancedMetadata = {
-          ...chunk.metadata,
-          actualDataRate: this.performanceStats.actualDataRate,
-          generationTime: now - startTime,
-          frameCount: this.performanceStats.frameCount
-        };
-        
-        this.onDataCallback(chunk.data, enhancedMetadata);
-      }
-    };
+
+    // 暂停期间完成的块先交付，保证序号连续
+    this.flushStashed();
 
     // 使用requestAnimationFrame代替setInterval以获得更好的性能
     const animationLoop = () => {
       const now = performance.now();
       if (now - this.performanceStats.lastUpdateTime >= this.chunkInterval) {
-        generateData();
+        this.generateData();
         this.performanceStats.lastUpdateTime = now;
       }
       
@@ -259,6 +356,130 @@ export class HighPerformanceStreamer {
     this.intervalId = requestAnimationFrame(animationLoop);
   }
 
+  private flushStashed(): void {
+    const stashed = this.stashed;
+    this.stashed = [];
+    stashed.forEach(chunk => this.deliverChunk(chunk));
+  }
+
+  private generateData(): void {
+    if (!this.onDataCallback) return;
+    // 注入的停顿：期间不产生新块，结束后先交付停顿期间完成的块
+    if (performance.now() < this.stalledUntil) return;
+    if (this.stashed.length > 0) this.flushStashed();
+
+    const pool = this.pool;
+    if (pool && this.inFlight >= pool.size * MAX_IN_FLIGHT_PER_WORKER) {
+      // Worker 跟不上目标速率时跳过本次，实测数据率如实下降
+      return;
+    }
+
+    const startTime = this.clock.now();
+    const plan = this.generator.planChunk();
+    const configMarker = this.takeConfigMarker();
+
+    if (!pool) {
+      const data = generateChannelData(plan.config, plan.sampleOffset, plan.seed);
+      this.deliverChunk({
+        config: plan.config,
+        data,
+        metadata: plan.metadata,
+        configMarker,
+        generationTime: this.clock.now() - startTime
+      });
+      return;
+    }
+
+    const session = this.session;
+    this.inFlight++;
+    this.ordered.push(
+      pool.generate(plan.config, plan.sampleOffset, plan.seed),
+      (data) => {
+        this.inFlight--;
+        if (session !== this.session) return;
+        this.deliverChunk({
+          config: plan.config,
+          data,
+          metadata: plan.metadata,
+          configMarker,
+          generationTime: this.clock.now() - startTime
+        });
+      },
+      (error) => {
+        this.inFlight--;
+        if (session !== this.session) return;
+        console.error('Worker 生成数据失败，改为在主线程生成:', error);
+        this.pool = null;
+        const data = generateChannelData(plan.config, plan.sampleOffset, plan.seed);
+        this.deliverChunk({
+          config: plan.config,
+          data,
+          metadata: plan.metadata,
+          configMarker,
+          generationTime: this.clock.now() - startTime
+        });
+      }
+    );
+  }
+
+  private deliverChunk(chunk: GeneratedChunk): void {
+    if (!this.onDataCallback || performance.now() < this.stalledUntil) {
+      this.stashed.push(chunk);
+      return;
+    }
+    const onData = this.onDataCallback;
+
+    // 故障注入：丢弃的块不交付也不计入吞吐量，下游看到 seq 跳变
+    const profile = normalizeFaultProfile(chunk.config.faults);
+    const decision = isFaultProfileActive(profile)
+      ? this.faults.inject(chunk.data, chunk.metadata.tickNs, profile, chunk.config.amplitude)
+      : null;
+    if (decision && decision.copies === 0) return;
+    if (decision && decision.stallMs > 0) {
+      this.stalledUntil = performance.now() + decision.stallMs;
+    }
+    const tickNs = decision ? decision.tickNs : chunk.metadata.tickNs;
+
+    // 更新性能统计，按等效的16位线上字节数计量，与真实数据源可比
+    this.performanceStats.frameCount++;
+    const now = this.clock.now();
+    const samplesGenerated = chunk.metadata.channels * chunk.data[0].length;
+    this.throughput.record(samplesGenerated * 2, samplesGenerated, now);
+    const throughput = this.throughput.snapshot(now);
+    this.performanceStats.actualDataRate = throughput.megabytesPerSecond;
+    
+    if (chunk.configMarker) {
+      console.log(`配置 rev ${chunk.configMarker.revision} 从 seq=${chunk.metadata.seq} 开始生效`);
+    }
+    const timeline = this.timeline.place(tickNs);
+
+    // 注入重复时同一块交付两次，第二次由序号检查判定为 duplicate
+    for (let copy = 0; copy < (decision ? decision.copies : 1); copy++) {
+      // 与真实数据源相同的序号连续性检查
+      const sequenceEvent = this.sequenceTracker.observe(chunk.metadata.seq, chunk.data[0].length);
+
+      // 添加性能指标到元数据
+      const enhancedMetadata: ChunkMetadata = {
+        ...chunk.metadata,
+        tickNs,
+        actualDataRate: this.performanceStats.actualDataRate,
+        bytesPerSecond: throughput.bytesPerSecond,
+        throughput,
+        generationTime: chunk.generationTime,
+        frameCount: this.performanceStats.frameCount,
+        configMarker: copy === 0 ? chunk.configMarker : undefined,
+        timeline,
+        sequence: {
+          event: sequenceEvent,
+          stats: this.sequenceTracker.stats
+        },
+        faults: decision ? { injected: decision.injected, stats: this.faults.stats } : undefined
+      };
+
+      onData(chunk.data, enhancedMetadata);
+    }
+  }
+
   stop(): void {
     if (this.intervalId !== null) {
       cancelAnimationFrame(this.intervalId);
@@ -267,6 +488,49 @@ export class HighPerformanceStreamer {
     this.onDataCallback = null;
   }
 
+  /**
+   * 开始新的采集会话：序号、设备时钟和统计从零开始
+   * stop()/start() 只是暂停与恢复，不会重置这些状态
+   */
+  reset(): void {
+    this.generator.reset();
+    this.sequenceTracker.reset();
+    this.timeline.reset();
+    this.throughput.reset();
+    this.faults.reset();
+    this.stalledUntil = 0;
+    this.configRevision = 0;
+    this.pendingConfigMarker = null;
+    // 丢弃上一会话仍在 Worker 中的块
+    this.session++;
+    this.stashed = [];
+  }
+
+  /**
+   * 标记一次在线配置修改，返回新的配置版本号
+   * 生成器在块边界应用新配置，所以标记落在下一块的第一个样本上
+   */
+  markConfigChange(): number {
+    this.configRevision++;
+    this.pendingConfigMarker = { revision: this.configRevision, sampleOffset: 0 };
+    return this.configRevision;
+  }
+
+  // 在分配块时取走待应用的标记，Worker 并行生成时标记仍落在配置生效的那一块
+  private takeConfigMarker(): ConfigMarker | undefined {
+    const marker = this.pendingConfigMarker;
+    if (!marker) return undefined;
+    this.pendingConfigMarker = null;
+    return marker;
+  }
+
+  /**
+   * 设置吞吐量统计窗口，已累计的统计会被清空
+   */
+  setThroughputOptions(options: Partial<ThroughputMeterOptions>): void {
+    this.throughput = new ThroughputMeter(options);
+  }
+
   getActualDataRate(): number {
     return this.performanceStats.actualDataRate;
   }
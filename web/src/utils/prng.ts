@@ -0,0 +1,40 @@
+/**
+ * 可设定种子的伪随机数生成器
+ * 模拟数据用它代替 Math.random()，相同种子得到完全相同的序列，便于写可复现的测试
+ */
+
+export type Random = () => number; // 与 Math.random 相同：[0, 1) 均匀分布
+
+const UINT32 = 0x1_0000_0000;
+
+/**
+ * Mulberry32：32 位状态，速度接近 Math.random，统计质量足够生成噪声
+ */
+export function createPrng(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32;
+  };
+}
+
+/**
+ * 把种子和若干整数（例如样本序号、通道号）混合成新的种子
+ * 每块、每通道各自派生随机序列，生成结果与生成顺序和所在线程无关
+ */
+export function deriveSeed(seed: number, ...values: number[]): number {
+  let hash = (seed ^ 0x811c9dc5) >>> 0;
+  const mix = (value: number) => {
+    hash = Math.imul(hash ^ (value >>> 0), 0x01000193) >>> 0;
+    hash ^= hash >>> 13;
+  };
+  values.forEach(value => {
+    // 超过 32 位的样本序号拆成低位和高位
+    mix(value % UINT32);
+    mix(Math.floor(value / UINT32));
+  });
+  return hash >>> 0;
+}
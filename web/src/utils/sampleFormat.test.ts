@@ -0,0 +1,123 @@
+import {
+  decodeSamples,
+  DEFAULT_SAMPLE_FORMAT,
+  encodeSamples,
+  parseSampleFormat,
+  SampleFormat,
+  SampleFormatError,
+  sampleFormatToTags
+} from './sampleFormat';
+
+function format(overrides: Partial<SampleFormat>): SampleFormat {
+  return { ...DEFAULT_SAMPLE_FORMAT, ...overrides };
+}
+
+function channelValues(data: Float32Array[]): number[][] {
+  return data.map(channel => Array.from(channel));
+}
+
+describe('decodeSamples', () => {
+  test('int16 signed little-endian interleaved, including negative samples', () => {
+    // ch0: 16384, -16384   ch1: -32768, 32767
+    const payload = new Uint8Array([0x00, 0x40, 0x00, 0x80, 0x00, 0xc0, 0xff, 0x7f]);
+    expect(channelValues(decodeSamples(payload, 2))).toEqual([
+      [0.5, -0.5],
+      [-1, 32767 / 32768]
+    ]);
+  });
+
+  test('int16 fast path and DataView path agree on unaligned payloads', () => {
+    const bytes = new Uint8Array([0xaa, 0x00, 0x40, 0x00, 0xc0]);
+    const unaligned = bytes.subarray(1);
+    expect(channelValues(decodeSamples(unaligned, 1))).toEqual([[0.5, -0.5]]);
+  });
+
+  test('int8 signed and unsigned', () => {
+    const payload = new Uint8Array([0x40, 0xc0, 0x80]);
+    expect(channelValues(decodeSamples(payload, 1, format({ bitDepth: 8 })))).toEqual([[0.5, -0.5, -1]]);
+    expect(channelValues(decodeSamples(payload, 1, format({ bitDepth: 8, signed: false })))).toEqual([
+      [-0.5, 0.5, 0]
+    ]);
+  });
+
+  test('int24 in both byte orders with sign extension', () => {
+    // 0x400000 = +0.5, 0xC00000 = -0.5
+    const little = new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]);
+    const big = new Uint8Array([0x40, 0x00, 0x00, 0xc0, 0x00, 0x00]);
+    expect(channelValues(decodeSamples(little, 1, format({ bitDepth: 24 })))).toEqual([[0.5, -0.5]]);
+    expect(channelValues(decodeSamples(big, 1, format({ bitDepth: 24, endianness: 'big' })))).toEqual([
+      [0.5, -0.5]
+    ]);
+  });
+
+  test('int32 big-endian', () => {
+    const payload = new Uint8Array([0xc0, 0x00, 0x00, 0x00]);
+    expect(channelValues(decodeSamples(payload, 1, format({ bitDepth: 32, endianness: 'big' })))).toEqual([
+      [-0.5]
+    ]);
+  });
+
+  test('float32 planar', () => {
+    const floats = new Float32Array([1.5, 2.5, -3, 4]);
+    const payload = new Uint8Array(floats.buffer);
+    expect(channelValues(decodeSamples(payload, 2, format({ encoding: 'float', bitDepth: 32, layout: 'planar' }))))
+      .toEqual([[1.5, 2.5], [-3, 4]]);
+  });
+
+  test('applies per-channel gain and offset to engineering units', () => {
+    const payload = new Uint8Array([0x00, 0x40, 0x00, 0x40]);
+    const decoded = decodeSamples(payload, 2, format({ gain: [10, 2], offset: [0, 1] }));
+    expect(channelValues(decoded)).toEqual([[5], [2]]);
+  });
+
+  test('ignores a trailing partial frame', () => {
+    const payload = new Uint8Array([0x00, 0x40, 0x00, 0x40, 0x00]);
+    expect(decodeSamples(payload, 2)[0]).toHaveLength(1);
+  });
+});
+
+describe('encodeSamples', () => {
+  test('produces the int16 little-endian interleaved bytes decodeSamples expects', () => {
+    const payload = encodeSamples([Float32Array.from([0.5, -0.5]), Float32Array.from([-1, 2])]);
+    // 超出满量程的 2 被钳位到 32767
+    expect(Array.from(payload)).toEqual([0x00, 0x40, 0x00, 0x80, 0x00, 0xc0, 0xff, 0x7f]);
+  });
+
+  test('round-trips every format within one quantization step', () => {
+    const data = [Float32Array.from([0.1, -0.25, 0.9]), Float32Array.from([-0.6, 0.33, 0])];
+    const formats: Partial<SampleFormat>[] = [
+      {},
+      { bitDepth: 8, signed: false },
+      { bitDepth: 24, endianness: 'big' },
+      { bitDepth: 32, layout: 'planar' },
+      { encoding: 'float', bitDepth: 32, endianness: 'big' },
+      { gain: [2, 0.5], offset: [0.1, -0.1] }
+    ];
+
+    formats.forEach(overrides => {
+      const sampleFormat = format(overrides);
+      const decoded = decodeSamples(encodeSamples(data, sampleFormat), 2, sampleFormat);
+      const step = Math.max(...sampleFormat.gain) / Math.pow(2, sampleFormat.bitDepth - 1);
+      decoded.forEach((channel, ch) => {
+        channel.forEach((value, i) => expect(Math.abs(value - data[ch][i])).toBeLessThanOrEqual(step));
+      });
+    });
+  });
+});
+
+describe('parseSampleFormat', () => {
+  test('round-trips through tags', () => {
+    const original = format({ bitDepth: 24, signed: false, endianness: 'big', layout: 'planar', gain: [0.5, 2] });
+    expect(parseSampleFormat(sampleFormatToTags(original))).toEqual(original);
+  });
+
+  test('keeps fallback values for missing keys', () => {
+    expect(parseSampleFormat({ 'format.bits': '8' })).toEqual(format({ bitDepth: 8 }));
+  });
+
+  test('rejects invalid descriptors', () => {
+    expect(() => parseSampleFormat({ 'format.bits': '12' })).toThrow(SampleFormatError);
+    expect(() => parseSampleFormat({ 'format.encoding': 'float', 'format.bits': '16' })).toThrow(/32/);
+    expect(() => parseSampleFormat({ 'format.gain': '1,abc' })).toThrow(/format.gain/);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * 采样数据格式描述与解码
+ * 不同的 JY5500/PXIe 板卡输出的位深、符号、字节序和排列方式不同，
+ * 格式通过 DataChunk.tags / DataRequest.config 中的 format.* 键协商
+ */
+
+export type SampleEncoding = 'int' | 'float';
+export type SampleBitDepth = 8 | 16 | 24 | 32;
+export type SampleEndianness = 'little' | 'big';
+export type SampleLayout = 'interleaved' | 'planar';
+
+export interface SampleFormat {
+  encoding: SampleEncoding;
+  bitDepth: SampleBitDepth;
+  signed: boolean; // 仅对 int 有效；无符号按偏移二进制 (offset binary) 处理
+  endianness: SampleEndianness;
+  layout: SampleLayout; // interleaved: ch0 ch1 ch0 ch1...; planar: 每个通道连续存放
+  gain: number[]; // 每通道增益，工程值 = 归一化值 * gain + offset；缺省的通道沿用最后一个
+  offset: number[];
+}
+
+export const DEFAULT_SAMPLE_FORMAT: SampleFormat = {
+  encoding: 'int',
+  bitDepth: 16,
+  signed: true,
+  endianness: 'little',
+  layout: 'interleaved',
+  gain: [1],
+  offset: [0]
+};
+
+export const SAMPLE_FORMAT_TAGS = {
+  encoding: 'format.encoding',
+  bitDepth: 'format.bits',
+  signed: 'format.signed',
+  endianness: 'format.endian',
+  layout: 'format.layout',
+  gain: 'format.gain',
+  offset: 'format.offset'
+} as const;
+
+export class SampleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, SampleFormatError.prototype);
+    this.name = 'SampleFormatError';
+  }
+}
+
+export function bytesPerSample(format: SampleFormat): number {
+  return format.bitDepth / 8;
+}
+
+function parseNumberList(value: string, key: string): number[] {
+  const values = value.split(',').map(item => parseFloat(item.trim()));
+  if (values.length === 0 || values.some(item => !isFinite(item))) {
+    throw new SampleFormatError(`${key} 必须是逗号分隔的数字列表: "${value}"`);
+  }
+  return values;
+}
+
+/**
+ * 从 tags 解析格式，未出现的键沿用 fallback
+ */
+export function parseSampleFormat(
+  tags: { [key: string]: string },
+  fallback: SampleFormat = DEFAULT_SAMPLE_FORMAT
+): SampleFormat {
+  const format: SampleFormat = { ...fallback };
+
+  const encoding = tags[SAMPLE_FORMAT_TAGS.encoding];
+  if (encoding !== undefined) {
+    if (encoding !== 'int' && encoding !== 'float') {
+      throw new SampleFormatError(`不支持的采样编码 "${encoding}"`);
+    }
+    format.encoding = encoding;
+  }
+
+  const bits = tags[SAMPLE_FORMAT_TAGS.bitDepth];
+  if (bits !== undefined) {
+    const bitDepth = parseInt(bits, 10);
+    if (bitDepth !== 8 && bitDepth !== 16 && bitDepth !== 24 && bitDepth !== 32) {
+      throw new SampleFormatError(`不支持的位深 "${bits}"`);
+    }
+    format.bitDepth = bitDepth;
+  }
+
+  const signed = tags[SAMPLE_FORMAT_TAGS.signed];
+  if (signed !== undefined) {
+    if (signed !== 'true' && signed !== 'false') {
+      throw new SampleFormatError(`format.signed 必须是 true 或 false: "${signed}"`);
+    }
+    format.signed = signed === 'true';
+  }
+
+  const endianness = tags[SAMPLE_FORMAT_TAGS.endianness];
+  if (endianness !== undefined) {
+    if (endianness !== 'little' && endianness !== 'big') {
+      throw new SampleFormatError(`不支持的字节序 "${endianness}"`);
+    }
+    format.endianness = endianness;
+  }
+
+  const layout = tags[SAMPLE_FORMAT_TAGS.layout];
+  if (layout !== undefined) {
+    if (layout !== 'interleaved' && layout !== 'planar') {
+      throw new SampleFormatError(`不支持的数据排列 "${layout}"`);
+    }
+    format.layout = layout;
+  }
+
+  const gain = tags[SAMPLE_FORMAT_TAGS.gain];
+  if (gain !== undefined) {
+    format.gain = parseNumberList(gain, SAMPLE_FORMAT_TAGS.gain);
+  }
+
+  const offset = tags[SAMPLE_FORMAT_TAGS.offset];
+  if (offset !== undefined) {
+    format.offset = parseNumberList(offset, SAMPLE_FORMAT_TAGS.offset);
+  }
+
+  if (format.encoding === 'float' && format.bitDepth !== 32) {
+    throw new SampleFormatError(`float 编码只支持 32 位，收到 ${format.bitDepth} 位`);
+  }
+
+  return format;
+}
+
+export function sampleFormatToTags(format: SampleFormat): { [key: string]: string } {
+  return {
+    [SAMPLE_FORMAT_TAGS.encoding]: format.encoding,
+    [SAMPLE_FORMAT_TAGS.bitDepth]: format.bitDepth.toString(),
+    [SAMPLE_FORMAT_TAGS.signed]: format.signed ? 'true' : 'false',
+    [SAMPLE_FORMAT_TAGS.endianness]: format.endianness,
+    [SAMPLE_FORMAT_TAGS.layout]: format.layout,
+    [SAMPLE_FORMAT_TAGS.gain]: format.gain.join(','),
+    [SAMPLE_FORMAT_TAGS.offset]: format.offset.join(',')
+  };
+}
+
+type SampleReader = (view: DataView, byteIndex: number) => number;
+
+// 返回已归一化到 [-1, 1) 的读取函数（float 编码原样返回）
+function createReader(format: SampleFormat): SampleReader {
+  const littleEndian = format.endianness === 'little';
+
+  if (format.encoding === 'float') {
+    return (view, byteIndex) => view.getFloat32(byteIndex, littleEndian);
+  }
+
+  const fullScale = Math.pow(2, format.bitDepth - 1);
+  const scale = 1 / fullScale;
+  // 偏移二进制：0 对应负满量程，2^(n-1) 对应零
+  const bias = format.signed ? 0 : fullScale;
+
+  switch (format.bitDepth) {
+    case 8:
+      return format.signed
+        ? (view, byteIndex) => view.getInt8(byteIndex) * scale
+        : (view, byteIndex) => (view.getUint8(byteIndex) - bias) * scale;
+    case 16:
+      return format.signed
+        ? (view, byteIndex) => view.getInt16(byteIndex, littleEndian) * scale
+        : (view, byteIndex) => (view.getUint16(byteIndex, littleEndian) - bias) * scale;
+    case 24:
+      return (view, byteIndex) => {
+        const b0 = view.getUint8(byteIndex);
+        const b1 = view.getUint8(byteIndex + 1);
+        const b2 = view.getUint8(byteIndex + 2);
+        let raw = littleEndian
+          ? b0 | (b1 << 8) | (b2 << 16)
+          : (b0 << 16) | (b1 << 8) | b2;
+        if (format.signed) {
+          raw = (raw << 8) >> 8; // 符号扩展
+          return raw * scale;
+        }
+        return (raw - bias) * scale;
+      };
+    case 32:
+      return format.signed
+        ? (view, byteIndex) => view.getInt32(byteIndex, littleEndian) * scale
+        : (view, byteIndex) => (view.getUint32(byteIndex, littleEndian) - bias) * scale;
+  }
+}
+
+const hostIsLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * 小端 int16 交错数据的快速路径：字节对齐时直接用 Int16Array 视图读取
+ */
+function decodeInt16Interleaved(
+  payload: Uint8Array,
+  channels: number,
+  samplesPerChannel: number,
+  gain: number[],
+  offset: number[]
+): Float32Array[] | null {
+  if (!hostIsLittleEndian || payload.byteOffset % 2 !== 0) return null;
+
+  const raw = new Int16Array(payload.buffer, payload.byteOffset, samplesPerChannel * channels);
+  const result: Float32Array[] = [];
+  for (let ch = 0; ch < channels; ch++) {
+    const channelData = new Float32Array(samplesPerChannel);
+    const channelScale = gain[ch] / 32768;
+    const channelOffset = offset[ch];
+    for (let i = 0, j = ch; i < samplesPerChannel; i++, j += channels) {
+      channelData[i] = raw[j] * channelScale + channelOffset;
+    }
+    result.push(channelData);
+  }
+  return result;
+}
+
+function perChannel(values: number[], channels: number, fallback: number): number[] {
+  const result: number[] = [];
+  for (let ch = 0; ch < channels; ch++) {
+    result.push(values.length === 0 ? fallback : values[Math.min(ch, values.length - 1)]);
+  }
+  return result;
+}
+
+/**
+ * 将 payload 解码为每通道一个 Float32Array 的工程值
+ * 末尾不足一整帧（每通道一个样本）的字节被忽略
+ */
+export function decodeSamples(
+  payload: Uint8Array,
+  channels: number,
+  format: SampleFormat = DEFAULT_SAMPLE_FORMAT
+): Float32Array[] {
+  if (channels <= 0) return [];
+
+  const sampleBytes = bytesPerSample(format);
+  const samplesPerChannel = Math.floor(payload.length / (sampleBytes * channels));
+  const gain = perChannel(format.gain, channels, 1);
+  const offset = perChannel(format.offset, channels, 0);
+
+  if (
+    format.encoding === 'int' &&
+    format.bitDepth === 16 &&
+    format.signed &&
+    format.endianness === 'little' &&
+    format.layout === 'interleaved'
+  ) {
+    const fast = decodeInt16Interleaved(payload, channels, samplesPerChannel, gain, offset);
+    if (fast) return fast;
+  }
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const read = createReader(format);
+  const result: Float32Array[] = [];
+
+  for (let ch = 0; ch < channels; ch++) {
+    const channelData = new Float32Array(samplesPerChannel);
+    const channelGain = gain[ch];
+    const channelOffset = offset[ch];
+    // interleaved: 相邻样本间隔一整帧；planar: 通道数据连续
+    const stride = format.layout === 'interleaved' ? sampleBytes * channels : sampleBytes;
+    let byteIndex = format.layout === 'interleaved'
+      ? ch * sampleBytes
+      : ch * samplesPerChannel * sampleBytes;
+
+    for (let i = 0; i < samplesPerChannel; i++, byteIndex += stride) {
+      channelData[i] = read(view, byteIndex) * channelGain + channelOffset;
+    }
+    result.push(channelData);
+  }
+
+  return result;
+}
+
+type SampleWriter = (view: DataView, byteIndex: number, normalized: number) => void;
+
+// createReader 的逆过程：把 [-1, 1) 的归一化值量化后写入，超出满量程的值被钳位
+function createWriter(format: SampleFormat): SampleWriter {
+  const littleEndian = format.endianness === 'little';
+
+  if (format.encoding === 'float') {
+    return (view, byteIndex, normalized) => view.setFloat32(byteIndex, normalized, littleEndian);
+  }
+
+  const fullScale = Math.pow(2, format.bitDepth - 1);
+  const bias = format.signed ? 0 : fullScale;
+  const quantize = (normalized: number) =>
+    Math.min(fullScale - 1, Math.max(-fullScale, Math.round(normalized * fullScale))) + bias;
+
+  switch (format.bitDepth) {
+    case 8:
+      return format.signed
+        ? (view, byteIndex, normalized) => view.setInt8(byteIndex, quantize(normalized))
+        : (view, byteIndex, normalized) => view.setUint8(byteIndex, quantize(normalized));
+    case 16:
+      return format.signed
+        ? (view, byteIndex, normalized) => view.setInt16(byteIndex, quantize(normalized), littleEndian)
+        : (view, byteIndex, normalized) => view.setUint16(byteIndex, quantize(normalized), littleEndian);
+    case 24:
+      return (view, byteIndex, normalized) => {
+        const raw = quantize(normalized) & 0xffffff;
+        const b0 = raw & 0xff;
+        const b1 = (raw >> 8) & 0xff;
+        const b2 = (raw >> 16) & 0xff;
+        view.setUint8(byteIndex, littleEndian ? b0 : b2);
+        view.setUint8(byteIndex + 1, b1);
+        view.setUint8(byteIndex + 2, littleEndian ? b2 : b0);
+      };
+    case 32:
+      return format.signed
+        ? (view, byteIndex, normalized) => view.setInt32(byteIndex, quantize(normalized), littleEndian)
+        : (view, byteIndex, normalized) => view.setUint32(byteIndex, quantize(normalized), littleEndian);
+  }
+}
+
+/**
+ * decodeSamples 的逆过程：把每通道的工程值编码为 payload
+ * 用于模拟数据回环和测试；各通道长度不同时按最短的通道截断
+ */
+export function encodeSamples(
+  channelData: Float32Array[],
+  format: SampleFormat = DEFAULT_SAMPLE_FORMAT
+): Uint8Array {
+  const channels = channelData.length;
+  if (channels === 0) return new Uint8Array(0);
+
+  const sampleBytes = bytesPerSample(format);
+  const samplesPerChannel = Math.min(...channelData.map(channel => channel.length));
+  const payload = new Uint8Array(samplesPerChannel * channels * sampleBytes);
+  const gain = perChannel(format.gain, channels, 1);
+  const offset = perChannel(format.offset, channels, 0);
+  const view = new DataView(payload.buffer);
+  const write = createWriter(format);
+
+  for (let ch = 0; ch < channels; ch++) {
+    const source = channelData[ch];
+    const scale = gain[ch] !== 0 ? 1 / gain[ch] : 0;
+    const channelOffset = offset[ch];
+    const stride = format.layout === 'interleaved' ? sampleBytes * channels : sampleBytes;
+    let byteIndex = format.layout === 'interleaved'
+      ? ch * sampleBytes
+      : ch * samplesPerChannel * sampleBytes;
+
+    for (let i = 0; i < samplesPerChannel; i++, byteIndex += stride) {
+      write(view, byteIndex, (source[i] - channelOffset) * scale);
+    }
+  }
+
+  return payload;
+}
@@ -0,0 +1,56 @@
+import { SequenceTracker } from './sequenceTracker';
+
+describe('SequenceTracker', () => {
+  test('counts gaps in chunks and samples', () => {
+    const tracker = new SequenceTracker();
+    expect(tracker.observe(10, 100).kind).toBe('first');
+    expect(tracker.observe(11, 100).kind).toBe('ok');
+
+    const gap = tracker.observe(14, 100);
+    expect(gap).toEqual({ kind: 'gap', seq: 14, expected: 12, missing: 2 });
+    expect(tracker.stats).toMatchObject({ received: 3, lostChunks: 2, lostSamples: 200, gaps: 1 });
+  });
+
+  test('distinguishes late chunks from duplicates', () => {
+    const tracker = new SequenceTracker();
+    tracker.observe(0, 50);
+    tracker.observe(2, 50);
+
+    expect(tracker.observe(1, 50).kind).toBe('reordered');
+    expect(tracker.observe(1, 50).kind).toBe('duplicate');
+    expect(tracker.observe(2, 50).kind).toBe('duplicate');
+    expect(tracker.stats).toMatchObject({ lostChunks: 0, lostSamples: 0, reordered: 1, duplicates: 2 });
+  });
+
+  test('follows uint32 wraparound', () => {
+    const tracker = new SequenceTracker();
+    tracker.observe(0xfffffffe, 1);
+    expect(tracker.observe(0xffffffff, 1).kind).toBe('ok');
+    expect(tracker.observe(0, 1).kind).toBe('ok');
+    expect(tracker.observe(2, 1)).toMatchObject({ kind: 'gap', missing: 1 });
+  });
+
+  test('re-baselines when a resubscribed stream restarts at 0', () => {
+    const tracker = new SequenceTracker();
+    [0, 1, 2, 3].forEach(seq => tracker.observe(seq, 10));
+
+    tracker.resubscribe();
+    expect(tracker.observe(0, 10)).toEqual({ kind: 'restart', seq: 0, expected: 4, missing: 0 });
+    expect(tracker.observe(1, 10).kind).toBe('ok');
+    expect(tracker.observe(3, 10)).toMatchObject({ kind: 'gap', expected: 2, missing: 1 });
+    expect(tracker.stats).toMatchObject({ received: 7, restarts: 1, duplicates: 0, lostChunks: 1 });
+  });
+
+  test('treats a resubscribed stream that resumes in order as continuous', () => {
+    const tracker = new SequenceTracker();
+    [0, 1, 2].forEach(seq => tracker.observe(seq, 10));
+
+    tracker.resubscribe();
+    expect(tracker.observe(3, 10).kind).toBe('ok');
+    tracker.resubscribe();
+    expect(tracker.observe(6, 10)).toMatchObject({ kind: 'gap', missing: 2 });
+    // 只有重订阅后的第一块可能是重新编号
+    expect(tracker.observe(0, 10).kind).toBe('duplicate');
+    expect(tracker.stats.restarts).toBe(0);
+  });
+});
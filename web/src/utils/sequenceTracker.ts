@@ -0,0 +1,131 @@
+/**
+ * DataChunk.seq 连续性检查
+ * 检测丢块、重复和乱序，并累计丢失的块数/样本数
+ * 断线重订阅后服务端可能重新从 0 编号（.NET 服务不支持 resumeAfterSeq），此时以新序号为基准继续检查
+ */
+
+export type SequenceEventKind = 'first' | 'ok' | 'gap' | 'duplicate' | 'reordered' | 'restart';
+
+export interface SequenceEvent {
+  kind: SequenceEventKind;
+  seq: number;
+  expected: number | null; // 按连续性期望收到的序号，首块为 null
+  missing: number; // gap: 本次跳过的块数
+}
+
+export interface SequenceStats {
+  received: number;
+  lostChunks: number;
+  lostSamples: number; // 每通道样本数
+  gaps: number; // 发生 gap 的次数
+  duplicates: number;
+  reordered: number; // 迟到的块（先前已计为丢失）
+  restarts: number; // 重订阅后服务端重新编号的次数，断线期间丢失的块数无法得知
+}
+
+export interface SequenceMetadata {
+  event: SequenceEvent;
+  stats: SequenceStats;
+}
+
+const UINT32_RANGE = 0x100000000;
+const HALF_UINT32_RANGE = 0x80000000;
+const MAX_TRACKED_MISSING = 4096; // 记住最近多少个缺失序号，用于区分乱序和重复
+
+export class SequenceTracker {
+  private expected: number | null = null;
+  private missing: Set<number> = new Set();
+  private missingOrder: number[] = [];
+  private resubscribed: boolean = false;
+  private counters: SequenceStats = SequenceTracker.emptyStats();
+
+  private static emptyStats(): SequenceStats {
+    return { received: 0, lostChunks: 0, lostSamples: 0, gaps: 0, duplicates: 0, reordered: 0, restarts: 0 };
+  }
+
+  /**
+   * 记录收到的块，samplesPerChunk 为该块每通道的样本数，用于估算丢失的样本
+   */
+  observe(seq: number, samplesPerChunk: number): SequenceEvent {
+    seq = seq >>> 0;
+    this.counters.received++;
+
+    if (this.expected === null) {
+      this.expected = (seq + 1) % UINT32_RANGE;
+      return { kind: 'first', seq, expected: null, missing: 0 };
+    }
+
+    const expected = this.expected;
+    // uint32 回绕下的前向距离
+    const distance = (seq - expected + UINT32_RANGE) % UINT32_RANGE;
+
+    // 重订阅后的第一块：序号落后说明服务端重新编号，而不是重复
+    const firstAfterResubscribe = this.resubscribed;
+    this.resubscribed = false;
+    if (firstAfterResubscribe && distance >= HALF_UINT32_RANGE) {
+      this.expected = (seq + 1) % UINT32_RANGE;
+      this.missing.clear();
+      this.missingOrder = [];
+      this.counters.restarts++;
+      return { kind: 'restart', seq, expected, missing: 0 };
+    }
+
+    if (distance === 0) {
+      this.expected = (seq + 1) % UINT32_RANGE;
+      return { kind: 'ok', seq, expected, missing: 0 };
+    }
+
+    if (distance < HALF_UINT32_RANGE) {
+      // 向前跳跃：中间的块全部丢失
+      for (let i = 0; i < Math.min(distance, MAX_TRACKED_MISSING); i++) {
+        this.rememberMissing((expected + i) % UINT32_RANGE);
+      }
+      this.counters.gaps++;
+      this.counters.lostChunks += distance;
+      this.counters.lostSamples += distance * samplesPerChunk;
+      this.expected = (seq + 1) % UINT32_RANGE;
+      return { kind: 'gap', seq, expected, missing: distance };
+    }
+
+    // 序号落后：要么是此前判定为丢失的迟到块，要么是重复
+    if (this.missing.has(seq)) {
+      this.missing.delete(seq);
+      this.counters.reordered++;
+      this.counters.lostChunks--;
+      this.counters.lostSamples = Math.max(0, this.counters.lostSamples - samplesPerChunk);
+      return { kind: 'reordered', seq, expected, missing: 0 };
+    }
+
+    this.counters.duplicates++;
+    return { kind: 'duplicate', seq, expected, missing: 0 };
+  }
+
+  private rememberMissing(seq: number): void {
+    this.missing.add(seq);
+    this.missingOrder.push(seq);
+    if (this.missingOrder.length > MAX_TRACKED_MISSING) {
+      this.missing.delete(this.missingOrder.shift() as number);
+    }
+  }
+
+  /**
+   * 数据流断开后重新订阅：保留统计和期望序号，下一块若落后于期望序号则按重新编号处理
+   */
+  resubscribe(): void {
+    if (this.expected !== null) {
+      this.resubscribed = true;
+    }
+  }
+
+  get stats(): SequenceStats {
+    return { ...this.counters };
+  }
+
+  reset(): void {
+    this.expected = null;
+    this.resubscribed = false;
+    this.missing.clear();
+    this.missingOrder = [];
+    this.counters = SequenceTracker.emptyStats();
+  }
+}
@@ -0,0 +1,54 @@
+import { createPrng } from './prng';
+import {
+  createChannelSignal,
+  DEFAULT_SIGNAL_PARAMETERS,
+  normalizeSignalParameters,
+  resolveChannelSignal
+} from './signalLibrary';
+
+const global = { waveformType: 'sine' as const, frequency: 100, amplitude: 2 };
+
+function sample(fn: (time: number) => number, rate: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => fn(i / rate));
+}
+
+describe('signalLibrary', () => {
+  test('channel overrides replace the global settings field by field', () => {
+    expect(resolveChannelSignal(global, 2)).toEqual({
+      waveformType: 'sine', frequency: 120, phase: 0, amplitude: 2, offset: 0
+    });
+    expect(resolveChannelSignal(global, 2, { waveformType: 'pulse', phase: 90, offset: 1 })).toEqual({
+      waveformType: 'pulse', frequency: 120, phase: Math.PI / 2, amplitude: 2, offset: 1
+    });
+  });
+
+  test('pulse trains follow the duty cycle and steps walk through evenly spaced levels', () => {
+    const params = normalizeSignalParameters({ dutyCycle: 0.25, stepCount: 3 });
+    const random = createPrng(1);
+
+    const pulse = createChannelSignal(resolveChannelSignal(global, 0, { waveformType: 'pulse', offset: 1 }), params, random);
+    // 每周期 8 个点，前 2 个为高电平
+    expect(sample(pulse, 800, 8)).toEqual([3, 3, 1, 1, 1, 1, 1, 1]);
+
+    const step = createChannelSignal(resolveChannelSignal(global, 0, { waveformType: 'step' }), params, random);
+    expect(sample(step, 100, 4)).toEqual([-2, 0, 2, -2]);
+  });
+
+  test('invalid parameters fall back to usable values', () => {
+    expect(normalizeSignalParameters({ dutyCycle: 3, chirpPeriod: 0, stepCount: 0.2 })).toEqual({
+      ...DEFAULT_SIGNAL_PARAMETERS,
+      dutyCycle: 1,
+      stepCount: 1
+    });
+  });
+
+  test('noise waveforms are reproducible for the same seed', () => {
+    const params = normalizeSignalParameters();
+    const run = (waveformType: 'gaussian' | 'pink', seed: number) =>
+      sample(createChannelSignal(resolveChannelSignal({ ...global, waveformType }, 0), params, createPrng(seed)), 1000, 16);
+
+    expect(run('gaussian', 7)).toEqual(run('gaussian', 7));
+    expect(run('pink', 7)).toEqual(run('pink', 7));
+    expect(run('gaussian', 7)).not.toEqual(run('gaussian', 8));
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * 模拟波形库
+ * 每个通道按 (波形, 频率, 相位, 幅值, 偏置) 生成；未单独设置的通道沿用全局配置，
+ * 频率按 frequency * (1 + ch * 0.1) 错开。调制、扫频等波形的附加参数在 SignalParameters 中
+ */
+
+import { Random } from './prng';
+
+export type WaveformType =
+  | 'sine'
+  | 'square'
+  | 'triangle'
+  | 'sawtooth'
+  | 'noise'
+  | 'gaussian'
+  | 'pink'
+  | 'mixed'
+  | 'chirp'
+  | 'am'
+  | 'fm'
+  | 'pm'
+  | 'pulse'
+  | 'decay'
+  | 'step';
+
+export interface WaveformInfo {
+  type: WaveformType;
+  label: string;
+  remote: boolean; // DAQ 服务也支持，真实数据模式下可选
+}
+
+export const WAVEFORMS: readonly WaveformInfo[] = [
+  { type: 'sine', label: 'Sine Wave', remote: true },
+  { type: 'square', label: 'Square Wave', remote: true },
+  { type: 'triangle', label: 'Triangle Wave', remote: true },
+  { type: 'sawtooth', label: 'Sawtooth', remote: false },
+  { type: 'noise', label: 'Random Noise', remote: true },
+  { type: 'gaussian', label: 'Gaussian Noise', remote: false },
+  { type: 'pink', label: 'Pink Noise', remote: false },
+  { type: 'mixed', label: 'Mixed Harmonics', remote: true },
+  { type: 'chirp', label: 'Chirp (linear sweep)', remote: false },
+  { type: 'am', label: 'AM', remote: false },
+  { type: 'fm', label: 'FM', remote: false },
+  { type: 'pm', label: 'PM', remote: false },
+  { type: 'pulse', label: 'Pulse Train', remote: false },
+  { type: 'decay', label: 'Exponential Decay', remote: false },
+  { type: 'step', label: 'DC Steps', remote: false }
+];
+
+export interface SignalParameters {
+  dutyCycle: number; // pulse: 高电平占周期的比例 (0-1)
+  chirpEndFrequency: number; // chirp: 扫频终止频率 (Hz)，起始频率为通道频率
+  chirpPeriod: number; // chirp: 一次扫频的时长 (s)，之后从起始频率重新开始
+  modulationFrequency: number; // am/fm/pm: 调制信号频率 (Hz)
+  modulationDepth: number; // am: 调制度 (0-1)；fm: 频偏与载波频率之比；pm: 最大相偏 (rad)
+  decayTime: number; // decay: 时间常数 (s)，每个周期重新触发
+  stepCount: number; // step: 台阶数，每个周期一级，从 -amplitude 升到 +amplitude
+}
+
+export const DEFAULT_SIGNAL_PARAMETERS: SignalParameters = {
+  dutyCycle: 0.25,
+  chirpEndFrequency: 10_000,
+  chirpPeriod: 0.01,
+  modulationFrequency: 100,
+  modulationDepth: 0.5,
+  decayTime: 0.0002,
+  stepCount: 4
+};
+
+/**
+ * 单个通道的覆盖项；未设置的字段沿用全局配置
+ */
+export interface ChannelOverride {
+  waveformType?: WaveformType;
+  frequency?: number; // Hz
+  phase?: number; // 度
+  amplitude?: number;
+  offset?: number; // 直流偏置
+}
+
+export interface ChannelSignal {
+  waveformType: WaveformType;
+  frequency: number;
+  phase: number; // rad
+  amplitude: number;
+  offset: number;
+}
+
+/**
+ * 合并默认值并把参数限制在有效范围内
+ */
+export function normalizeSignalParameters(params: Partial<SignalParameters> = {}): SignalParameters {
+  const merged = { ...DEFAULT_SIGNAL_PARAMETERS, ...params };
+  const positive = (value: number, fallback: number) => (value > 0 && isFinite(value) ? value : fallback);
+  return {
+    dutyCycle: Math.min(1, Math.max(0, merged.dutyCycle)),
+    chirpEndFrequency: Math.max(0, merged.chirpEndFrequency),
+    chirpPeriod: positive(merged.chirpPeriod, DEFAULT_SIGNAL_PARAMETERS.chirpPeriod),
+    modulationFrequency: positive(merged.modulationFrequency, DEFAULT_SIGNAL_PARAMETERS.modulationFrequency),
+    modulationDepth: Math.max(0, merged.modulationDepth),
+    decayTime: positive(merged.decayTime, DEFAULT_SIGNAL_PARAMETERS.decayTime),
+    stepCount: Math.max(1, Math.round(merged.stepCount))
+  };
+}
+
+/**
+ * 通道实际使用的信号参数
+ */
+export function resolveChannelSignal(
+  global: { waveformType: WaveformType; frequency: number; amplitude: number },
+  channel: number,
+  override: ChannelOverride = {}
+): ChannelSignal {
+  return {
+    waveformType: override.waveformType ?? global.waveformType,
+    // Different frequency for each channel
+    frequency: override.frequency ?? global.frequency * (1 + channel * 0.1),
+    phase: ((override.phase ?? 0) * Math.PI) / 180,
+    amplitude: override.amplitude ?? global.amplitude,
+    offset: override.offset ?? 0
+  };
+}
+
+const TWO_PI = 2 * Math.PI;
+
+// 小数部分，负数也落在 [0, 1)
+function frac(value: number): number {
+  return value - Math.floor(value);
+}
+
+// Box-Muller，每次产生一对，缓存第二个
+function gaussianSource(random: Random): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = 1 - random(); // (0, 1]，避免 log(0)
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(TWO_PI * v);
+    return radius * Math.cos(TWO_PI * v);
+  };
+}
+
+// Paul Kellet 的经济型粉红噪声滤波器，输出约归一化到 ±1
+function pinkSource(random: Random): () => number {
+  let b0 = 0;
+  let b1 = 0;
+  let b2 = 0;
+  return () => {
+    const white = random() * 2 - 1;
+    b0 = 0.99765 * b0 + white * 0.0990460;
+    b1 = 0.96300 * b1 + white * 0.2965164;
+    b2 = 0.57000 * b2 + white * 1.0526913;
+    return (b0 + b1 + b2 + white * 0.1848) * 0.25;
+  };
+}
+
+/**
+ * 返回按时间 (s) 取样的函数；噪声类波形按调用顺序消耗 random，需按时间顺序调用
+ */
+export function createChannelSignal(
+  signal: ChannelSignal,
+  params: SignalParameters,
+  random: Random
+): (time: number) => number {
+  const { waveformType, frequency, phase, amplitude, offset } = signal;
+  const { dutyCycle, chirpEndFrequency, chirpPeriod, modulationFrequency, modulationDepth, decayTime, stepCount } = params;
+  const angle = (time: number) => TWO_PI * frequency * time + phase;
+  const cycles = (time: number) => frequency * time + phase / TWO_PI;
+  const modulation = (time: number) => Math.sin(TWO_PI * modulationFrequency * time);
+
+  let shape: (time: number) => number;
+  switch (waveformType) {
+    case 'square':
+      shape = time => Math.sign(Math.sin(angle(time)));
+      break;
+    case 'triangle':
+      shape = time => (2 / Math.PI) * Math.asin(Math.sin(angle(time)));
+      break;
+    case 'sawtooth':
+      shape = time => 2 * frac(cycles(time)) - 1;
+      break;
+    case 'noise':
+      shape = () => (random() - 0.5) * 2;
+      break;
+    case 'gaussian': {
+      // ±amplitude 约为 3σ
+      const next = gaussianSource(random);
+      shape = () => next() / 3;
+      break;
+    }
+    case 'pink':
+      shape = pinkSource(random);
+      break;
+    case 'mixed':
+      // Combination of sine waves with different harmonics
+      shape = time => {
+        const theta = angle(time);
+        return 0.6 * Math.sin(theta) + 0.3 * Math.sin(2 * theta) + 0.1 * Math.sin(3 * theta);
+      };
+      break;
+    case 'chirp':
+      shape = time => {
+        const tau = time % chirpPeriod;
+        const sweep = (chirpEndFrequency - frequency) / chirpPeriod;
+        return Math.sin(TWO_PI * (frequency * tau + (sweep * tau * tau) / 2) + phase);
+      };
+      break;
+    case 'am':
+      shape = time => ((1 + modulationDepth * modulation(time)) / (1 + modulationDepth)) * Math.sin(angle(time));
+      break;
+    case 'fm':
+      // 正弦调制的瞬时相位：频偏 Δf = depth * frequency，调制指数 Δf / fm
+      shape = time => Math.sin(angle(time) + ((modulationDepth * frequency) / modulationFrequency) * modulation(time));
+      break;
+    case 'pm':
+      shape = time => Math.sin(angle(time) + modulationDepth * modulation(time));
+      break;
+    case 'pulse':
+      shape = time => (frac(cycles(time)) < dutyCycle ? 1 : 0);
+      break;
+    case 'decay':
+      shape = time => (frequency > 0 ? Math.exp(-frac(cycles(time)) / frequency / decayTime) : Math.exp(-time / decayTime));
+      break;
+    case 'step':
+      shape = time => {
+        if (stepCount === 1) return 1;
+        const level = ((Math.floor(cycles(time)) % stepCount) + stepCount) % stepCount;
+        return -1 + (2 * level) / (stepCount - 1);
+      };
+      break;
+    case 'sine':
+    default:
+      shape = time => Math.sin(angle(time));
+      break;
+  }
+
+  return time => amplitude * shape(time) + offset;
+}
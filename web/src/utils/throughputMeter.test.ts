@@ -0,0 +1,35 @@
+import { ThroughputMeter } from './throughputMeter';
+
+describe('ThroughputMeter', () => {
+  test('measures rates over the sliding window', () => {
+    const meter = new ThroughputMeter({ windowMs: 1000 });
+    // 1 MB 每 100ms，持续 2 秒
+    for (let t = 0; t <= 2000; t += 100) {
+      meter.record(1024 * 1024, 1000, t);
+    }
+
+    const snapshot = meter.snapshot(2000);
+    expect(snapshot.megabytesPerSecond).toBeCloseTo(10, 5);
+    expect(snapshot.chunksPerSecond).toBeCloseTo(10, 5);
+    expect(snapshot.totalChunks).toBe(21);
+  });
+
+  test('decays to zero once data stops', () => {
+    const meter = new ThroughputMeter({ windowMs: 1000 });
+    meter.record(1000, 10, 0);
+    meter.record(1000, 10, 500);
+    expect(meter.snapshot(3000).bytesPerSecond).toBe(0);
+  });
+
+  test('reports min/avg/max over history windows', () => {
+    const meter = new ThroughputMeter({ windowMs: 1000, historyWindowsMs: [10_000], historyIntervalMs: 0 });
+    for (let t = 0; t < 5000; t += 100) {
+      meter.record(t < 2500 ? 1024 * 1024 : 2 * 1024 * 1024, 0, t);
+    }
+
+    const stats = meter.snapshot(5000).windows[10_000];
+    expect(stats.min).toBeLessThan(stats.avg);
+    expect(stats.avg).toBeLessThan(stats.max);
+    expect(stats.max).toBeCloseTo(20, 5);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * 滑动窗口吞吐量统计
+ * 按实际收到的块计算 bytes/samples/chunks 每秒，并保留一段速率历史用于
+ * 多个时间窗口上的最小/平均/最大值。真实数据源和模拟数据源共用
+ */
+
+const BYTES_PER_MB = 1024 * 1024; // 与服务端 PerformanceMonitorService 的 MB 定义一致
+
+export interface ThroughputMeterOptions {
+  windowMs: number; // 计算瞬时速率的滑动窗口
+  historyWindowsMs: number[]; // 统计 min/avg/max 的窗口长度
+  historyIntervalMs: number; // 速率历史的采样间隔
+}
+
+export const DEFAULT_THROUGHPUT_OPTIONS: ThroughputMeterOptions = {
+  windowMs: 1000,
+  historyWindowsMs: [5_000, 60_000],
+  historyIntervalMs: 250
+};
+
+export interface RateStats {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+export interface ThroughputSnapshot {
+  bytesPerSecond: number;
+  samplesPerSecond: number;
+  chunksPerSecond: number;
+  megabytesPerSecond: number;
+  totalBytes: number;
+  totalChunks: number;
+  // key 为窗口长度 (ms)，值为该窗口内 MB/s 的统计
+  windows: { [windowMs: number]: RateStats };
+}
+
+interface ChunkRecord {
+  time: number;
+  bytes: number;
+  samples: number;
+}
+
+interface RateRecord {
+  time: number;
+  megabytesPerSecond: number;
+}
+
+export class ThroughputMeter {
+  private readonly options: ThroughputMeterOptions;
+  private records: ChunkRecord[] = [];
+  private head: number = 0;
+  private windowBytes: number = 0;
+  private windowSamples: number = 0;
+  private history: RateRecord[] = [];
+  private lastHistoryTime: number = -Infinity;
+  private firstRecordTime: number | null = null;
+  private totalBytes: number = 0;
+  private totalChunks: number = 0;
+
+  constructor(options: Partial<ThroughputMeterOptions> = {}) {
+    this.options = { ...DEFAULT_THROUGHPUT_OPTIONS, ...options };
+  }
+
+  /**
+   * 记录一个收到的块；samples 为所有通道的样本总数
+   */
+  record(bytes: number, samples: number, now: number = performance.now()): void {
+    if (this.firstRecordTime === null) {
+      this.firstRecordTime = now;
+    }
+    this.records.push({ time: now, bytes, samples });
+    this.windowBytes += bytes;
+    this.windowSamples += samples;
+    this.totalBytes += bytes;
+    this.totalChunks++;
+    this.evict(now);
+
+    if (now - this.lastHistoryTime >= this.options.historyIntervalMs) {
+      this.history.push({ time: now, megabytesPerSecond: this.rate(this.windowBytes, now) / BYTES_PER_MB });
+      this.lastHistoryTime = now;
+      this.trimHistory(now);
+    }
+  }
+
+  snapshot(now: number = performance.now()): ThroughputSnapshot {
+    this.evict(now);
+    const bytesPerSecond = this.rate(this.windowBytes, now);
+    const windows: { [windowMs: number]: RateStats } = {};
+
+    this.options.historyWindowsMs.forEach(windowMs => {
+      const rates = this.history
+        .filter(entry => now - entry.time <= windowMs)
+        .map(entry => entry.megabytesPerSecond);
+      windows[windowMs] = rates.length === 0
+        ? { min: 0, avg: 0, max: 0 }
+        : {
+            min: Math.min(...rates),
+            avg: rates.reduce((sum, rate) => sum + rate, 0) / rates.length,
+            max: Math.max(...rates)
+          };
+    });
+
+    return {
+      bytesPerSecond,
+      samplesPerSecond: this.rate(this.windowSamples, now),
+      chunksPerSecond: this.rate(this.records.length - this.head, now),
+      megabytesPerSecond: bytesPerSecond / BYTES_PER_MB,
+      totalBytes: this.totalBytes,
+      totalChunks: this.totalChunks,
+      windows
+    };
+  }
+
+  reset(): void {
+    this.records = [];
+    this.head = 0;
+    this.windowBytes = 0;
+    this.windowSamples = 0;
+    this.history = [];
+    this.lastHistoryTime = -Infinity;
+    this.firstRecordTime = null;
+    this.totalBytes = 0;
+    this.totalChunks = 0;
+  }
+
+  // 窗口未填满（刚开始接收）时按实际经过的时间计算，避免启动阶段速率偏低
+  private rate(amount: number, now: number): number {
+    if (this.firstRecordTime === null) return 0;
+    const elapsedMs = Math.min(this.options.windowMs, now - this.firstRecordTime);
+    if (elapsedMs <= 0) return 0;
+    return amount / (elapsedMs / 1000);
+  }
+
+  private evict(now: number): void {
+    const cutoff = now - this.options.windowMs;
+    while (this.head < this.records.length && this.records[this.head].time <= cutoff) {
+      this.windowBytes -= this.records[this.head].bytes;
+      this.windowSamples -= this.records[this.head].samples;
+      this.head++;
+    }
+    // 定期压缩数组，避免已过期记录无限增长
+    if (this.head > 1024 && this.head * 2 > this.records.length) {
+      this.records = this.records.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  private trimHistory(now: number): void {
+    const longest = Math.max(0, ...this.options.historyWindowsMs);
+    const cutoff = now - longest;
+    let drop = 0;
+    while (drop < this.history.length && this.history[drop].time < cutoff) drop++;
+    if (drop > 0) {
+      this.history.splice(0, drop);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { TypedEventEmitter } from './typedEventEmitter';
+
+interface TestEvents {
+  value: (value: number) => void;
+  pair: (name: string, count: number) => void;
+}
+
+describe('TypedEventEmitter', () => {
+  test('delivers to every listener until its disposer is called', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const first = jest.fn();
+    const second = jest.fn();
+    const disposeFirst = emitter.on('value', first);
+    emitter.on('value', second);
+
+    emitter.emit('value', 1);
+    disposeFirst();
+    emitter.emit('value', 2);
+
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(second.mock.calls).toEqual([[1], [2]]);
+    expect(emitter.listenerCount('value')).toBe(1);
+  });
+
+  test('once listeners fire a single time', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = jest.fn();
+    emitter.once('pair', listener);
+
+    emitter.emit('pair', 'a', 1);
+    emitter.emit('pair', 'b', 2);
+
+    expect(listener.mock.calls).toEqual([['a', 1]]);
+  });
+
+  test('a throwing listener does not prevent the others from running', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const after = jest.fn();
+    emitter.on('value', () => {
+      throw new Error('boom');
+    });
+    emitter.on('value', after);
+
+    emitter.emit('value', 3);
+
+    expect(after).toHaveBeenCalledWith(3);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  test('listeners may unsubscribe while an event is being delivered', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const calls: string[] = [];
+    const disposeA = emitter.on('value', () => {
+      calls.push('a');
+      disposeA();
+    });
+    emitter.on('value', () => calls.push('b'));
+
+    emitter.emit('value', 0);
+    emitter.emit('value', 0);
+
+    expect(calls).toEqual(['a', 'b', 'b']);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * 类型安全的多订阅者事件分发
+ * Events 为 事件名 → 监听函数签名 的映射；on() 返回取消订阅的函数
+ */
+
+export type Disposer = () => void;
+
+type EventMap<Events> = { [K in keyof Events]: (...args: any[]) => void };
+
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+  private listeners: { [K in keyof Events]?: Set<Events[K]> } = {};
+  private readonly name: string;
+
+  constructor(name: string = 'TypedEventEmitter') {
+    this.name = name;
+  }
+
+  on<K extends keyof Events>(event: K, listener: Events[K]): Disposer {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends keyof Events>(event: K, listener: Events[K]): Disposer {
+    const wrapper = ((...args: any[]) => {
+      dispose();
+      listener(...args);
+    }) as Events[K];
+    const dispose = this.on(event, wrapper);
+    return dispose;
+  }
+
+  off<K extends keyof Events>(event: K, listener: Events[K]): void {
+    const set = this.listeners[event];
+    if (set) {
+      set.delete(listener);
+    }
+  }
+
+  /**
+   * 依次调用监听者；单个监听者抛出的异常不影响其他监听者
+   */
+  emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): void {
+    const set = this.listeners[event];
+    if (!set || set.size === 0) return;
+
+    // 复制一份，允许监听者在回调中取消订阅
+    Array.from(set).forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`${this.name}: "${String(event)}" 事件监听器出错:`, error);
+      }
+    });
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners[event]?.size ?? 0;
+  }
+
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * 创建数据 Worker
+ * import.meta 只出现在这个模块中：Jest 以 CommonJS 加载模块，无法解析 import.meta，
+ * 测试和其他模块都不直接引用这里，由 index.tsx 在启动时安装 Worker 池
+ */
+
+import { DataWorkerPool, defaultPoolSize } from './dataWorkerPool';
+
+export function createDataWorker(): Worker {
+  return new Worker(new URL('./dataWorker.worker.ts', import.meta.url));
+}
+
+/**
+ * 浏览器不支持 Worker 时返回 null，数据在主线程生成和解码
+ */
+export function createDataWorkerPool(size: number = defaultPoolSize()): DataWorkerPool | null {
+  if (typeof Worker === 'undefined' || size <= 0) {
+    return null;
+  }
+  return new DataWorkerPool(createDataWorker, size);
+}
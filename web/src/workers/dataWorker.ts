@@ -0,0 +1,42 @@
+/**
+ * 数据 Worker 的消息协议和处理逻辑
+ * 生成模拟数据和解码真实数据块都在 Worker 中完成，结果以 transferable 的 ArrayBuffer
+ * 返回主线程，不做复制。SharedArrayBuffer 环形缓冲需要页面启用跨源隔离
+ * (COOP/COEP)，部署环境无法保证，因此不使用
+ */
+
+import { generateChannelData, MockConfig } from '../utils/mockDataGenerator';
+import { decodeSamples, SampleFormat } from '../utils/sampleFormat';
+
+export type DataWorkerTask =
+  | { type: 'generate'; config: MockConfig; sampleOffset: number; seed?: number }
+  | { type: 'decode'; payload: Uint8Array; channels: number; format: SampleFormat };
+
+export type DataWorkerRequest = DataWorkerTask & { id: number };
+
+export type DataWorkerResponse =
+  | { id: number; type: 'result'; channels: Float32Array[] }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * 执行一个请求，返回响应和需要转移所有权的缓冲区
+ */
+export function handleDataWorkerRequest(request: DataWorkerRequest): {
+  response: DataWorkerResponse;
+  transfer: Transferable[];
+} {
+  try {
+    const channels = request.type === 'generate'
+      ? generateChannelData(request.config, request.sampleOffset, request.seed)
+      : decodeSamples(request.payload, request.channels, request.format);
+    return {
+      response: { id: request.id, type: 'result', channels },
+      transfer: channels.map(channel => channel.buffer)
+    };
+  } catch (error) {
+    return {
+      response: { id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) },
+      transfer: []
+    };
+  }
+}
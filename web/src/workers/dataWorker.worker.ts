@@ -0,0 +1,18 @@
+/**
+ * 数据 Worker 入口，由 createDataWorker 创建
+ */
+
+import { DataWorkerRequest, handleDataWorkerRequest } from './dataWorker';
+
+// Worker 全局作用域中与主线程通信的部分
+const scope = globalThis as unknown as {
+  onmessage: ((event: MessageEvent<DataWorkerRequest>) => void) | null;
+  postMessage(message: unknown, transfer: Transferable[]): void;
+};
+
+scope.onmessage = (event) => {
+  const { response, transfer } = handleDataWorkerRequest(event.data);
+  scope.postMessage(response, transfer);
+};
+
+export {};
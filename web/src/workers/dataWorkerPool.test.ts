@@ -0,0 +1,95 @@
+import { DataWorkerPool, InOrderDelivery, WorkerLike } from './dataWorkerPool';
+import { DataWorkerRequest, handleDataWorkerRequest } from './dataWorker';
+import { generateChannelData, MockConfig } from '../utils/mockDataGenerator';
+import { decodeSamples, DEFAULT_SAMPLE_FORMAT } from '../utils/sampleFormat';
+
+const config: MockConfig = {
+  channels: 2,
+  sampleRate: 10_000,
+  bufferSize: 64,
+  waveformType: 'sine',
+  amplitude: 1,
+  frequency: 100,
+  noiseLevel: 0
+};
+
+// 在同一线程内异步处理请求的 Worker，记录每次转移的缓冲区
+class InlineWorker implements WorkerLike {
+  onmessage: WorkerLike['onmessage'] = null;
+  onerror: WorkerLike['onerror'] = null;
+  transfers: Transferable[][] = [];
+  crash: boolean = false;
+
+  postMessage(message: DataWorkerRequest, transfer: Transferable[]): void {
+    this.transfers.push(transfer);
+    setTimeout(() => {
+      if (this.crash) {
+        this.onerror?.({ message: 'boom' } as ErrorEvent);
+        return;
+      }
+      const { response, transfer: returned } = handleDataWorkerRequest(message);
+      this.transfers.push(returned);
+      this.onmessage?.({ data: response } as MessageEvent);
+    }, 0);
+  }
+
+  terminate(): void {}
+}
+
+describe('DataWorkerPool', () => {
+  test('generates the same samples as the main thread and transfers the result buffers', async () => {
+    const workers: InlineWorker[] = [];
+    const pool = new DataWorkerPool(() => {
+      const worker = new InlineWorker();
+      workers.push(worker);
+      return worker;
+    }, 2);
+
+    const [first, second] = await Promise.all([pool.generate(config, 0), pool.generate(config, 64)]);
+
+    expect(first).toEqual(generateChannelData(config, 0));
+    expect(second).toEqual(generateChannelData(config, 64));
+    // 两个请求分给两个 Worker
+    expect(workers.map(worker => worker.transfers.length)).toEqual([2, 2]);
+    expect(workers[0].transfers[1]).toEqual(first.map(channel => channel.buffer));
+  });
+
+  test('decodes payloads, copying views that share a larger buffer before transferring', async () => {
+    const worker = new InlineWorker();
+    const pool = new DataWorkerPool(() => worker, 1);
+    const frame = new Uint8Array(4 + 8);
+    new Int16Array(frame.buffer, 4, 4).set([16384, -16384, 8192, -8192]);
+    const payload = frame.subarray(4);
+
+    const channels = await pool.decode(payload, 2, DEFAULT_SAMPLE_FORMAT);
+
+    expect(channels).toEqual(decodeSamples(payload, 2, DEFAULT_SAMPLE_FORMAT));
+    expect(worker.transfers[0][0]).not.toBe(frame.buffer);
+    expect(frame.byteLength).toBe(12);
+  });
+
+  test('rejects pending tasks when a worker fails or the pool is terminated', async () => {
+    const worker = new InlineWorker();
+    worker.crash = true;
+    const pool = new DataWorkerPool(() => worker, 1);
+
+    await expect(pool.generate(config, 0)).rejects.toThrow('数据 Worker 出错: boom');
+    pool.terminate();
+    await expect(pool.generate(config, 0)).rejects.toThrow('数据 Worker 池已关闭');
+  });
+});
+
+describe('InOrderDelivery', () => {
+  test('delivers results in submission order even when later ones finish first', async () => {
+    const delivered: string[] = [];
+    const ordered = new InOrderDelivery<string>();
+    const delay = (value: string, ms: number) => new Promise<string>(resolve => setTimeout(() => resolve(value), ms));
+
+    ordered.push(delay('a', 20), value => delivered.push(value), () => delivered.push('failed'));
+    ordered.push(Promise.reject(new Error('x')), value => delivered.push(value), error => delivered.push(error.message));
+    ordered.push(delay('c', 0), value => delivered.push(value), () => delivered.push('failed'));
+
+    await delay('', 40);
+    expect(delivered).toEqual(['a', 'x', 'c']);
+  });
+});
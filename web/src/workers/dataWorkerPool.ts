@@ -0,0 +1,151 @@
+/**
+ * 数据 Worker 池
+ * 请求分派给待处理任务最少的 Worker；结果按完成顺序返回，需要按提交顺序消费时配合
+ * InOrderDelivery 使用
+ */
+
+import { MockConfig } from '../utils/mockDataGenerator';
+import { SampleFormat } from '../utils/sampleFormat';
+import { DataWorkerRequest, DataWorkerResponse, DataWorkerTask } from './dataWorker';
+
+/**
+ * 池需要的 Worker 接口；测试中可以用同一线程内的实现代替
+ */
+export interface WorkerLike {
+  postMessage(message: DataWorkerRequest, transfer: Transferable[]): void;
+  onmessage: ((event: MessageEvent<DataWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  terminate(): void;
+}
+
+interface PendingTask {
+  resolve: (channels: Float32Array[]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: WorkerLike;
+  pending: Map<number, PendingTask>;
+}
+
+// 留一个核给主线程渲染
+export function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+export class DataWorkerPool {
+  private workers: PoolWorker[] = [];
+  private nextId: number = 1;
+  private terminated: boolean = false;
+
+  constructor(createWorker: () => WorkerLike, size: number = defaultPoolSize()) {
+    for (let i = 0; i < size; i++) {
+      const entry: PoolWorker = { worker: createWorker(), pending: new Map() };
+      entry.worker.onmessage = (event) => this.handleResponse(entry, event.data);
+      entry.worker.onerror = (event) => {
+        // Worker 内未捕获的异常：该 Worker 上的所有任务都失败
+        this.rejectAll(entry, new Error(`数据 Worker 出错: ${event.message}`));
+      };
+      this.workers.push(entry);
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * 生成一块模拟数据，与 generateChannelData(config, sampleOffset, seed) 的结果相同
+   */
+  generate(config: MockConfig, sampleOffset: number, seed?: number): Promise<Float32Array[]> {
+    return this.run({ type: 'generate', config, sampleOffset, seed }, []);
+  }
+
+  /**
+   * 解码一块真实数据，与 decodeSamples 的结果相同
+   * payload 的缓冲区被转移给 Worker，调用后不能再使用；与其他数据共用缓冲区时先复制
+   */
+  decode(payload: Uint8Array, channels: number, format: SampleFormat): Promise<Float32Array[]> {
+    const owned = payload.byteOffset === 0 && payload.byteLength === payload.buffer.byteLength
+      ? payload
+      : payload.slice();
+    return this.run({ type: 'decode', payload: owned, channels, format }, [owned.buffer]);
+  }
+
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.workers.forEach(entry => {
+      entry.worker.terminate();
+      this.rejectAll(entry, new Error('数据 Worker 池已关闭'));
+    });
+  }
+
+  private run(task: DataWorkerTask, transfer: Transferable[]): Promise<Float32Array[]> {
+    if (this.terminated) {
+      return Promise.reject(new Error('数据 Worker 池已关闭'));
+    }
+    const entry = this.workers.reduce((best, candidate) =>
+      candidate.pending.size < best.pending.size ? candidate : best);
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      entry.pending.set(id, { resolve, reject });
+      try {
+        entry.worker.postMessage({ ...task, id }, transfer);
+      } catch (error) {
+        entry.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private handleResponse(entry: PoolWorker, response: DataWorkerResponse): void {
+    const task = entry.pending.get(response.id);
+    if (!task) return;
+    entry.pending.delete(response.id);
+    if (response.type === 'result') {
+      task.resolve(response.channels);
+    } else {
+      task.reject(new Error(response.message));
+    }
+  }
+
+  private rejectAll(entry: PoolWorker, error: Error): void {
+    entry.pending.forEach(task => task.reject(error));
+    entry.pending.clear();
+  }
+}
+
+/**
+ * 按提交顺序交付异步结果：先提交的结果未完成时，后完成的结果等待
+ */
+export class InOrderDelivery<T> {
+  private tail: Promise<void> = Promise.resolve();
+
+  push(result: Promise<T>, deliver: (value: T) => void, fail: (error: Error) => void): void {
+    const settled = result.then(
+      value => () => deliver(value),
+      error => () => fail(error instanceof Error ? error : new Error(String(error)))
+    );
+    this.tail = this.tail
+      .then(() => settled)
+      .then(run => run())
+      .catch(error => console.error('交付 Worker 结果失败:', error));
+  }
+}
+
+// 当前安装的 Worker 池；由 index.tsx 在启动时设置，未设置时数据在主线程处理
+let currentPool: DataWorkerPool | null = null;
+
+export function getDataWorkerPool(): DataWorkerPool | null {
+  return currentPool;
+}
+
+export function setDataWorkerPool(pool: DataWorkerPool | null): void {
+  if (currentPool && currentPool !== pool) {
+    currentPool.terminate();
+  }
+  currentPool = pool;
+}